@@ -1,45 +1,189 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ImageConfig, ProcessingStatus, AIAnalysisResult, CropRect } from './types';
-import { readFileAsDataURL, processImage, formatFileSize, getTransformedDimensions } from './utils/imageUtils';
-import { analyzeImageWithGemini } from './services/geminiService';
+import { ImageConfig, ProcessingStatus, AIAnalysisResult, CropRect, BatchItem, ProcessResult, ImageMetadata, QualityMetrics, QualityPoint, Annotation, Redaction, RedactionStyle, SubjectBox } from './types';
+import { readFileAsDataURL, formatFileSize, getIntermediateDimensions, getFormatExtension, getOutputFilename, downloadBlob, getCenteredCropRect, isImageFile, IMAGE_FILE_ACCEPT } from './utils/imageUtils';
+import { createExportZip, ExportItem } from './utils/exportUtils';
+import { ZipEntry } from './utils/zip';
+import { processImage, isCancelledError, measureQuality, plotQualityCurve, detectSubject } from './services/imageProcessor';
+import { AIErrorKind, getAIErrorKind } from './services/aiRequest';
 import ControlPanel from './components/ControlPanel';
 import AIInsights from './components/AIInsights';
+import AISettingsPanel from './components/AISettingsPanel';
+import AnalysisTemplatePanel from './components/AnalysisTemplatePanel';
 import CropOverlay from './components/CropOverlay';
+import HistoryPanel from './components/HistoryPanel';
+import BatchQueue from './components/BatchQueue';
+import MetadataPanel from './components/MetadataPanel';
+import PresetPanel from './components/PresetPanel';
+import ProfilePanel from './components/ProfilePanel';
+import ResponsivePanel from './components/ResponsivePanel';
+import CompareView from './components/CompareView';
+import QualityPanel from './components/QualityPanel';
+import WatermarkPanel from './components/WatermarkPanel';
+import AnnotationOverlay, { AnnotationStyle } from './components/AnnotationOverlay';
+import AnnotationPanel from './components/AnnotationPanel';
+import RedactionOverlay, { RedactionProposal } from './components/RedactionOverlay';
+import RedactionPanel from './components/RedactionPanel';
+import SmartCropPanel, { SmartCropCandidate } from './components/SmartCropPanel';
 import { translations, Language } from './utils/i18n';
+import { createId } from './utils/id';
+import { useHistory } from './hooks/useHistory';
+import { usePresets } from './hooks/usePresets';
+import { useAISettings } from './hooks/useAISettings';
+import { useAnalysisTemplates } from './hooks/useAnalysisTemplates';
+import { NEUTRAL_ADJUSTMENTS } from './utils/colorUtils';
+import { DEFAULT_METADATA_POLICY, readImageMetadata } from './utils/metadata';
+import { DEFAULT_WATERMARK } from './utils/watermark';
+import { getDefaultAnnotationSize } from './utils/annotations';
+import { getDetectionConfig, toSourceRegion } from './utils/redaction';
+import { SMART_CROP_RATIOS, getSmartCropRect, getSubjectConfig } from './utils/smartCrop';
+import { getDisplayableBlob, isLossyFormat } from './utils/codecs';
+import { getAnalysisText, isTemplateUsable } from './utils/analysisTemplates';
+import {
+  AnalysisRecord, createAnalysisRecord, deleteAnalysis, findCachedAnalysis, getAnalysisCacheKey, getAnalysisConfig, hashBlob,
+  listAnalyses, storeAnalysis
+} from './utils/analysisCache';
+import { Preset, applyPreset } from './utils/presets';
+import { ProfileId, ProfileVariant, getExportProfile, getProfileConfig, getProfileFilename } from './utils/profiles';
+import {
+  DEFAULT_RESPONSIVE_SETTINGS, RESPONSIVE_FORMATS, RenderedSize, ResponsiveSettings,
+  buildPictureMarkup, getCropSize, getResponsiveConfig, getResponsiveWidths, nameResponsiveFiles
+} from './utils/responsive';
+import { CompareMode, getCompareConfig, renderDifference } from './utils/compare';
+import { EXACT_METRICS, formatPsnr, formatSsim, isCurveCurrent, isExactEncoding } from './utils/metrics';
+
+// Longer side of the copy sent to the AI provider for smart crop refinement
+const AI_SUBJECT_SIZE = 1024;
 
 const INITIAL_CONFIG: ImageConfig = {
   rotation: 0,
+  straighten: 0,
+  straightenFill: 'crop',
+  fillColor: '#ffffff',
   cropRatio: null,
   cropRect: null,
   quality: 0.9,
   targetWidth: 0,
   targetHeight: 0,
+  resampling: 'browser',
   flipHorizontal: false,
   flipVertical: false,
   format: 'image/jpeg',
+  paletteColors: 0,
+  dither: true,
+  targetFileSize: 0,
+  allowDownscale: false,
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  temperature: 0,
+  tint: 0,
+  gamma: 1,
+  metadata: DEFAULT_METADATA_POLICY,
+  watermark: DEFAULT_WATERMARK,
+  annotations: [],
+  redactions: [],
+};
+
+// Keys whose controls fire continuously (sliders, typing); consecutive edits merge into one history step
+const CONTINUOUS_KEYS: (keyof ImageConfig)[] = [
+  'quality', 'paletteColors', 'targetWidth', 'targetHeight', 'targetFileSize', 'straighten', 'fillColor',
+  'brightness', 'contrast', 'saturation', 'exposure', 'temperature', 'tint', 'gamma', 'metadata', 'watermark',
+  'annotations'
+];
+
+// History label for a config change: the single changed key, a group name, or 'multiple'
+const describeConfigChange = (prev: ImageConfig, next: ImageConfig): string => {
+  const changed = (Object.keys(next) as (keyof ImageConfig)[]).filter(key => prev[key] !== next[key]);
+  if (changed.every(key => key === 'cropRatio' || key === 'cropRect')) return 'crop';
+  if (changed.length > 1 && changed.every(key => key in NEUTRAL_ADJUSTMENTS)) return 'adjustments';
+  return changed.length === 1 ? changed[0] : 'multiple';
 };
 
 export default function App() {
+  // Image URLs are object URLs over Blobs, revoked by the effect below when replaced
+  const [originalFile, setOriginalFile] = useState<Blob | null>(null);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
   // Intermediate Image: Rotated/Flipped but NOT cropped. Used for the Crop Editor view.
   const [intermediateImage, setIntermediateImage] = useState<string | null>(null);
 
-  const [processedSize, setProcessedSize] = useState<number>(0);
-  const [config, setConfig] = useState<ImageConfig>(INITIAL_CONFIG);
+  const [processResult, setProcessResult] = useState<ProcessResult | null>(null);
+  const history = useHistory<ImageConfig>(INITIAL_CONFIG);
+  const config = history.state;
+  const presets = usePresets(INITIAL_CONFIG);
   const [origDimensions, setOrigDimensions] = useState({ width: 0, height: 0 });
+  const [sourceMetadata, setSourceMetadata] = useState<ImageMetadata | null>(null);
 
   // Crop State
   const [isCropping, setIsCropping] = useState(false);
+  const [isStraightening, setIsStraightening] = useState(false);
+
+  // Smart Crop State. The subject is in fractions of the intermediate image, so it's only
+  // valid for the geometry it was found with.
+  const [smartCropSubject, setSmartCropSubject] = useState<{
+    key: string;
+    box: SubjectBox;
+    source: 'local' | 'ai';
+    refineFailed: boolean;
+  } | null>(null);
+  const [smartCropStatus, setSmartCropStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
+  const [refineSubjectWithAI, setRefineSubjectWithAI] = useState(false);
+  // Aborts the AI refinement in flight when another image is loaded
+  const subjectAbortRef = useRef<AbortController | null>(null);
+  const subjectKey = JSON.stringify([
+    config.rotation, config.straighten, config.straightenFill, config.flipHorizontal, config.flipVertical
+  ]);
+  const currentSubject = smartCropSubject?.key === subjectKey ? smartCropSubject : null;
+
+  // Annotation State
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationStyle, setAnnotationStyle] = useState<AnnotationStyle>({ tool: 'arrow', color: '#ef4444', size: 0 });
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+
+  // Redaction State
+  const [isRedacting, setIsRedacting] = useState(false);
+  const [redactionStyle, setRedactionStyle] = useState<{ style: RedactionStyle; color: string }>({ style: 'pixelate', color: '#000000' });
+  const [selectedRedactionId, setSelectedRedactionId] = useState<string | null>(null);
+  const [redactionProposals, setRedactionProposals] = useState<RedactionProposal[]>([]);
+  const [detectStatus, setDetectStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
+  const [detectError, setDetectError] = useState<AIErrorKind | null>(null);
+  const detectAbortRef = useRef<AbortController | null>(null);
 
   // Language State
   const [lang, setLang] = useState<Language>('en');
   const t = translations[lang];
 
-  // Gemini State
+  // AI State
   const [aiStatus, setAiStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
-  const [aiResult, setAiResult] = useState<AIAnalysisResult | null>(null);
+  // The analysis shown, as stored in the cache; `cached` when it was reused instead of requested
+  const [aiRecord, setAiRecord] = useState<{ record: AnalysisRecord; cached: boolean } | null>(null);
+  const aiResult = aiRecord?.record.analysis ?? null;
+  const [aiError, setAiError] = useState<AIErrorKind | null>(null);
+  const [sourceHash, setSourceHash] = useState<string | null>(null);
+  const [analysisHistory, setAnalysisHistory] = useState<AnalysisRecord[]>([]);
+  // Aborts the analysis in flight, when cancelled or when another image is loaded
+  const aiAbortRef = useRef<AbortController | null>(null);
+  const ai = useAISettings();
+  const analysisTemplates = useAnalysisTemplates();
+  const aiFilename = getAnalysisText(aiResult, 'filename');
+
+  // Batch State
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+
+  // Export Profile State
+  const [profileVariants, setProfileVariants] = useState<ProfileVariant[]>([]);
+  const [isProfilesRunning, setIsProfilesRunning] = useState(false);
+  const [editingProfileId, setEditingProfileId] = useState<ProfileId | null>(null);
+
+  // Responsive Set State
+  const [responsiveSettings, setResponsiveSettings] = useState<ResponsiveSettings>(DEFAULT_RESPONSIVE_SETTINGS);
+  const [responsiveSizes, setResponsiveSizes] = useState<RenderedSize[]>([]);
+  const [responsiveSkipped, setResponsiveSkipped] = useState<ImageConfig['format'][]>([]);
+  const [responsiveProgress, setResponsiveProgress] = useState<{ done: number; total: number } | null>(null);
 
   // Processing Debounce
   const [isProcessing, setIsProcessing] = useState(false);
@@ -48,56 +192,108 @@ export default function App() {
   // View Transform State (Pan & Zoom)
   const [viewTransform, setViewTransform] = useState({ scale: 1, x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
+
+  // Before/after comparison; the reference is the original rendered at the result's geometry
+  const [compareMode, setCompareMode] = useState<'off' | CompareMode>('off');
+  const [compareBlob, setCompareBlob] = useState<Blob | null>(null);
+  const [compareImage, setCompareImage] = useState<string | null>(null);
+  const [differenceImage, setDifferenceImage] = useState<string | null>(null);
+
+  // Quality metrics of the current result, and the size-vs-SSIM curve with the settings it was plotted for
+  const [qualityMetrics, setQualityMetrics] = useState<QualityMetrics | null>(null);
+  const [qualityCurve, setQualityCurve] = useState<{ config: ImageConfig; points: QualityPoint[] } | null>(null);
+  // Only the measurement of the latest preview may set qualityMetrics
+  const metricsRunRef = useRef(0);
+  const [isPlotting, setIsPlotting] = useState(false);
   const dragStartRef = useRef({ x: 0, y: 0 });
   const viewStartRef = useRef({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
   const isFirstLoadRef = useRef(false);
 
-  // Load Initial Image Metadata
+  // Release object URLs once they are replaced
+  useEffect(() => () => { if (originalImage) URL.revokeObjectURL(originalImage); }, [originalImage]);
+  useEffect(() => () => { if (intermediateImage) URL.revokeObjectURL(intermediateImage); }, [intermediateImage]);
+  useEffect(() => () => { if (processedImage) URL.revokeObjectURL(processedImage); }, [processedImage]);
+  useEffect(() => () => { if (compareImage) URL.revokeObjectURL(compareImage); }, [compareImage]);
+  useEffect(() => () => { if (differenceImage) URL.revokeObjectURL(differenceImage); }, [differenceImage]);
+
+  // Initial process of a newly opened file. Its dimensions arrive with the intermediate image
+  // (see updateIntermediateImage), since an <img> can't load HEIC or TIFF sources.
   useEffect(() => {
-    if (originalImage) {
-      const img = new Image();
-      img.src = originalImage;
-      img.onload = () => {
-        setOrigDimensions({ width: img.naturalWidth, height: img.naturalHeight });
-        // Generate initial intermediate image
-        updateIntermediateImage(originalImage, config);
-        // Trigger initial process
-        handleProcess(originalImage, config);
-      };
+    if (originalImage && originalFile) {
+      handleProcess(originalFile, config);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [originalImage]);
 
+  // Read EXIF / XMP / IPTC of the opened file for the metadata panel
+  useEffect(() => {
+    if (!originalFile) return;
+    let cancelled = false;
+    setSourceMetadata(null);
+    readImageMetadata(originalFile).then(metadata => {
+      if (!cancelled) setSourceMetadata(metadata);
+    });
+    return () => { cancelled = true; };
+  }, [originalFile]);
+
+  // Hash the opened file and load the analyses it already has
+  useEffect(() => {
+    if (!originalFile) return;
+    let cancelled = false;
+    setSourceHash(null);
+    setAnalysisHistory([]);
+    hashBlob(originalFile).then(async hash => {
+      if (cancelled) return;
+      setSourceHash(hash);
+      const history = await listAnalyses(hash);
+      if (!cancelled) setAnalysisHistory(history);
+    });
+    return () => { cancelled = true; };
+  }, [originalFile]);
+
   // Update Intermediate Image when Rotation/Flip changes
-  const updateIntermediateImage = async (src: string, cfg: ImageConfig) => {
+  const updateIntermediateImage = async (src: Blob, cfg: ImageConfig) => {
     try {
       // Generate an image that is rotated/flipped but NOT cropped/resized
-      const intermediateUrl = await processImage(src, {
+      const result = await processImage(src, {
         ...cfg,
         cropRect: null,
         cropRatio: null,
         targetWidth: 0,
-        targetHeight: 0
-      });
-      setIntermediateImage(intermediateUrl);
+        targetHeight: 0,
+        targetFileSize: 0,
+        // Placed relative to the final crop, so it would land in the wrong spot here
+        watermark: { ...cfg.watermark, type: 'none' },
+        // The annotation overlay draws them live on top
+        annotations: [],
+        // Only displayed, so stay on the canvas encoders; quality 1 makes WebP lossless
+        ...(cfg.format === 'image/jpeg' || cfg.format === 'image/webp' ? {} : { format: 'image/webp', quality: 1 })
+      }, 'intermediate');
+      setOrigDimensions(prev =>
+        prev.width === result.sourceWidth && prev.height === result.sourceHeight
+          ? prev
+          : { width: result.sourceWidth, height: result.sourceHeight }
+      );
+      setIntermediateImage(URL.createObjectURL(result.blob));
     } catch (e) {
+      if (isCancelledError(e)) return;
       console.error("Failed to update intermediate image", e);
     }
   };
 
-  // Effect: When rotation/flip changes, update intermediate and clear crop
+  // Effect: When rotation/flip or redactions change, update intermediate and clear crop
   useEffect(() => {
-    if (!originalImage) return;
+    if (!originalFile) return;
     // Check if transform changed (shallow comparison or just always update if rotation changed)
     // For simplicity, we update intermediate on specific keys
-    updateIntermediateImage(originalImage, config);
+    updateIntermediateImage(originalFile, config);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [config.rotation, config.flipHorizontal, config.flipVertical, originalImage]);
+  }, [config.rotation, config.straighten, config.straightenFill, config.fillColor, config.flipHorizontal, config.flipVertical, config.redactions, originalImage]);
 
   // Handle Configuration Changes with Debounce
   useEffect(() => {
-    if (!originalImage) return;
+    if (!originalFile) return;
 
     if (timeoutRef.current) clearTimeout(timeoutRef.current);
 
@@ -106,10 +302,10 @@ export default function App() {
     // Strategy: If isCropping, we show the Intermediate Image + Overlay. We don't need to re-process 'processedImage' constantly.
     // We only re-process processedImage when NOT isCropping (or when user clicks Apply).
 
-    if (!isCropping) {
+    if (!isCropping && !isAnnotating && !isRedacting) {
       setIsProcessing(true);
       timeoutRef.current = setTimeout(() => {
-        handleProcess(originalImage, config);
+        handleProcess(originalFile, config);
       }, 300);
     }
 
@@ -117,7 +313,28 @@ export default function App() {
       if (timeoutRef.current) clearTimeout(timeoutRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [config, isCropping]); // Re-run when isCropping toggles to false
+  }, [config, isCropping, isAnnotating, isRedacting]); // Re-run when an editing mode toggles off
+
+  // Keyboard Shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave native text undo alone inside form fields
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
 
   // Auto Fit on First Load
   useEffect(() => {
@@ -152,76 +369,465 @@ export default function App() {
     }
   }, [intermediateImage]);
 
-  const handleProcess = async (src: string, cfg: ImageConfig) => {
+  // A new file must not be compared against (or charted like) the previous one
+  useEffect(() => {
+    setCompareBlob(null);
+    setCompareImage(null);
+    setDifferenceImage(null);
+    setQualityCurve(null);
+  }, [originalFile]);
+
+  // Re-render the reference whenever the result changes while comparing
+  useEffect(() => {
+    if (compareMode === 'off' || !originalFile || !processResult) return;
+    let cancelled = false;
+    // Only displayed and diffed, so the quick PNG pass will do
+    processImage(originalFile, getCompareConfig(config, processResult), 'compare', 'fast')
+      .then(result => {
+        if (cancelled) return;
+        setCompareBlob(result.blob);
+        setCompareImage(URL.createObjectURL(result.blob));
+      })
+      .catch(e => {
+        if (!isCancelledError(e)) console.error("Failed to render comparison", e);
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compareMode === 'off', processResult, originalFile]);
+
+  useEffect(() => {
+    if (compareMode !== 'difference' || !compareBlob || !processResult) return;
+    let cancelled = false;
+    renderDifference(compareBlob, processResult.blob)
+      .then(blob => {
+        if (!cancelled) setDifferenceImage(URL.createObjectURL(blob));
+      })
+      .catch(e => console.error("Failed to render difference", e));
+    return () => { cancelled = true; };
+  }, [compareMode, compareBlob, processResult]);
+
+  const handleProcess = async (src: Blob, cfg: ImageConfig) => {
     try {
-      const resultDataUrl = await processImage(src, cfg);
-      setProcessedImage(resultDataUrl);
-
-      // Calculate size roughly
-      const base64Length = resultDataUrl.length - (resultDataUrl.indexOf(',') + 1);
-      const padding = (resultDataUrl.charAt(resultDataUrl.length - 2) === '=') ? 2 : ((resultDataUrl.charAt(resultDataUrl.length - 1) === '=') ? 1 : 0);
-      const sizeInBytes = (base64Length * 0.75) - padding;
-      setProcessedSize(sizeInBytes);
+      // The 'preview' channel cancels whatever job an older config started
+      const result = await processImage(src, cfg, 'preview', 'fast');
+      setProcessedImage(URL.createObjectURL(await getDisplayableBlob(result.blob)));
+      setProcessResult(result);
+      setIsProcessing(false);
+      const run = ++metricsRunRef.current;
+      // Lossless output at full size: the scores are known without rendering the reference again
+      if (isExactEncoding(cfg) && result.scale === 1) {
+        setQualityMetrics(EXACT_METRICS);
+        return;
+      }
+      setQualityMetrics(null);
+      measureQuality(src, cfg, result.blob, 'metrics')
+        .then(metrics => {
+          if (run === metricsRunRef.current) setQualityMetrics(metrics);
+        })
+        .catch(err => {
+          if (!isCancelledError(err)) console.error("Quality measurement failed", err);
+        });
     } catch (e) {
+      // Superseded by a newer config; that job clears the processing state
+      if (isCancelledError(e)) return;
       console.error("Processing failed", e);
-    } finally {
       setIsProcessing(false);
     }
   };
 
+  // The first file is opened in the editor; when several are given, all of them
+  // are queued so the settings designed on the first one can be applied to the rest.
+  const loadFiles = async (fileList: FileList) => {
+    const files = Array.from(fileList).filter(isImageFile);
+    if (files.length === 0) return;
+
+    if (files.length > 1) {
+      setBatchItems(prev => [
+        ...prev,
+        ...files.map(file => ({
+          id: createId(),
+          file,
+          status: ProcessingStatus.IDLE,
+          result: null,
+          size: 0,
+          format: INITIAL_CONFIG.format,
+          error: null
+        }))
+      ]);
+    }
+
+    setOriginalFile(files[0]);
+    setOriginalImage(URL.createObjectURL(files[0]));
+    history.reset(INITIAL_CONFIG);
+    aiAbortRef.current?.abort();
+    setAiRecord(null);
+    setAiStatus(ProcessingStatus.IDLE);
+    setIsCropping(false);
+    setIsStraightening(false);
+    setEditingProfileId(null);
+    subjectAbortRef.current?.abort();
+    setSmartCropSubject(null);
+    setSmartCropStatus(ProcessingStatus.IDLE);
+    setIsAnnotating(false);
+    setSelectedAnnotationId(null);
+    setAnnotationStyle(prev => ({ ...prev, size: 0 }));
+    setIsRedacting(false);
+    setSelectedRedactionId(null);
+    setRedactionProposals([]);
+    detectAbortRef.current?.abort();
+    setDetectStatus(ProcessingStatus.IDLE);
+    isFirstLoadRef.current = true;
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const url = await readFileAsDataURL(file);
-      setOriginalImage(url);
-      setConfig(INITIAL_CONFIG);
-      setAiResult(null);
-      setAiStatus(ProcessingStatus.IDLE);
-      setIsCropping(false);
-      isFirstLoadRef.current = true;
+    if (e.target.files && e.target.files.length > 0) {
+      await loadFiles(e.target.files);
+      e.target.value = '';
     }
   };
 
   const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (!file.type.startsWith('image/')) return;
-      const url = await readFileAsDataURL(file);
-      setOriginalImage(url);
-      setConfig(INITIAL_CONFIG);
-      setAiResult(null);
-      setAiStatus(ProcessingStatus.IDLE);
-      setIsCropping(false);
-      isFirstLoadRef.current = true;
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      await loadFiles(e.dataTransfer.files);
+    }
+  };
+
+  // --- Batch Logic ---
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const handleProcessBatch = async () => {
+    if (isBatchRunning) return;
+    setIsBatchRunning(true);
+
+    // cropRect is in pixel coordinates of the image in the editor, so other images
+    // fall back to a centered crop of the same ratio inside processImage.
+    // Annotations and redactions are placed on this image's pixels, so they are dropped as well.
+    const batchConfig: ImageConfig = { ...config, cropRect: null, annotations: [], redactions: [] };
+
+    // Sequential on purpose: each item allocates two full-size canvases
+    for (const item of batchItems) {
+      updateBatchItem(item.id, { status: ProcessingStatus.PROCESSING, result: null, size: 0, error: null });
+      try {
+        const { blob } = await processImage(item.file, batchConfig);
+        updateBatchItem(item.id, { status: ProcessingStatus.SUCCESS, result: blob, size: blob.size, format: batchConfig.format });
+      } catch (e) {
+        updateBatchItem(item.id, {
+          status: ProcessingStatus.ERROR,
+          error: e instanceof Error ? e.message : t.decodeError
+        });
+      }
+    }
+
+    setIsBatchRunning(false);
+  };
+
+  const handleDownloadBatchZip = () => {
+    const items = batchItems
+      .filter(item => item.status === ProcessingStatus.SUCCESS && item.result)
+      .map(item => ({ filename: getOutputFilename(item.file.name, item.format), blob: item.result as Blob }));
+    downloadZip(items, 'optipic-batch.zip');
+  };
+
+  const handleDownloadBatch = async () => {
+    for (const item of batchItems) {
+      if (item.status !== ProcessingStatus.SUCCESS || !item.result) continue;
+      downloadBlob(item.result, getOutputFilename(item.file.name, item.format));
+      // Browsers drop rapid consecutive downloads, so space them out
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  };
+
+  // --- Export Profile Logic ---
+
+  // Generated variants and responsive sets no longer match once the edits change
+  useEffect(() => {
+    setProfileVariants(prev => prev.map(variant =>
+      variant.status === ProcessingStatus.IDLE ? variant : { ...variant, status: ProcessingStatus.IDLE, result: null, error: null }
+    ));
+    setResponsiveSizes([]);
+    setResponsiveSkipped([]);
+  }, [config, originalFile]);
+
+  const updateProfileVariant = (profileId: ProfileId, patch: Partial<ProfileVariant>) => {
+    setProfileVariants(prev => prev.map(variant => (variant.profileId === profileId ? { ...variant, ...patch } : variant)));
+  };
+
+  const handleToggleProfile = (profileId: ProfileId) => {
+    if (editingProfileId === profileId) setEditingProfileId(null);
+    setProfileVariants(prev =>
+      prev.some(variant => variant.profileId === profileId)
+        ? prev.filter(variant => variant.profileId !== profileId)
+        : [...prev, { profileId, cropRect: null, status: ProcessingStatus.IDLE, result: null, error: null }]
+    );
+  };
+
+  const getProfileCropRect = (variant: ProfileVariant): CropRect => {
+    if (variant.cropRect) return variant.cropRect;
+    const profile = getExportProfile(variant.profileId);
+    const { width, height } = getIntermediateDimensions(origDimensions.width, origDimensions.height, config);
+    return getCenteredCropRect(width, height, profile.width / profile.height);
+  };
+
+  const handleEditProfileCrop = (profileId: ProfileId) => {
+    setIsCropping(false);
+    setIsStraightening(false);
+    setIsAnnotating(false);
+    setIsRedacting(false);
+    setEditingProfileId(editingProfileId === profileId ? null : profileId);
+  };
+
+  // All variants from the one source; sequential, the worker keeps the decoded source cached
+  const handleGenerateProfiles = async () => {
+    if (!originalFile || isProfilesRunning) return;
+    setIsProfilesRunning(true);
+    setEditingProfileId(null);
+
+    for (const variant of profileVariants) {
+      updateProfileVariant(variant.profileId, { status: ProcessingStatus.PROCESSING, result: null, error: null });
+      try {
+        const profile = getExportProfile(variant.profileId);
+        const result = await processImage(originalFile, getProfileConfig(config, profile, getProfileCropRect(variant)));
+        updateProfileVariant(variant.profileId, { status: ProcessingStatus.SUCCESS, result });
+      } catch (e) {
+        updateProfileVariant(variant.profileId, {
+          status: ProcessingStatus.ERROR,
+          error: e instanceof Error ? e.message : t.decodeError
+        });
+      }
+    }
+
+    setIsProfilesRunning(false);
+  };
+
+  const getProfileDownloadName = (profileId: ProfileId) =>
+    getProfileFilename(aiFilename || 'optipic', getExportProfile(profileId));
+
+  const handleDownloadProfile = (profileId: ProfileId) => {
+    const variant = profileVariants.find(v => v.profileId === profileId);
+    if (!variant?.result) return;
+    downloadBlob(variant.result.blob, getProfileDownloadName(profileId));
+  };
+
+  const handleDownloadProfilesZip = () => {
+    const items = profileVariants
+      .filter(variant => variant.status === ProcessingStatus.SUCCESS && variant.result)
+      .map(variant => ({
+        filename: getProfileDownloadName(variant.profileId),
+        blob: (variant.result as ProcessResult).blob,
+        analysis: aiResult
+      }));
+    downloadZip(items, `${aiFilename || 'optipic'}-profiles.zip`);
+  };
+
+  // --- Responsive Set Logic ---
+
+  const handleGenerateResponsive = async () => {
+    if (!originalFile || responsiveProgress) return;
+    const crop = getCropSize(config, getIntermediateDimensions(origDimensions.width, origDimensions.height, config));
+    const widths = getResponsiveWidths(responsiveSettings.widths, crop.width);
+    const formats = RESPONSIVE_FORMATS.filter(format => responsiveSettings.formats.includes(format));
+    const total = widths.length * formats.length;
+    const sizes: RenderedSize[] = [];
+    const skipped: ImageConfig['format'][] = [];
+    let done = 0;
+    setResponsiveProgress({ done, total });
+
+    for (const format of formats) {
+      for (const width of widths) {
+        try {
+          const result = await processImage(originalFile, getResponsiveConfig(config, format, width, crop));
+          // Canvas silently falls back to PNG for formats it can't encode (commonly AVIF)
+          if (result.blob.type !== format) {
+            skipped.push(format);
+            done += widths.length - widths.indexOf(width);
+            break;
+          }
+          sizes.push({ blob: result.blob, width: result.width, height: result.height, format });
+        } catch (e) {
+          console.error("Responsive render failed", e);
+        }
+        done++;
+        setResponsiveProgress({ done, total });
+      }
+    }
+
+    setResponsiveSizes(sizes);
+    setResponsiveSkipped(skipped);
+    setResponsiveProgress(null);
+  };
+
+  const responsiveFiles = nameResponsiveFiles(responsiveSizes, aiFilename || 'optipic');
+  const pictureMarkup = buildPictureMarkup(responsiveFiles, {
+    alt: getAnalysisText(aiResult, 'altText'),
+    sizes: responsiveSettings.sizes
+  });
+
+  const handleDownloadResponsiveZip = () => {
+    downloadZip(
+      responsiveFiles.map(file => ({ filename: file.filename, blob: file.blob, analysis: aiResult })),
+      `${aiFilename || 'optipic'}-responsive.zip`,
+      [{ name: 'picture.html', data: new TextEncoder().encode(`${pictureMarkup}\n`) }]
+    );
+  };
+
+  const handlePlotCurve = async () => {
+    if (!originalFile) return;
+    const plotted = config;
+    setIsPlotting(true);
+    try {
+      const points = await plotQualityCurve(originalFile, plotted, 'curve');
+      setQualityCurve({ config: plotted, points });
+    } catch (e) {
+      if (!isCancelledError(e)) console.error("Quality curve failed", e);
+    } finally {
+      setIsPlotting(false);
     }
   };
 
-  const handleAIAnalysis = async () => {
-    if (!processedImage) return;
+  // Answers from the cache when this exact image was analyzed with the same language and
+  // template before, unless `forceRefresh`; new results are cached and added to the history
+  const handleAIAnalysis = async (forceRefresh = false) => {
+    const template = analysisTemplates.selected;
+    if (!processResult || !originalFile || !isTemplateUsable(template)) return;
+    aiAbortRef.current?.abort();
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
     setAiStatus(ProcessingStatus.ANALYZING);
     try {
-      // Use the processed image for analysis
-      const result = await analyzeImageWithGemini(processedImage, config.format, lang);
-      setAiResult(result);
+      const source = sourceHash ?? await hashBlob(originalFile);
+      const input = await processImage(
+        originalFile, getAnalysisConfig(config, processResult.width, processResult.height), 'analysis'
+      );
+      const imageHash = await hashBlob(input.blob);
+      if (!forceRefresh) {
+        const cached = await findCachedAnalysis(getAnalysisCacheKey(imageHash, lang, template));
+        if (controller.signal.aborted) return;
+        if (cached) {
+          setAiRecord({ record: cached, cached: true });
+          setAiStatus(ProcessingStatus.SUCCESS);
+          return;
+        }
+      }
+
+      const base64 = await readFileAsDataURL(input.blob);
+      const values = await ai.provider.analyzeImage(base64, input.blob.type, lang, template, controller.signal);
+      const record = createAnalysisRecord(source, imageHash, lang, template, ai.provider.label, {
+        templateId: template.id, fields: template.fields, values
+      });
+      setAiRecord({ record, cached: false });
       setAiStatus(ProcessingStatus.SUCCESS);
+      await storeAnalysis(record);
+      setAnalysisHistory(await listAnalyses(source));
     } catch (error) {
+      if (isCancelledError(error)) return;
+      console.error("AI analysis failed", error);
+      setAiError(getAIErrorKind(error));
       setAiStatus(ProcessingStatus.ERROR);
     }
   };
 
-  const downloadImage = () => {
-    if (!processedImage) return;
-    const link = document.createElement('a');
-    link.href = processedImage;
-    const ext = config.format.split('/')[1];
-    const name = aiResult?.suggestedFilename
-      ? `${aiResult.suggestedFilename}.${ext}`
+  const handleCancelAnalysis = () => {
+    aiAbortRef.current?.abort();
+    setAiStatus(ProcessingStatus.IDLE);
+  };
+
+  // Edits are written back, so they are there the next time the analysis comes from the cache
+  const handleAIResultChange = (values: AIAnalysisResult) => {
+    if (!aiRecord) return;
+    const record = { ...aiRecord.record, analysis: { ...aiRecord.record.analysis, values } };
+    setAiRecord({ ...aiRecord, record });
+    setAnalysisHistory(prev => prev.map(entry => entry.id === record.id ? record : entry));
+    storeAnalysis(record);
+  };
+
+  const handleRestoreAnalysis = (record: AnalysisRecord) => {
+    aiAbortRef.current?.abort();
+    setAiRecord({ record, cached: true });
+    setAiStatus(ProcessingStatus.SUCCESS);
+  };
+
+  const handleDeleteAnalysis = (id: string) => {
+    deleteAnalysis(id);
+    setAnalysisHistory(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  const getDownloadName = () => {
+    const ext = getFormatExtension(config.format);
+    return aiFilename
+      ? `${aiFilename}.${ext}`
       : `optipic-edited.${ext}`;
-    link.download = name;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  };
+
+  // The preview itself unless it is a draft (see processImage); the thorough encode then
+  // replaces it on screen too, so the size readouts describe the file that was saved
+  const getExportResult = async (): Promise<ProcessResult | null> => {
+    if (!processResult || !originalFile) return null;
+    if (!processResult.draft) return processResult;
+    const result = await processImage(originalFile, config, 'export');
+    // Unless a newer preview came in meanwhile
+    setProcessResult(prev => (prev === processResult ? result : prev));
+    return result;
+  };
+
+  const downloadImage = async () => {
+    try {
+      const result = await getExportResult();
+      if (result) downloadBlob(result.blob, getDownloadName());
+    } catch (e) {
+      if (!isCancelledError(e)) console.error("Export failed", e);
+    }
+  };
+
+  const downloadZip = async (items: ExportItem[], zipName: string, extraFiles?: ZipEntry[]) => {
+    if (items.length === 0 || isZipping) return;
+    setIsZipping(true);
+    try {
+      const zip = await createExportZip(items, extraFiles);
+      downloadBlob(zip, zipName);
+    } catch (e) {
+      console.error("ZIP export failed", e);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const downloadImageZip = async () => {
+    try {
+      const result = await getExportResult();
+      if (!result) return;
+      const filename = getDownloadName();
+      downloadZip(
+        [{ filename, blob: result.blob, analysis: aiResult }],
+        `${filename.slice(0, filename.lastIndexOf('.'))}.zip`
+      );
+    } catch (e) {
+      if (!isCancelledError(e)) console.error("Export failed", e);
+    }
+  };
+
+  const handleConfigChange = (newConfig: ImageConfig) => {
+    const label = describeConfigChange(config, newConfig);
+    history.set(newConfig, label, CONTINUOUS_KEYS.includes(label as keyof ImageConfig));
+  };
+
+  // --- Presets ---
+
+  const handleApplyPreset = (preset: Preset) => {
+    // Presets don't carry annotations or redactions, so keep the ones on this image
+    history.set(
+      applyPreset({ ...INITIAL_CONFIG, annotations: config.annotations, redactions: config.redactions }, preset),
+      'preset'
+    );
+    setIsCropping(false);
+    setIsStraightening(false);
+  };
+
+  const handleExportPresets = async () => {
+    downloadBlob(new Blob([await presets.exportJSON()], { type: 'application/json' }), 'optipic-presets.json');
   };
 
   // --- Crop Logic ---
@@ -230,15 +836,19 @@ export default function App() {
     if (enable) {
       // Entering Crop Mode
       setIsCropping(true);
+      setIsStraightening(false);
+      setEditingProfileId(null);
+      setIsAnnotating(false);
+      setIsRedacting(false);
 
       // If ratio is provided (or we already have one), calculate a new default cropRect if none exists
       const targetRatio = ratio !== undefined ? ratio : config.cropRatio;
 
-      // Calculate dimensions of the intermediate image (Rotated/Flipped)
-      const { width, height } = getTransformedDimensions(
+      // Calculate dimensions of the intermediate image (Rotated/Flipped/Straightened)
+      const { width, height } = getIntermediateDimensions(
         origDimensions.width,
         origDimensions.height,
-        config.rotation
+        config
       );
 
       // If we don't have a rect, or if the user switched ratio, re-calculate center crop
@@ -246,20 +856,10 @@ export default function App() {
         let newRect: CropRect;
 
         if (targetRatio) {
-          // Center Crop based on ratio
-          let w = width;
-          let h = height;
-          if (width / height > targetRatio) {
-            w = height * targetRatio;
-          } else {
-            h = width / targetRatio;
-          }
-          newRect = {
-            x: (width - w) / 2,
-            y: (height - h) / 2,
-            width: w,
-            height: h
-          };
+          // Around the subject once smart crop has found one, centered otherwise
+          newRect = currentSubject
+            ? getSmartCropRect(width, height, targetRatio, currentSubject.box)
+            : getCenteredCropRect(width, height, targetRatio);
         } else {
           // Free crop: Start with 90% size centered
           newRect = {
@@ -269,10 +869,10 @@ export default function App() {
             height: height * 0.9
           };
         }
-        setConfig(prev => ({ ...prev, cropRatio: targetRatio || null, cropRect: newRect }));
+        history.set(prev => ({ ...prev, cropRatio: targetRatio || null, cropRect: newRect }), 'crop');
       } else {
         // Just enable mode with existing rect
-        setConfig(prev => ({ ...prev, cropRatio: targetRatio || null }));
+        history.set(prev => ({ ...prev, cropRatio: targetRatio || null }), 'crop');
       }
 
     } else {
@@ -281,12 +881,204 @@ export default function App() {
     }
   };
 
+  // --- Smart Crop Logic ---
+
+  const handleFindSubject = async () => {
+    if (!originalFile || smartCropStatus === ProcessingStatus.PROCESSING) return;
+    setSmartCropStatus(ProcessingStatus.PROCESSING);
+    const key = subjectKey;
+    const controller = new AbortController();
+    subjectAbortRef.current = controller;
+    try {
+      const box = await detectSubject(originalFile, config, 'subject');
+      // Another image was loaded meanwhile
+      if (controller.signal.aborted) return;
+      let refined: SubjectBox | null = null;
+      let refineFailed = false;
+      // The local result stands if the AI provider fails or sees no clear subject
+      if (refineSubjectWithAI) {
+        try {
+          const { width, height } = getIntermediateDimensions(origDimensions.width, origDimensions.height, config);
+          const input = await processImage(originalFile, getSubjectConfig(config, width, height, AI_SUBJECT_SIZE), 'subject');
+          refined = await ai.provider.detectMainSubject(await readFileAsDataURL(input.blob), input.blob.type, controller.signal);
+        } catch (e) {
+          if (isCancelledError(e)) throw e;
+          refineFailed = true;
+        }
+      }
+      setSmartCropSubject({ key, box: refined || box, source: refined ? 'ai' : 'local', refineFailed });
+      setSmartCropStatus(ProcessingStatus.SUCCESS);
+    } catch (e) {
+      if (isCancelledError(e)) return;
+      console.error("Subject detection failed", e);
+      setSmartCropStatus(ProcessingStatus.ERROR);
+    }
+  };
+
+  // Candidates open in crop mode, so the chosen one can still be adjusted
+  const handleApplySmartCrop = (candidate: SmartCropCandidate) => {
+    history.set(prev => ({ ...prev, cropRatio: candidate.ratio, cropRect: candidate.rect }), 'crop');
+    setIsCropping(true);
+    setIsStraightening(false);
+    setEditingProfileId(null);
+    setIsAnnotating(false);
+    setIsRedacting(false);
+  };
+
+  // --- Straighten Logic ---
+
+  const handleToggleStraighten = () => {
+    if (!isStraightening) {
+      setIsCropping(false);
+      setEditingProfileId(null);
+      setIsAnnotating(false);
+      setIsRedacting(false);
+    }
+    setIsStraightening(!isStraightening);
+  };
+
+  // The horizon is drawn on the already-straightened preview, so correct relative to the current angle
+  const handleStraighten = (lineAngle: number) => {
+    const angle = Math.round((config.straighten - lineAngle) * 10) / 10;
+    history.set(prev => ({ ...prev, straighten: Math.max(-45, Math.min(45, angle)) }), 'straighten');
+    setIsStraightening(false);
+  };
+
+  // --- Annotation Logic ---
+
+  const handleToggleAnnotate = () => {
+    if (!isAnnotating) {
+      setIsCropping(false);
+      setIsStraightening(false);
+      setIsRedacting(false);
+      setEditingProfileId(null);
+      // First time on this image: a size that reads well at its resolution
+      if (annotationStyle.size === 0) {
+        setAnnotationStyle(prev => ({ ...prev, size: getDefaultAnnotationSize(origDimensions.width, origDimensions.height) }));
+      }
+    }
+    setSelectedAnnotationId(null);
+    setIsAnnotating(!isAnnotating);
+  };
+
+  // Stable, since the overlay subscribes to window events with them
+  const handleAnnotationsChange = useCallback((annotations: Annotation[]) => {
+    history.setTransient(prev => ({ ...prev, annotations }));
+  }, [history.setTransient]);
+
+  const handleAnnotationsChangeEnd = useCallback(() => {
+    history.commit('annotations');
+  }, [history.commit]);
+
+  const handleUpdateAnnotation = (patch: Partial<Annotation>) => {
+    handleConfigChange({
+      ...config,
+      annotations: config.annotations.map(annotation =>
+        annotation.id === selectedAnnotationId ? { ...annotation, ...patch } : annotation
+      )
+    });
+  };
+
+  const handleDeleteAnnotation = () => {
+    handleConfigChange({ ...config, annotations: config.annotations.filter(annotation => annotation.id !== selectedAnnotationId) });
+    setSelectedAnnotationId(null);
+  };
+
+  const handleClearAnnotations = () => {
+    handleConfigChange({ ...config, annotations: [] });
+    setSelectedAnnotationId(null);
+  };
+
+  // --- Redaction Logic ---
+
+  const handleToggleRedact = () => {
+    if (!isRedacting) {
+      setIsCropping(false);
+      setIsStraightening(false);
+      setIsAnnotating(false);
+      setEditingProfileId(null);
+    }
+    setSelectedRedactionId(null);
+    setIsRedacting(!isRedacting);
+  };
+
+  // The overlay reports finished boxes only, so every change is its own history step
+  const handleRedactionsChange = useCallback((redactions: Redaction[]) => {
+    history.set(prev => ({ ...prev, redactions }), 'redactions');
+  }, [history.set]);
+
+  const handleUpdateRedaction = (patch: Partial<Redaction>) => {
+    handleConfigChange({
+      ...config,
+      redactions: config.redactions.map(redaction =>
+        redaction.id === selectedRedactionId ? { ...redaction, ...patch } : redaction
+      )
+    });
+  };
+
+  const handleDeleteRedaction = () => {
+    handleConfigChange({ ...config, redactions: config.redactions.filter(redaction => redaction.id !== selectedRedactionId) });
+    setSelectedRedactionId(null);
+  };
+
+  const handleClearRedactions = () => {
+    handleConfigChange({ ...config, redactions: [] });
+    setSelectedRedactionId(null);
+  };
+
+  const handleToggleProposal = (id: string) => {
+    setRedactionProposals(prev =>
+      prev.map(proposal => (proposal.id === id ? { ...proposal, accepted: !proposal.accepted } : proposal))
+    );
+  };
+
+  // The confirmation step: only now do detected regions become part of the export
+  const handleApplyProposals = () => {
+    const accepted: Redaction[] = redactionProposals
+      .filter(proposal => proposal.accepted)
+      .map(({ x, y, width, height }) => ({ id: createId(), x, y, width, height, ...redactionStyle }));
+    handleConfigChange({ ...config, redactions: [...config.redactions, ...accepted] });
+    setRedactionProposals([]);
+    setDetectStatus(ProcessingStatus.IDLE);
+  };
+
+  const handleDetectRegions = async () => {
+    if (!originalFile || detectStatus === ProcessingStatus.PROCESSING) return;
+    // Proposals are reviewed on the image
+    if (!isRedacting) handleToggleRedact();
+    setDetectStatus(ProcessingStatus.PROCESSING);
+    setRedactionProposals([]);
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
+    try {
+      const { width, height } = origDimensions;
+      const input = await processImage(originalFile, getDetectionConfig(config, width, height), 'detect');
+      const base64 = await readFileAsDataURL(input.blob);
+      const regions = await ai.provider.detectSensitiveRegions(base64, input.blob.type, controller.signal);
+      setRedactionProposals(regions.map(region => ({
+        id: createId(),
+        label: region.label,
+        accepted: true,
+        ...toSourceRegion(region, width, height)
+      })));
+      setDetectStatus(ProcessingStatus.SUCCESS);
+    } catch (e) {
+      if (isCancelledError(e)) return;
+      console.error("Redaction detection failed", e);
+      setDetectError(getAIErrorKind(e));
+      setDetectStatus(ProcessingStatus.ERROR);
+    }
+  };
+
   // --- Pan & Zoom Handlers ---
 
+  // Side by side shows the view twice, each in half of the stage
+  const getViewportWidth = (stageWidth: number) => (isSideBySide ? stageWidth / 2 : stageWidth);
+
   const resetView = () => {
     if (intermediateImage && containerRef.current) {
-      const { width, height } = getTransformedDimensions(origDimensions.width, origDimensions.height, config.rotation);
-      const cw = containerRef.current.clientWidth;
+      const { width, height } = getIntermediateDimensions(origDimensions.width, origDimensions.height, config);
+      const cw = getViewportWidth(containerRef.current.clientWidth);
       const ch = containerRef.current.clientHeight;
       const padding = 40;
 
@@ -310,7 +1102,9 @@ export default function App() {
 
     // Calculate mouse position relative to the container
     const rect = containerRef.current.getBoundingClientRect();
-    const mouseX = e.clientX - rect.left;
+    const viewportWidth = getViewportWidth(rect.width);
+    // Relative to the pane under the cursor
+    const mouseX = (e.clientX - rect.left) % viewportWidth;
     const mouseY = e.clientY - rect.top;
 
     const contentX = (mouseX - viewTransform.x) / currentScale;
@@ -389,7 +1183,7 @@ export default function App() {
   const zoomIn = () => {
     if (!containerRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
-    const centerX = rect.width / 2;
+    const centerX = getViewportWidth(rect.width) / 2;
     const centerY = rect.height / 2;
 
     const currentScale = viewTransform.scale;
@@ -407,7 +1201,7 @@ export default function App() {
   const zoomOut = () => {
     if (!containerRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
-    const centerX = rect.width / 2;
+    const centerX = getViewportWidth(rect.width) / 2;
     const centerY = rect.height / 2;
 
     const currentScale = viewTransform.scale;
@@ -423,7 +1217,24 @@ export default function App() {
   };
 
   // Calculate dimensions for CropOverlay
-  const transformedDims = getTransformedDimensions(origDimensions.width, origDimensions.height, config.rotation);
+  const transformedDims = getIntermediateDimensions(origDimensions.width, origDimensions.height, config);
+  const editingVariant = profileVariants.find(variant => variant.profileId === editingProfileId) || null;
+  const editingProfile = editingVariant ? getExportProfile(editingVariant.profileId) : null;
+  const canCompare = !!processedImage && !!processResult && !isCropping && !isStraightening && !editingVariant && !isAnnotating && !isRedacting;
+  const isComparing = canCompare && compareMode !== 'off';
+  const isSideBySide = isComparing && compareMode === 'side';
+  const smartCropCandidates: SmartCropCandidate[] = currentSubject
+    ? SMART_CROP_RATIOS.map(({ key, value }) => ({
+      key,
+      ratio: value,
+      rect: getSmartCropRect(transformedDims.width, transformedDims.height, value, currentSubject.box)
+    }))
+    : [];
+
+  // Profile crops refer to the intermediate image, so a new rotation/straighten or image recenters them
+  useEffect(() => {
+    setProfileVariants(prev => prev.map(variant => (variant.cropRect ? { ...variant, cropRect: null } : variant)));
+  }, [transformedDims.width, transformedDims.height]);
 
   return (
     <div
@@ -460,7 +1271,7 @@ export default function App() {
 
           <label className="cursor-pointer bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 md:px-4 md:py-2 rounded transition-colors border border-gray-600 text-xs md:text-sm font-medium whitespace-nowrap">
             {t.upload}
-            <input type="file" accept="image/*" className="hidden" onChange={handleFileUpload} />
+            <input type="file" accept={IMAGE_FILE_ACCEPT} multiple className="hidden" onChange={handleFileUpload} />
           </label>
           {processedImage && (
             <button
@@ -469,7 +1280,22 @@ export default function App() {
             >
               <span className="hidden xs:inline">{t.download}</span>
               <span className="xs:hidden">SAVE</span>
-              <span className="opacity-70 font-normal text-[10px] hidden md:inline">({formatFileSize(processedSize)})</span>
+              <span className="opacity-70 font-normal text-[10px] hidden md:inline">({formatFileSize(processResult?.blob.size ?? 0)})</span>
+              {qualityMetrics && (
+                <span className="opacity-70 font-normal text-[10px] hidden lg:inline">
+                  PSNR {formatPsnr(qualityMetrics.psnr)} · SSIM {formatSsim(qualityMetrics.ssim)}
+                </span>
+              )}
+            </button>
+          )}
+          {processedImage && (
+            <button
+              onClick={downloadImageZip}
+              disabled={isZipping}
+              title={t.downloadZipHint}
+              className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 md:px-4 md:py-2 rounded transition-colors border border-gray-600 text-xs md:text-sm font-medium whitespace-nowrap disabled:opacity-50"
+            >
+              ZIP
             </button>
           )}
         </div>
@@ -498,25 +1324,221 @@ export default function App() {
             */}
             <div className="w-full md:w-80 lg:w-96 h-[40vh] md:h-auto bg-surface/50 border-t md:border-t-0 md:border-r border-gray-700 flex flex-col overflow-hidden shrink-0 z-20">
               <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+                {!isCropping && (
+                  <PresetPanel
+                    presets={presets.presets}
+                    onApply={handleApplyPreset}
+                    onSave={(name) => presets.save(name, config)}
+                    onRemove={presets.remove}
+                    onImport={presets.importJSON}
+                    onExport={handleExportPresets}
+                    t={t}
+                  />
+                )}
+
                 <ControlPanel
                   config={config}
-                  onChange={setConfig}
+                  onChange={handleConfigChange}
                   originalDimensions={origDimensions}
                   onReset={() => {
-                    setConfig(INITIAL_CONFIG);
+                    history.set(INITIAL_CONFIG, 'reset');
                     setIsCropping(false);
+                    setIsStraightening(false);
+                    setIsAnnotating(false);
+                    setSelectedAnnotationId(null);
+                    setIsRedacting(false);
+                    setSelectedRedactionId(null);
+                    setRedactionProposals([]);
                     resetView();
                   }}
                   t={t}
                   isCropping={isCropping}
                   onToggleCrop={handleToggleCrop}
+                  processResult={processResult}
+                  isStraightening={isStraightening}
+                  onToggleStraighten={handleToggleStraighten}
+                />
+
+                <SmartCropPanel
+                  status={smartCropStatus}
+                  onDetect={handleFindSubject}
+                  refine={refineSubjectWithAI}
+                  onRefineChange={setRefineSubjectWithAI}
+                  subjectSource={currentSubject?.source || null}
+                  refineFailed={!!currentSubject?.refineFailed}
+                  candidates={smartCropCandidates}
+                  previewImage={intermediateImage}
+                  imageDimensions={transformedDims}
+                  activeRect={config.cropRect}
+                  onApply={handleApplySmartCrop}
+                  t={t}
+                />
+
+                {!isCropping && (
+                  <MetadataPanel
+                    metadata={sourceMetadata}
+                    policy={config.metadata}
+                    format={config.format}
+                    onChange={(metadata) => handleConfigChange({ ...config, metadata })}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <AnnotationPanel
+                    isAnnotating={isAnnotating}
+                    onToggle={handleToggleAnnotate}
+                    annotations={config.annotations}
+                    style={annotationStyle}
+                    onStyleChange={setAnnotationStyle}
+                    maxSize={Math.max(20, Math.round(Math.min(origDimensions.width, origDimensions.height) / 25))}
+                    selectedId={selectedAnnotationId}
+                    onUpdateSelected={handleUpdateAnnotation}
+                    onDeleteSelected={handleDeleteAnnotation}
+                    onClear={handleClearAnnotations}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <RedactionPanel
+                    isRedacting={isRedacting}
+                    onToggle={handleToggleRedact}
+                    redactions={config.redactions}
+                    style={redactionStyle}
+                    onStyleChange={setRedactionStyle}
+                    selectedId={selectedRedactionId}
+                    onUpdateSelected={handleUpdateRedaction}
+                    onDeleteSelected={handleDeleteRedaction}
+                    onClear={handleClearRedactions}
+                    proposals={redactionProposals}
+                    onToggleProposal={handleToggleProposal}
+                    onApplyProposals={handleApplyProposals}
+                    onDiscardProposals={() => {
+                      setRedactionProposals([]);
+                      setDetectStatus(ProcessingStatus.IDLE);
+                    }}
+                    detectStatus={detectStatus}
+                    detectError={detectError}
+                    onDetect={handleDetectRegions}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <WatermarkPanel
+                    watermark={config.watermark}
+                    onChange={(watermark) => handleConfigChange({ ...config, watermark })}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <QualityPanel
+                    metrics={qualityMetrics}
+                    curve={qualityCurve && isCurveCurrent(qualityCurve.config, config) ? qualityCurve.points : null}
+                    isPlotting={isPlotting}
+                    isLossy={isLossyFormat(config.format)}
+                    quality={config.quality}
+                    onPlot={handlePlotCurve}
+                    onSelectQuality={(quality) => handleConfigChange({ ...config, quality })}
+                    t={t}
+                  />
+                )}
+
+                <HistoryPanel
+                  entries={history.entries}
+                  index={history.index}
+                  canUndo={history.canUndo}
+                  canRedo={history.canRedo}
+                  onUndo={history.undo}
+                  onRedo={history.redo}
+                  onJump={history.jump}
+                  t={t}
                 />
 
+                {!isCropping && batchItems.length > 0 && (
+                  <BatchQueue
+                    items={batchItems}
+                    isRunning={isBatchRunning}
+                    onProcessAll={handleProcessBatch}
+                    onDownloadAll={handleDownloadBatch}
+                    onDownloadZip={handleDownloadBatchZip}
+                    isZipping={isZipping}
+                    onRemove={(id) => setBatchItems(prev => prev.filter(item => item.id !== id))}
+                    onClear={() => setBatchItems([])}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <ProfilePanel
+                    variants={profileVariants}
+                    editingProfileId={editingProfileId}
+                    isRunning={isProfilesRunning}
+                    isZipping={isZipping}
+                    onToggle={handleToggleProfile}
+                    onEditCrop={handleEditProfileCrop}
+                    onGenerate={handleGenerateProfiles}
+                    onDownload={handleDownloadProfile}
+                    onDownloadZip={handleDownloadProfilesZip}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <ResponsivePanel
+                    settings={responsiveSettings}
+                    onSettingsChange={setResponsiveSettings}
+                    files={responsiveFiles}
+                    markup={pictureMarkup}
+                    skippedFormats={responsiveSkipped}
+                    progress={responsiveProgress}
+                    isZipping={isZipping}
+                    onGenerate={handleGenerateResponsive}
+                    onDownloadZip={handleDownloadResponsiveZip}
+                    t={t}
+                  />
+                )}
+
                 {!isCropping && (
                   <AIInsights
-                    onAnalyze={handleAIAnalysis}
+                    onAnalyze={() => handleAIAnalysis()}
+                    onForceRefresh={() => handleAIAnalysis(true)}
+                    onCancel={handleCancelAnalysis}
                     status={aiStatus}
+                    error={aiError}
                     result={aiResult}
+                    cachedAt={aiRecord?.cached ? aiRecord.record.createdAt : null}
+                    onResultChange={handleAIResultChange}
+                    history={analysisHistory}
+                    activeRecordId={aiRecord?.record.id ?? null}
+                    onRestore={handleRestoreAnalysis}
+                    onDeleteRecord={handleDeleteAnalysis}
+                    downloadName={getDownloadName()}
+                    canAnalyze={isTemplateUsable(analysisTemplates.selected)}
+                    providerLabel={ai.provider.label}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <AnalysisTemplatePanel
+                    templates={analysisTemplates.templates}
+                    selected={analysisTemplates.selected}
+                    onSelect={analysisTemplates.select}
+                    onCreate={analysisTemplates.create}
+                    onDuplicate={analysisTemplates.duplicate}
+                    onUpdate={analysisTemplates.update}
+                    onRemove={analysisTemplates.remove}
+                    t={t}
+                  />
+                )}
+
+                {!isCropping && (
+                  <AISettingsPanel
+                    settings={ai.settings}
+                    onChange={ai.setSettings}
                     t={t}
                   />
                 )}
@@ -556,53 +1578,145 @@ export default function App() {
                 </div>
               )}
 
-              <div
-                style={{
-                  transform: `translate(${viewTransform.x}px, ${viewTransform.y}px) scale(${viewTransform.scale})`,
-                  transition: isDragging ? 'none' : 'transform 0.1s ease-out',
-                  transformOrigin: 'top left',
-                  position: 'absolute',
-                  top: 0,
-                  left: 0,
-                }}
-                className="will-change-transform"
-              >
-                {/* 
-                      DISPLAY LOGIC:
-                      If isCropping: Show Intermediate Image (Rotated/Flipped) + Crop Overlay
-                      Else: Show Final Processed Image 
-                  */}
-
-                {isCropping && intermediateImage ? (
-                  <div className="relative">
-                    <img
-                      src={intermediateImage}
-                      alt="Crop Preview"
-                      className="max-w-none shadow-2xl border border-gray-800/50 rounded-sm pointer-events-none select-none"
-                      draggable={false}
-                    />
-                    {config.cropRect && (
-                      <CropOverlay
-                        rect={config.cropRect}
-                        onChange={(newRect) => setConfig(prev => ({ ...prev, cropRect: newRect }))}
-                        imageDimensions={transformedDims}
-                        viewTransform={viewTransform}
-                        aspectRatio={config.cropRatio}
+              {isComparing && compareMode !== 'off' && processedImage && processResult ? (
+                <CompareView
+                  mode={compareMode}
+                  before={compareImage}
+                  after={processedImage}
+                  difference={differenceImage}
+                  size={{ width: processResult.width, height: processResult.height }}
+                  viewTransform={viewTransform}
+                  isDragging={isDragging}
+                  t={t}
+                />
+              ) : (
+                <div
+                  style={{
+                    transform: `translate(${viewTransform.x}px, ${viewTransform.y}px) scale(${viewTransform.scale})`,
+                    transition: isDragging ? 'none' : 'transform 0.1s ease-out',
+                    transformOrigin: 'top left',
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                  }}
+                  className="will-change-transform"
+                >
+                  {/* 
+                        DISPLAY LOGIC:
+                        If isCropping: Show Intermediate Image (Rotated/Flipped) + Crop Overlay
+                        If isStraightening: Show Intermediate Image + Horizon Guide
+                        If isAnnotating: Show Intermediate Image + Annotation Layer
+                        If isRedacting: Show Intermediate Image + Redaction Boxes
+                        Else: Show Final Processed Image 
+                    */}
+
+                  {(isCropping || isStraightening || isAnnotating || isRedacting || editingVariant) && intermediateImage ? (
+                    <div className="relative">
+                      <img
+                        src={intermediateImage}
+                        alt="Crop Preview"
+                        className="max-w-none shadow-2xl border border-gray-800/50 rounded-sm pointer-events-none select-none"
+                        draggable={false}
                       />
-                    )}
-                  </div>
-                ) : (
-                  processedImage && (
-                    <img
-                      src={processedImage}
-                      alt="Preview"
-                      className="max-w-none shadow-2xl border border-gray-800/50 rounded-sm pointer-events-none select-none"
-                      style={{ opacity: isProcessing ? 0.7 : 1 }}
-                      draggable={false}
-                    />
-                  )
-                )}
-              </div>
+                      {isStraightening && (
+                        <CropOverlay
+                          mode="straighten"
+                          rect={null}
+                          onChange={() => {}}
+                          onStraighten={handleStraighten}
+                          imageDimensions={transformedDims}
+                          viewTransform={viewTransform}
+                          aspectRatio={null}
+                        />
+                      )}
+                      {isCropping && config.cropRect && (
+                        <CropOverlay
+                          rect={config.cropRect}
+                          onChange={(newRect) => history.setTransient(prev => ({ ...prev, cropRect: newRect }))}
+                          onChangeEnd={() => history.commit('crop')}
+                          imageDimensions={transformedDims}
+                          viewTransform={viewTransform}
+                          aspectRatio={config.cropRatio}
+                        />
+                      )}
+                      {isAnnotating && (
+                        <AnnotationOverlay
+                          annotations={config.annotations}
+                          onChange={handleAnnotationsChange}
+                          onChangeEnd={handleAnnotationsChangeEnd}
+                          style={annotationStyle}
+                          selectedId={selectedAnnotationId}
+                          onSelect={setSelectedAnnotationId}
+                          defaultText={t.annotationDefaultText}
+                          sourceDimensions={origDimensions}
+                          imageDimensions={transformedDims}
+                          geometry={config}
+                          viewTransform={viewTransform}
+                        />
+                      )}
+                      {isRedacting && (
+                        <RedactionOverlay
+                          redactions={config.redactions}
+                          onChange={handleRedactionsChange}
+                          proposals={redactionProposals}
+                          onToggleProposal={handleToggleProposal}
+                          style={redactionStyle}
+                          selectedId={selectedRedactionId}
+                          onSelect={setSelectedRedactionId}
+                          sourceDimensions={origDimensions}
+                          imageDimensions={transformedDims}
+                          geometry={config}
+                          viewTransform={viewTransform}
+                        />
+                      )}
+                      {editingVariant && editingProfile && (
+                        <CropOverlay
+                          rect={getProfileCropRect(editingVariant)}
+                          onChange={(newRect) => updateProfileVariant(editingVariant.profileId, {
+                            cropRect: newRect,
+                            status: ProcessingStatus.IDLE,
+                            result: null
+                          })}
+                          imageDimensions={transformedDims}
+                          viewTransform={viewTransform}
+                          aspectRatio={editingProfile.width / editingProfile.height}
+                        />
+                      )}
+                    </div>
+                  ) : (
+                    processedImage && (
+                      <img
+                        src={processedImage}
+                        alt="Preview"
+                        className="max-w-none shadow-2xl border border-gray-800/50 rounded-sm pointer-events-none select-none"
+                        style={{ opacity: isProcessing ? 0.7 : 1 }}
+                        draggable={false}
+                      />
+                    )
+                  )}
+                </div>
+              )}
+
+              {/* Compare mode switch */}
+              {canCompare && (
+                <div
+                  className="absolute top-4 right-4 flex bg-gray-800/90 backdrop-blur border border-gray-700 p-1 rounded-full shadow-xl z-30 gap-1"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onTouchStart={(e) => e.stopPropagation()}
+                >
+                  {(['off', 'split', 'side', 'difference'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setCompareMode(mode)}
+                      className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                        compareMode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                      }`}
+                    >
+                      {t.compareModes[mode]}
+                    </button>
+                  ))}
+                </div>
+              )}
 
               {/* Overlay instructions for crop mode */}
               {isCropping && (
@@ -610,6 +1724,26 @@ export default function App() {
                   {t.crop} Mode Active
                 </div>
               )}
+              {editingProfile && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-blue-600 text-white text-xs px-4 py-2 rounded-full shadow-lg pointer-events-none z-40 whitespace-nowrap">
+                  {t.profileCropHint} {t.profiles[editingProfile.id]} ({editingProfile.width} x {editingProfile.height})
+                </div>
+              )}
+              {isStraightening && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-yellow-600 text-white text-xs px-4 py-2 rounded-full shadow-lg pointer-events-none z-40 animate-pulse whitespace-nowrap">
+                  {t.straightenHint}
+                </div>
+              )}
+              {isAnnotating && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-blue-600 text-white text-xs px-4 py-2 rounded-full shadow-lg pointer-events-none z-40 whitespace-nowrap">
+                  {t.annotateModeHint}
+                </div>
+              )}
+              {isRedacting && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-blue-600 text-white text-xs px-4 py-2 rounded-full shadow-lg pointer-events-none z-40 whitespace-nowrap">
+                  {t.redactModeHint}
+                </div>
+              )}
 
               {/* Floating Zoom Controls */}
               <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 flex items-center gap-2 bg-gray-800/90 backdrop-blur border border-gray-700 p-1.5 rounded-full shadow-xl z-30">
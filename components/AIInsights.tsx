@@ -1,16 +1,123 @@
-
-import React from 'react';
-import { AIAnalysisResult, ProcessingStatus } from '../types';
+import React, { useState } from 'react';
+import { AIAnalysis, AIAnalysisResult, AnalysisValue, ProcessingStatus } from '../types';
 import { translations } from '../utils/i18n';
+import { AIErrorKind } from '../services/aiRequest';
+import { getFieldLabel, isBuiltInTemplateId, toFilenameBase } from '../utils/analysisTemplates';
+import { AnalysisRecord } from '../utils/analysisCache';
+import {
+  formatAnalysisHTML, formatAnalysisJSON, formatAnalysisMarkdown, formatAnalysisValue
+} from '../utils/analysisFormat';
 
 interface AIInsightsProps {
-  onAnalyze: () => void;
+  onAnalyze: () => void; // Reuses a cached analysis when there is one
+  onForceRefresh: () => void; // Always asks the provider
+  onCancel: () => void;
   status: ProcessingStatus;
-  result: AIAnalysisResult | null;
+  error: AIErrorKind | null; // Why the last analysis failed
+  result: AIAnalysis | null;
+  cachedAt: number | null; // When the shown result was made, if it came from the cache
+  onResultChange: (values: AIAnalysisResult) => void;
+  downloadName: string; // What the image downloads as; the src of copied <img> and Markdown
+  canAnalyze: boolean; // False while the selected template is incomplete
+  history: AnalysisRecord[]; // Past analyses of this image, newest first
+  activeRecordId: string | null;
+  onRestore: (record: AnalysisRecord) => void;
+  onDeleteRecord: (id: string) => void;
+  providerLabel: string; // Model or backend the results come from
   t: typeof translations.en;
 }
 
-const AIInsights: React.FC<AIInsightsProps> = ({ onAnalyze, status, result, t }) => {
+const inputClass = "w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+// Tag chips with a remove button each, plus an input that adds tags on Enter or comma
+const TagEditor: React.FC<{
+  tags: string[];
+  prefix: string;
+  placeholder: string;
+  onChange: (tags: string[]) => void;
+}> = ({ tags, prefix, placeholder, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const commitDraft = () => {
+    const added = draft.split(',').map(tag => tag.trim()).filter(tag => tag && !tags.includes(tag));
+    if (added.length > 0) onChange([...tags, ...added]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 text-xs bg-gray-800 text-blue-300 pl-2 pr-1 py-1 rounded-full border border-gray-700">
+          {prefix}{tag}
+          <button
+            onClick={() => onChange(tags.filter(other => other !== tag))}
+            className="text-gray-500 hover:text-red-400 px-1"
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commitDraft();
+          } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+          }
+        }}
+        onBlur={commitDraft}
+        className="flex-1 min-w-[6rem] bg-transparent text-xs text-gray-300 px-1 py-1 outline-none"
+      />
+    </div>
+  );
+};
+
+const AIInsights: React.FC<AIInsightsProps> = ({
+  onAnalyze,
+  onForceRefresh,
+  onCancel,
+  status,
+  error,
+  result,
+  cachedAt,
+  onResultChange,
+  downloadName,
+  canAnalyze,
+  history,
+  activeRecordId,
+  onRestore,
+  onDeleteRecord,
+  providerLabel,
+  t
+}) => {
+  // Key of the field or format last copied, for the "Copied!" feedback
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(current => current === key ? null : current), 1500);
+    } catch (e) {
+      console.error("Clipboard write failed", e);
+    }
+  };
+
+  const fieldLabel = (key: string) => {
+    const field = result?.fields.find(f => f.key === key);
+    return field && result ? getFieldLabel(field, result.templateId, t.analysisFieldLabels) : key;
+  };
+  const formatLabels = { fieldLabel, yes: t.analysisYes, no: t.analysisNo };
+
+  const setValue = (key: string, value: AnalysisValue) => {
+    if (result) onResultChange({ ...result.values, [key]: value });
+  };
+
   return (
     <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col h-full">
       <div className="flex items-center justify-between mb-4">
@@ -20,7 +127,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ onAnalyze, status, result, t })
             {t.aiTitle}
           </h2>
         </div>
-        <span className="text-[10px] px-2 py-0.5 rounded bg-gray-800 text-gray-400 border border-gray-700">Gemini 2.5 Flash</span>
+        <span className="text-[10px] px-2 py-0.5 rounded bg-gray-800 text-gray-400 border border-gray-700">{providerLabel}</span>
       </div>
 
       {status === ProcessingStatus.IDLE && !result && (
@@ -30,7 +137,8 @@ const AIInsights: React.FC<AIInsightsProps> = ({ onAnalyze, status, result, t })
           </p>
           <button
             onClick={onAnalyze}
-            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white px-6 py-2 rounded-full font-medium transition-all shadow-lg shadow-blue-900/20"
+            disabled={!canAnalyze}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white px-6 py-2 rounded-full font-medium transition-all shadow-lg shadow-blue-900/20 disabled:opacity-50"
           >
             {t.analyze}
           </button>
@@ -41,6 +149,12 @@ const AIInsights: React.FC<AIInsightsProps> = ({ onAnalyze, status, result, t })
         <div className="flex-1 flex flex-col items-center justify-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mb-3"></div>
           <p className="text-sm text-blue-300 animate-pulse">{t.analyzing}</p>
+          <button
+            onClick={onCancel}
+            className="mt-3 text-xs text-gray-500 hover:text-gray-300 underline"
+          >
+            {t.cancel}
+          </button>
         </div>
       )}
 
@@ -51,10 +165,12 @@ const AIInsights: React.FC<AIInsightsProps> = ({ onAnalyze, status, result, t })
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
           </div>
-          <p className="text-sm text-red-300 mb-4">{t.error}</p>
+          <p className="text-sm text-red-300 mb-1">{t.error}</p>
+          <p className="text-xs text-gray-400 mb-4">{t.aiErrors[error || 'unknown']}</p>
           <button
             onClick={onAnalyze}
-            className="bg-red-600 hover:bg-red-500 text-white px-4 py-1.5 rounded-full text-sm font-medium transition-colors"
+            disabled={!canAnalyze}
+            className="bg-red-600 hover:bg-red-500 text-white px-4 py-1.5 rounded-full text-sm font-medium transition-colors disabled:opacity-50"
           >
             {t.retry}
           </button>
@@ -63,42 +179,144 @@ const AIInsights: React.FC<AIInsightsProps> = ({ onAnalyze, status, result, t })
 
       {result && (
         <div className="space-y-4 overflow-y-auto custom-scrollbar pr-1">
-          <div className="bg-gray-900/50 p-3 rounded border border-gray-700/50">
-            <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">{t.suggestedTitle}</label>
-            <p className="text-gray-200 font-medium text-sm mt-1">{result.title}</p>
-          </div>
+          {cachedAt !== null && (
+            <p className="text-[10px] text-gray-500">
+              {t.analysisFromCache} {new Date(cachedAt).toLocaleString()}
+            </p>
+          )}
 
-          <div className="bg-gray-900/50 p-3 rounded border border-gray-700/50">
-            <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">{t.filename}</label>
-            <div className="flex items-center gap-2 mt-1">
-              <code className="text-green-400 text-xs bg-green-900/20 px-2 py-1 rounded flex-1 truncate">
-                {result.suggestedFilename}
-              </code>
-            </div>
-          </div>
+          {result.fields.map(field => {
+            const label = getFieldLabel(field, result.templateId, t.analysisFieldLabels);
+            const value = result.values[field.key];
 
-          <div className="bg-gray-900/50 p-3 rounded border border-gray-700/50">
-            <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">{t.altText}</label>
-            <p className="text-gray-400 text-xs mt-1 leading-relaxed">{result.description}</p>
+            return (
+              <div key={field.key} className="bg-gray-900/50 p-3 rounded border border-gray-700/50">
+                <div className="flex justify-between items-center mb-1">
+                  <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">{label}</label>
+                  <button
+                    onClick={() => copy(`field:${field.key}`, formatAnalysisValue(value, formatLabels))}
+                    className="text-[10px] text-gray-500 hover:text-gray-300"
+                  >
+                    {copied === `field:${field.key}` ? t.copied : t.copySnippet}
+                  </button>
+                </div>
+                {Array.isArray(value) ? (
+                  <TagEditor
+                    tags={value}
+                    prefix={field.role === 'tags' ? '#' : ''}
+                    placeholder={t.addTag}
+                    onChange={(tags) => setValue(field.key, tags)}
+                  />
+                ) : typeof value === 'boolean' ? (
+                  <button
+                    onClick={() => setValue(field.key, !value)}
+                    className={`text-xs px-2 py-0.5 rounded ${value ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}
+                  >
+                    {value ? t.analysisYes : t.analysisNo}
+                  </button>
+                ) : typeof value === 'number' ? (
+                  <input
+                    type="number"
+                    value={value}
+                    onChange={(e) => setValue(field.key, parseFloat(e.target.value) || 0)}
+                    className={`${inputClass} text-gray-200`}
+                  />
+                ) : field.role === 'filename' ? (
+                  <input
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(field.key, toFilenameBase(e.target.value))}
+                    spellCheck={false}
+                    className={`${inputClass} text-green-400 bg-green-900/20 font-mono`}
+                  />
+                ) : field.type === 'longText' ? (
+                  <textarea
+                    value={value}
+                    onChange={(e) => setValue(field.key, e.target.value)}
+                    rows={3}
+                    className={`${inputClass} text-gray-400 leading-relaxed resize-y`}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(field.key, e.target.value)}
+                    className={`${inputClass} text-gray-200 font-medium`}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <div className="grid grid-cols-3 gap-2">
+            {[
+              { key: 'html', label: t.copyAsHTML, text: formatAnalysisHTML(result, downloadName) },
+              { key: 'json', label: t.copyAsJSON, text: formatAnalysisJSON(result) },
+              { key: 'markdown', label: t.copyAsMarkdown, text: formatAnalysisMarkdown(result, downloadName, formatLabels) },
+            ].map(format => (
+              <button
+                key={format.key}
+                onClick={() => copy(format.key, format.text)}
+                className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-2 rounded transition-colors text-xs font-medium"
+              >
+                {copied === format.key ? t.copied : format.label}
+              </button>
+            ))}
           </div>
 
-          <div>
-            <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider mb-2 block">{t.tags}</label>
-            <div className="flex flex-wrap gap-2">
-              {result.tags.map(tag => (
-                <span key={tag} className="text-xs bg-gray-800 text-blue-300 px-2 py-1 rounded-full border border-gray-700">
-                  #{tag}
-                </span>
-              ))}
-            </div>
+          <div className="flex justify-center gap-4 mt-4">
+            <button
+              onClick={onAnalyze}
+              disabled={!canAnalyze}
+              className="text-xs text-gray-500 hover:text-gray-300 underline disabled:opacity-50"
+            >
+              {t.regenerate}
+            </button>
+            <button
+              onClick={onForceRefresh}
+              disabled={!canAnalyze}
+              className="text-xs text-gray-500 hover:text-gray-300 underline disabled:opacity-50"
+            >
+              {t.forceRefresh}
+            </button>
           </div>
+        </div>
+      )}
 
-          <button
-            onClick={onAnalyze}
-            className="w-full mt-4 text-xs text-gray-500 hover:text-gray-300 underline"
-          >
-            {t.regenerate}
-          </button>
+      {history.length > 0 && (
+        <div className="border-t border-gray-700 pt-3 mt-4">
+          <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider mb-2 block">
+            {t.analysisHistory} ({history.length})
+          </label>
+          <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+            {history.map(record => (
+              <li key={record.id} className="flex items-center gap-1">
+                <button
+                  onClick={() => onRestore(record)}
+                  className={`flex-1 min-w-0 text-left text-xs px-2 py-1 rounded border transition-colors ${
+                    record.id === activeRecordId
+                      ? 'border-blue-500 bg-blue-600/20 text-white'
+                      : 'border-transparent text-gray-400 hover:bg-gray-800'
+                  }`}
+                >
+                  <span className="block truncate">
+                    {isBuiltInTemplateId(record.analysis.templateId)
+                      ? t.analysisTemplateNames[record.analysis.templateId as keyof typeof t.analysisTemplateNames]
+                      : record.templateName}
+                    {' · '}{record.language.toUpperCase()}{' · '}{record.provider}
+                  </span>
+                  <span className="block text-[10px] text-gray-500">{new Date(record.createdAt).toLocaleString()}</span>
+                </button>
+                <button
+                  onClick={() => onDeleteRecord(record.id)}
+                  title={t.deleteAnalysis}
+                  className="text-gray-500 hover:text-red-400 px-1 text-sm"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
         </div>
       )}
     </div>
@@ -0,0 +1,114 @@
+import React from 'react';
+import { AISettings, AI_PROVIDER_IDS } from '../services/aiProvider';
+import { translations } from '../utils/i18n';
+
+interface AISettingsPanelProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  t: typeof translations.en;
+}
+
+const inputClass = "w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({
+  settings,
+  onChange,
+  t
+}) => {
+  const updateGemini = (patch: Partial<AISettings['gemini']>) =>
+    onChange({ ...settings, gemini: { ...settings.gemini, ...patch } });
+  const updateOpenAI = (patch: Partial<AISettings['openai']>) =>
+    onChange({ ...settings, openai: { ...settings.openai, ...patch } });
+
+  const field = (label: string, input: React.ReactNode) => (
+    <label className="block">
+      <span className="block text-xs text-gray-400 mb-1">{label}</span>
+      {input}
+    </label>
+  );
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <h2 className="text-xl font-bold text-white">{t.aiSettingsTitle}</h2>
+
+      <div className="flex bg-gray-900 rounded p-1 border border-gray-700 gap-1">
+        {AI_PROVIDER_IDS.map(provider => (
+          <button
+            key={provider}
+            onClick={() => onChange({ ...settings, provider })}
+            className={`flex-1 text-xs py-1.5 rounded ${
+              settings.provider === provider ? 'bg-gray-700 text-white font-medium' : 'text-gray-500 hover:text-gray-300'
+            }`}
+          >
+            {t.aiProviders[provider]}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'gemini' && (
+        <div className="space-y-3">
+          {field(t.aiApiKey, (
+            <input
+              type="password"
+              value={settings.gemini.apiKey}
+              placeholder={t.aiApiKeyEnvPlaceholder}
+              onChange={(e) => updateGemini({ apiKey: e.target.value })}
+              autoComplete="off"
+              className={inputClass}
+            />
+          ))}
+          {field(t.aiModel, (
+            <input
+              type="text"
+              value={settings.gemini.model}
+              onChange={(e) => updateGemini({ model: e.target.value })}
+              className={inputClass}
+            />
+          ))}
+        </div>
+      )}
+
+      {settings.provider === 'openai' && (
+        <div className="space-y-3">
+          {field(t.aiBaseUrl, (
+            <input
+              type="url"
+              value={settings.openai.baseUrl}
+              onChange={(e) => updateOpenAI({ baseUrl: e.target.value })}
+              className={inputClass}
+            />
+          ))}
+          {field(t.aiApiKey, (
+            <input
+              type="password"
+              value={settings.openai.apiKey}
+              placeholder={t.aiApiKeyOptional}
+              onChange={(e) => updateOpenAI({ apiKey: e.target.value })}
+              autoComplete="off"
+              className={inputClass}
+            />
+          ))}
+          {field(t.aiModel, (
+            <input
+              type="text"
+              value={settings.openai.model}
+              onChange={(e) => updateOpenAI({ model: e.target.value })}
+              className={inputClass}
+            />
+          ))}
+          <p className="text-xs text-gray-500">{t.aiOpenAIHint}</p>
+        </div>
+      )}
+
+      {settings.provider === 'mock' && (
+        <p className="text-xs text-yellow-500/80">{t.aiMockHint}</p>
+      )}
+
+      {settings.provider !== 'mock' && (
+        <p className="text-xs text-gray-500">{t.aiKeyStorageHint}</p>
+      )}
+    </div>
+  );
+};
+
+export default AISettingsPanel;
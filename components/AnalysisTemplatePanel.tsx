@@ -0,0 +1,207 @@
+import React from 'react';
+import { AnalysisField, AnalysisFieldRole, AnalysisTemplate } from '../types';
+import { translations } from '../utils/i18n';
+import {
+  ANALYSIS_FIELD_ROLES, ANALYSIS_FIELD_TYPES, ROLE_FIELD_TYPES, getFieldLabel, isTemplateUsable, toFieldKey
+} from '../utils/analysisTemplates';
+
+interface AnalysisTemplatePanelProps {
+  templates: AnalysisTemplate[];
+  selected: AnalysisTemplate;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (template: AnalysisTemplate, name: string) => void;
+  onUpdate: (id: string, patch: Partial<Omit<AnalysisTemplate, 'id' | 'builtIn'>>) => void;
+  onRemove: (id: string) => void;
+  t: typeof translations.en;
+}
+
+const inputClass = "w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-white text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+const AnalysisTemplatePanel: React.FC<AnalysisTemplatePanelProps> = ({
+  templates,
+  selected,
+  onSelect,
+  onCreate,
+  onDuplicate,
+  onUpdate,
+  onRemove,
+  t
+}) => {
+  const templateName = (template: AnalysisTemplate) =>
+    template.builtIn ? t.analysisTemplateNames[template.id as keyof typeof t.analysisTemplateNames] : template.name;
+
+  const handleDuplicate = () => {
+    // Copies of built-in templates keep the labels in the current language
+    const fields = selected.fields.map(field => ({ ...field, label: getFieldLabel(field, selected.id, t.analysisFieldLabels) }));
+    onDuplicate({ ...selected, fields }, `${templateName(selected)} ${t.templateCopySuffix}`);
+  };
+
+  const updateField = (index: number, patch: Partial<AnalysisField>) => {
+    const fields = selected.fields.map((field, i) => {
+      if (i !== index) {
+        // A role belongs to one field at a time
+        return patch.role && field.role === patch.role ? { ...field, role: null } : field;
+      }
+      const next = { ...field, ...patch };
+      // Changing the type drops a role the new type can't play
+      return next.role && !ROLE_FIELD_TYPES[next.role].includes(next.type) ? { ...next, role: null } : next;
+    });
+    onUpdate(selected.id, { fields });
+  };
+
+  const addField = () => {
+    const field: AnalysisField = { key: `field${selected.fields.length + 1}`, label: '', type: 'text', description: '', role: null };
+    onUpdate(selected.id, { fields: [...selected.fields, field] });
+  };
+
+  const removeField = (index: number) =>
+    onUpdate(selected.id, { fields: selected.fields.filter((_, i) => i !== index) });
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <h2 className="text-xl font-bold text-white">{t.templateTitle}</h2>
+
+      <select
+        value={selected.id}
+        onChange={(e) => onSelect(e.target.value)}
+        className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 outline-none"
+      >
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>{templateName(template) || t.templateUntitled}</option>
+        ))}
+      </select>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={() => onCreate(t.templateNewName)}
+          className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs font-medium"
+        >
+          {t.templateNew}
+        </button>
+        <button
+          onClick={handleDuplicate}
+          className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs font-medium"
+        >
+          {t.templateDuplicate}
+        </button>
+        <button
+          onClick={() => onRemove(selected.id)}
+          disabled={selected.builtIn}
+          className="bg-gray-800 hover:bg-red-900/60 text-red-300 py-2 px-3 rounded transition-colors text-xs font-medium disabled:opacity-50"
+        >
+          {t.templateDelete}
+        </button>
+      </div>
+
+      {selected.builtIn ? (
+        <>
+          <ul className="text-xs text-gray-400 space-y-1">
+            {selected.fields.map(field => (
+              <li key={field.key} className="flex justify-between gap-2">
+                <span className="truncate">{getFieldLabel(field, selected.id, t.analysisFieldLabels)}</span>
+                <span className="text-gray-600 shrink-0">{t.analysisFieldTypes[field.type]}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500">{t.templateBuiltInHint}</p>
+        </>
+      ) : (
+        <>
+          <label className="block">
+            <span className="block text-xs text-gray-400 mb-1">{t.templateName}</span>
+            <input
+              type="text"
+              value={selected.name}
+              onChange={(e) => onUpdate(selected.id, { name: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-xs text-gray-400 mb-1">{t.templatePrompt}</span>
+            <textarea
+              value={selected.prompt}
+              placeholder={t.templatePromptPlaceholder}
+              onChange={(e) => onUpdate(selected.id, { prompt: e.target.value })}
+              rows={3}
+              className={`${inputClass} resize-y`}
+            />
+          </label>
+
+          <div className="space-y-2">
+            <span className="block text-xs text-gray-400">{t.templateFields}</span>
+            {selected.fields.map((field, index) => (
+              <div key={index} className="bg-gray-900/50 p-2 rounded border border-gray-700/50 space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={field.key}
+                    placeholder={t.templateFieldKey}
+                    onChange={(e) => updateField(index, { key: toFieldKey(e.target.value) })}
+                    className={`${inputClass} font-mono`}
+                  />
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateField(index, { type: e.target.value as AnalysisField['type'] })}
+                    className={inputClass}
+                  >
+                    {ANALYSIS_FIELD_TYPES.map(type => (
+                      <option key={type} value={type}>{t.analysisFieldTypes[type]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => removeField(index)}
+                    title={t.templateRemoveField}
+                    className="text-gray-500 hover:text-red-400 px-1 text-sm"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={field.label}
+                    placeholder={t.templateFieldLabel}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    className={inputClass}
+                  />
+                  <select
+                    value={field.role || ''}
+                    onChange={(e) => updateField(index, { role: (e.target.value || null) as AnalysisFieldRole | null })}
+                    className={inputClass}
+                  >
+                    <option value="">{t.templateNoRole}</option>
+                    {ANALYSIS_FIELD_ROLES.filter(role => ROLE_FIELD_TYPES[role].includes(field.type)).map(role => (
+                      <option key={role} value={role}>{t.analysisFieldRoles[role]}</option>
+                    ))}
+                  </select>
+                </div>
+                <input
+                  type="text"
+                  value={field.description}
+                  placeholder={t.templateFieldDescription}
+                  onChange={(e) => updateField(index, { description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            <button
+              onClick={addField}
+              className="w-full bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors border border-dashed border-gray-600 text-xs font-medium"
+            >
+              {t.templateAddField}
+            </button>
+          </div>
+
+          {!isTemplateUsable(selected) && (
+            <p className="text-xs text-red-400">{t.templateInvalid}</p>
+          )}
+          <p className="text-xs text-gray-500">{t.templateRoleHint}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisTemplatePanel;
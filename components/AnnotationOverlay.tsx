@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Annotation, AnnotationPoint, AnnotationTool, ImageConfig } from '../types';
+import { createId } from '../utils/id';
+import {
+  drawAnnotations, findAnnotationAt, getAnnotationBounds, getSourceTransform, moveAnnotation
+} from '../utils/annotations';
+
+export interface AnnotationStyle {
+  tool: AnnotationTool | 'select';
+  color: string;
+  size: number; // Source pixels
+}
+
+interface AnnotationOverlayProps {
+  annotations: Annotation[];
+  onChange: (annotations: Annotation[]) => void; // Live updates while drawing or dragging
+  onChangeEnd: () => void; // Fired once per finished edit, e.g. to record a history step
+  style: AnnotationStyle;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  defaultText: string; // Initial text of a new callout
+  sourceDimensions: { width: number; height: number }; // Decoded source, the annotations' coordinate space
+  imageDimensions: { width: number; height: number }; // Intermediate image the overlay covers
+  geometry: Pick<ImageConfig, 'rotation' | 'straighten' | 'straightenFill' | 'flipHorizontal' | 'flipVertical'>;
+  viewTransform: { x: number; y: number; scale: number };
+}
+
+const HIT_TOLERANCE = 6; // Screen pixels
+const MIN_SHAPE_SIZE = 4; // Screen pixels; smaller drags are treated as clicks
+
+// Drawing or moving in progress. `base` is the list the edit started from.
+type Gesture =
+  | { type: 'draw'; base: Annotation[]; annotation: Annotation }
+  | { type: 'move'; base: Annotation[]; annotation: Annotation; start: AnnotationPoint; moved: boolean };
+
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
+  annotations,
+  onChange,
+  onChangeEnd,
+  style,
+  selectedId,
+  onSelect,
+  defaultText,
+  sourceDimensions,
+  imageDimensions,
+  geometry,
+  viewTransform
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  const [isActive, setIsActive] = useState(false);
+
+  const transform = useMemo(
+    () => getSourceTransform(sourceDimensions.width, sourceDimensions.height, geometry),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [sourceDimensions.width, sourceDimensions.height, geometry.rotation, geometry.straighten,
+      geometry.straightenFill, geometry.flipHorizontal, geometry.flipVertical]
+  );
+
+  // Same drawing code as the export, so the overlay shows exactly what gets flattened
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawAnnotations(ctx, annotations, transform);
+  }, [annotations, transform, imageDimensions.width, imageDimensions.height]);
+
+  // Screen -> intermediate image coordinates (the layer box is already scaled by the view transform)
+  const toImagePoint = (clientX: number, clientY: number): AnnotationPoint => {
+    const box = layerRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - box.left) / viewTransform.scale,
+      y: (clientY - box.top) / viewTransform.scale
+    };
+  };
+
+  const replace = (list: Annotation[], annotation: Annotation) =>
+    list.map(item => (item.id === annotation.id ? annotation : item));
+
+  const handleStart = (clientX: number, clientY: number) => {
+    const point = toImagePoint(clientX, clientY);
+    const sourcePoint = transform.toSource(point);
+
+    if (style.tool === 'select') {
+      const ctx = canvasRef.current?.getContext('2d');
+      const hit = ctx ? findAnnotationAt(ctx, annotations, transform, point, HIT_TOLERANCE / viewTransform.scale) : null;
+      onSelect(hit ? hit.id : null);
+      if (hit) {
+        gestureRef.current = { type: 'move', base: annotations, annotation: hit, start: sourcePoint, moved: false };
+        setIsActive(true);
+      }
+      return;
+    }
+
+    const annotation: Annotation = {
+      id: createId(),
+      tool: style.tool,
+      points: style.tool === 'marker' ? [sourcePoint] : [sourcePoint, sourcePoint],
+      color: style.color,
+      size: style.size,
+      text: style.tool === 'text' ? defaultText : ''
+    };
+    gestureRef.current = { type: 'draw', base: annotations, annotation };
+    onChange([...annotations, annotation]);
+    setIsActive(true);
+  };
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleMove = (clientX: number, clientY: number) => {
+      const gesture = gestureRef.current;
+      if (!gesture) return;
+      const point = transform.toSource(toImagePoint(clientX, clientY));
+
+      if (gesture.type === 'move') {
+        gesture.moved = true;
+        const moved = moveAnnotation(gesture.annotation, point.x - gesture.start.x, point.y - gesture.start.y);
+        onChange(replace(gesture.base, moved));
+        return;
+      }
+
+      const { annotation } = gesture;
+      if (annotation.tool === 'marker') return;
+      if (annotation.tool === 'pen' || annotation.tool === 'highlighter') {
+        const last = annotation.points[annotation.points.length - 1];
+        // Skip points closer than a screen pixel to keep paths light
+        if (Math.hypot(point.x - last.x, point.y - last.y) * viewTransform.scale < 1) return;
+        gesture.annotation = { ...annotation, points: [...annotation.points, point] };
+      } else {
+        gesture.annotation = { ...annotation, points: [annotation.points[0], point] };
+      }
+      onChange([...gesture.base, gesture.annotation]);
+    };
+
+    const handleWindowMouseMove = (e: MouseEvent) => handleMove(e.clientX, e.clientY);
+    const handleWindowTouchMove = (e: TouchEvent) => {
+      if (e.touches.length === 1) {
+        e.preventDefault();
+        handleMove(e.touches[0].clientX, e.touches[0].clientY);
+      }
+    };
+
+    const handleEnd = () => {
+      const gesture = gestureRef.current;
+      gestureRef.current = null;
+      setIsActive(false);
+      if (!gesture) return;
+      if (gesture.type === 'move') {
+        if (gesture.moved) onChangeEnd();
+        return;
+      }
+
+      const { annotation } = gesture;
+      const [first, last] = [annotation.points[0], annotation.points[annotation.points.length - 1]];
+      const extent = Math.hypot(last.x - first.x, last.y - first.y) * viewTransform.scale;
+      const needsDrag = annotation.tool === 'arrow' || annotation.tool === 'rect' || annotation.tool === 'ellipse';
+      if (needsDrag && extent < MIN_SHAPE_SIZE) {
+        onChange(gesture.base);
+        return;
+      }
+      onChangeEnd();
+      onSelect(annotation.id);
+    };
+
+    window.addEventListener('mousemove', handleWindowMouseMove);
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchmove', handleWindowTouchMove, { passive: false });
+    window.addEventListener('touchend', handleEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleWindowMouseMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchmove', handleWindowTouchMove);
+      window.removeEventListener('touchend', handleEnd);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive, transform, viewTransform, onChange, onChangeEnd, onSelect]);
+
+  // Delete / Backspace removes the selection
+  useEffect(() => {
+    if (!selectedId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      e.preventDefault();
+      onChange(annotations.filter(annotation => annotation.id !== selectedId));
+      onChangeEnd();
+      onSelect(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedId, annotations, onChange, onChangeEnd, onSelect]);
+
+  const selected = annotations.find(annotation => annotation.id === selectedId);
+  const ctx = canvasRef.current?.getContext('2d');
+  const bounds = selected && ctx ? getAnnotationBounds(ctx, selected, transform) : null;
+  const frameWidth = 1 / viewTransform.scale;
+
+  return (
+    <div
+      ref={layerRef}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        cursor: style.tool === 'select' ? 'default' : 'crosshair',
+        touchAction: 'none',
+        zIndex: 10
+      }}
+      onMouseDown={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        handleStart(e.clientX, e.clientY);
+      }}
+      onTouchStart={(e) => {
+        e.stopPropagation();
+        if (e.touches.length === 1) handleStart(e.touches[0].clientX, e.touches[0].clientY);
+      }}
+    >
+      <canvas
+        ref={canvasRef}
+        width={imageDimensions.width}
+        height={imageDimensions.height}
+        style={{ position: 'absolute', left: 0, top: 0, width: '100%', height: '100%', pointerEvents: 'none' }}
+      />
+      {bounds && (
+        <div
+          style={{
+            position: 'absolute',
+            left: bounds.x - 4 * frameWidth,
+            top: bounds.y - 4 * frameWidth,
+            width: bounds.width + 8 * frameWidth,
+            height: bounds.height + 8 * frameWidth,
+            border: `${frameWidth}px dashed #3b82f6`,
+            pointerEvents: 'none'
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Annotation } from '../types';
+import { translations } from '../utils/i18n';
+import { AnnotationStyle } from './AnnotationOverlay';
+
+interface AnnotationPanelProps {
+  isAnnotating: boolean;
+  onToggle: () => void;
+  annotations: Annotation[];
+  style: AnnotationStyle;
+  onStyleChange: (style: AnnotationStyle) => void;
+  maxSize: number;
+  selectedId: string | null;
+  onUpdateSelected: (patch: Partial<Annotation>) => void;
+  onDeleteSelected: () => void;
+  onClear: () => void;
+  t: typeof translations.en;
+}
+
+const TOOLS: AnnotationStyle['tool'][] = ['select', 'arrow', 'rect', 'ellipse', 'pen', 'highlighter', 'text', 'marker'];
+const SWATCHES = ['#ef4444', '#f97316', '#facc15', '#22c55e', '#3b82f6', '#a855f7', '#ffffff', '#000000'];
+
+const AnnotationPanel: React.FC<AnnotationPanelProps> = ({
+  isAnnotating,
+  onToggle,
+  annotations,
+  style,
+  onStyleChange,
+  maxSize,
+  selectedId,
+  onUpdateSelected,
+  onDeleteSelected,
+  onClear,
+  t
+}) => {
+  const selected = annotations.find(annotation => annotation.id === selectedId) || null;
+  // With a selection, colour and size edit it; otherwise they apply to the next object drawn
+  const color = selected ? selected.color : style.color;
+  const size = selected ? selected.size : style.size;
+
+  const setColor = (value: string) => {
+    onStyleChange({ ...style, color: value });
+    if (selected) onUpdateSelected({ color: value });
+  };
+
+  const setSize = (value: number) => {
+    onStyleChange({ ...style, size: value });
+    if (selected) onUpdateSelected({ size: value });
+  };
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">{t.annotateTitle}</h2>
+        <button
+          onClick={onToggle}
+          className={`text-xs py-1.5 px-3 rounded transition-colors font-medium ${
+            isAnnotating ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-800 hover:bg-gray-700 text-white border border-gray-600'
+          }`}
+        >
+          {isAnnotating ? t.annotateDone : t.annotate}
+        </button>
+      </div>
+
+      {!isAnnotating && (
+        <p className="text-xs text-gray-500">
+          {annotations.length > 0 ? `${annotations.length} ${t.annotationObjects}` : t.annotateEmpty}
+        </p>
+      )}
+
+      {isAnnotating && (
+        <>
+          <div className="grid grid-cols-4 gap-1 bg-gray-900 rounded p-1 border border-gray-700">
+            {TOOLS.map(tool => (
+              <button
+                key={tool}
+                onClick={() => onStyleChange({ ...style, tool })}
+                className={`text-[11px] py-1.5 rounded ${
+                  style.tool === tool ? 'bg-gray-700 text-white font-medium' : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {t.annotationTools[tool]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1.5">
+            {SWATCHES.map(swatch => (
+              <button
+                key={swatch}
+                onClick={() => setColor(swatch)}
+                className={`w-6 h-6 rounded-full border-2 ${color === swatch ? 'border-blue-400' : 'border-gray-700'}`}
+                style={{ backgroundColor: swatch }}
+              />
+            ))}
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-7 h-7 bg-transparent border border-gray-700 rounded cursor-pointer ml-auto"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>{t.annotationSize}</span>
+              <span>{size}px</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max={maxSize}
+              step="1"
+              value={size}
+              onChange={(e) => setSize(parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+
+          {selected?.tool === 'text' && (
+            <textarea
+              value={selected.text}
+              onChange={(e) => onUpdateSelected({ text: e.target.value })}
+              rows={2}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onDeleteSelected}
+              disabled={!selected}
+              className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs font-medium disabled:opacity-50"
+            >
+              {t.deleteAnnotation}
+            </button>
+            <button
+              onClick={onClear}
+              disabled={annotations.length === 0}
+              className="bg-gray-800 hover:bg-red-900/60 text-red-300 py-2 px-3 rounded transition-colors text-xs font-medium disabled:opacity-50"
+            >
+              {t.clearAnnotations}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">{t.annotateHint}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationPanel;
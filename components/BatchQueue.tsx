@@ -0,0 +1,115 @@
+import React from 'react';
+import { BatchItem, ProcessingStatus } from '../types';
+import { translations } from '../utils/i18n';
+import { formatFileSize } from '../utils/imageUtils';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onProcessAll: () => void;
+  onDownloadAll: () => void;
+  onDownloadZip: () => void;
+  isZipping: boolean;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  t: typeof translations.en;
+}
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  isRunning,
+  onProcessAll,
+  onDownloadAll,
+  onDownloadZip,
+  isZipping,
+  onRemove,
+  onClear,
+  t
+}) => {
+  const finished = items.filter(item => item.status === ProcessingStatus.SUCCESS || item.status === ProcessingStatus.ERROR).length;
+  const succeeded = items.filter(item => item.status === ProcessingStatus.SUCCESS).length;
+  const progress = items.length ? (finished / items.length) * 100 : 0;
+
+  const statusLabel = (item: BatchItem) => {
+    switch (item.status) {
+      case ProcessingStatus.PROCESSING: return <span className="text-blue-400">{t.processing}</span>;
+      case ProcessingStatus.SUCCESS: return <span className="text-green-400">{t.statusDone} · {formatFileSize(item.size)}</span>;
+      case ProcessingStatus.ERROR: return <span className="text-red-400" title={item.error || undefined}>{t.statusFailed}</span>;
+      default: return <span className="text-gray-500">{t.statusQueued}</span>;
+    }
+  };
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">
+          {t.batchTitle} <span className="text-sm font-normal text-gray-500">({items.length})</span>
+        </h2>
+        <button
+          onClick={onClear}
+          disabled={isRunning}
+          className="text-xs text-red-400 hover:text-red-300 transition-colors disabled:opacity-40"
+        >
+          {t.clearQueue}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">{t.batchHint}</p>
+
+      {/* Overall Progress */}
+      <div>
+        <div className="flex justify-between text-xs text-gray-400 mb-1">
+          <span>{finished} / {items.length}</span>
+          <span>{Math.round(progress)}%</span>
+        </div>
+        <div className="w-full h-2 bg-gray-700 rounded-lg overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      <ul className="space-y-1 max-h-60 overflow-y-auto custom-scrollbar pr-1">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-2 bg-gray-900/50 px-3 py-2 rounded border border-gray-700/50 text-xs">
+            <span className="flex-1 truncate text-gray-300" title={item.file.name}>{item.file.name}</span>
+            <span className="shrink-0">{statusLabel(item)}</span>
+            <button
+              onClick={() => onRemove(item.id)}
+              disabled={isRunning}
+              className="shrink-0 text-gray-500 hover:text-red-400 disabled:opacity-40"
+              title={t.remove}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onProcessAll}
+          disabled={isRunning || items.length === 0}
+          className="bg-blue-600 hover:bg-blue-500 text-white py-2 px-3 rounded transition-colors text-xs sm:text-sm font-medium disabled:opacity-50"
+        >
+          {isRunning ? t.processing : t.processAll}
+        </button>
+        <button
+          onClick={onDownloadAll}
+          disabled={isRunning || succeeded === 0}
+          className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs sm:text-sm font-medium disabled:opacity-50"
+        >
+          {t.downloadAll} ({succeeded})
+        </button>
+        <button
+          onClick={onDownloadZip}
+          disabled={isRunning || isZipping || succeeded === 0}
+          title={t.downloadZipHint}
+          className="col-span-2 bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs sm:text-sm font-medium disabled:opacity-50"
+        >
+          {isZipping ? t.zipping : t.downloadZip}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
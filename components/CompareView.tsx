@@ -0,0 +1,135 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { translations } from '../utils/i18n';
+import { CompareMode } from '../utils/compare';
+
+interface CompareViewProps {
+  mode: CompareMode;
+  before: string | null; // Original rendered like the result; null while it is being prepared
+  after: string;
+  difference: string | null;
+  size: { width: number; height: number }; // Result size; both images are shown at it
+  viewTransform: { scale: number; x: number; y: number };
+  isDragging: boolean;
+  t: typeof translations.en;
+}
+
+const CompareView: React.FC<CompareViewProps> = ({
+  mode,
+  before,
+  after,
+  difference,
+  size,
+  viewTransform,
+  isDragging,
+  t
+}) => {
+  const [split, setSplit] = useState(50); // Percent of the image width shown as "before"
+  const [isSplitting, setIsSplitting] = useState(false);
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  // The handle is tracked on the window so it keeps following a fast drag off the image
+  useEffect(() => {
+    if (!isSplitting) return;
+    const move = (clientX: number) => {
+      if (!boxRef.current) return;
+      const rect = boxRef.current.getBoundingClientRect();
+      setSplit(Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)));
+    };
+    const onMouseMove = (e: MouseEvent) => move(e.clientX);
+    const onTouchMove = (e: TouchEvent) => move(e.touches[0].clientX);
+    const stop = () => setIsSplitting(false);
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('touchmove', onTouchMove);
+    window.addEventListener('mouseup', stop);
+    window.addEventListener('touchend', stop);
+    return () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('touchmove', onTouchMove);
+      window.removeEventListener('mouseup', stop);
+      window.removeEventListener('touchend', stop);
+    };
+  }, [isSplitting]);
+
+  // Same transform as the regular preview, so switching modes keeps the view
+  const layerStyle: React.CSSProperties = {
+    transform: `translate(${viewTransform.x}px, ${viewTransform.y}px) scale(${viewTransform.scale})`,
+    transition: isDragging ? 'none' : 'transform 0.1s ease-out',
+    transformOrigin: 'top left',
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  };
+
+  const imageClass = 'absolute inset-0 w-full h-full max-w-none pointer-events-none select-none';
+  const frameClass = 'relative shadow-2xl border border-gray-800/50 rounded-sm';
+
+  const renderImage = (src: string | null, alt: string, style?: React.CSSProperties) =>
+    src ? (
+      <img src={src} alt={alt} className={imageClass} style={style} draggable={false} />
+    ) : (
+      <div className="absolute inset-0 bg-gray-900/60" />
+    );
+
+  const label = (text: string, position: string) => (
+    <div className={`absolute bottom-4 ${position} bg-black/60 text-white text-xs px-3 py-1 rounded-full pointer-events-none z-40 whitespace-nowrap`}>
+      {text}
+    </div>
+  );
+
+  if (mode === 'side') {
+    return (
+      <>
+        {[{ src: before, text: t.compareOriginal }, { src: after, text: t.compareProcessed }].map((pane, index) => (
+          <div
+            key={index}
+            className={`absolute inset-y-0 w-1/2 overflow-hidden ${index === 0 ? 'left-0 border-r border-gray-600' : 'left-1/2'}`}
+          >
+            <div style={layerStyle} className="will-change-transform">
+              <div className={frameClass} style={size}>
+                {renderImage(pane.src, pane.text)}
+              </div>
+            </div>
+            {label(pane.text, index === 0 ? 'left-4' : 'right-4')}
+          </div>
+        ))}
+      </>
+    );
+  }
+
+  if (mode === 'difference') {
+    return (
+      <>
+        <div style={layerStyle} className="will-change-transform">
+          <div className={frameClass} style={size}>
+            {renderImage(difference, t.compareModes.difference)}
+          </div>
+        </div>
+        {label(difference ? t.differenceHint : t.processing, 'left-4')}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div style={layerStyle} className="will-change-transform">
+        <div ref={boxRef} className={frameClass} style={size}>
+          {renderImage(before, t.compareOriginal)}
+          {renderImage(after, t.compareProcessed, { clipPath: `inset(0 0 0 ${split}%)` })}
+          {/* Handle: stops propagation so dragging it doesn't pan the stage */}
+          <div
+            className="absolute inset-y-0 -ml-3 w-6 cursor-ew-resize flex justify-center z-10"
+            style={{ left: `${split}%` }}
+            onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); setIsSplitting(true); }}
+            onTouchStart={(e) => { e.stopPropagation(); setIsSplitting(true); }}
+          >
+            <div className="h-full bg-white shadow" style={{ width: 2 / viewTransform.scale }} />
+          </div>
+        </div>
+      </div>
+      {label(t.compareOriginal, 'left-4')}
+      {label(t.compareProcessed, 'right-4')}
+    </>
+  );
+};
+
+export default CompareView;
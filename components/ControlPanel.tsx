@@ -1,7 +1,15 @@
 import React from 'react';
-import { ImageConfig, CropRect } from '../types';
+import { ImageConfig, CropRect, ProcessResult } from '../types';
 import { translations } from '../utils/i18n';
-import { getTransformedDimensions } from '../utils/imageUtils';
+import { formatFileSize, getFormatExtension, getIntermediateDimensions } from '../utils/imageUtils';
+import { isLossyFormat } from '../utils/codecs';
+import { ColorAdjustments, NEUTRAL_ADJUSTMENTS, hasColorAdjustments } from '../utils/colorUtils';
+
+// Canvas-native formats first, then the ones encoded by utils/codecs
+const EXPORT_FORMATS: ImageConfig['format'][] = [
+  'image/jpeg', 'image/png', 'image/webp', 'image/avif',
+  'image/gif', 'image/bmp', 'image/tiff', 'image/x-icon',
+];
 
 interface ControlPanelProps {
   config: ImageConfig;
@@ -11,6 +19,9 @@ interface ControlPanelProps {
   t: typeof translations.en;
   isCropping: boolean;
   onToggleCrop: (enabled: boolean, ratio?: number | null) => void;
+  isStraightening: boolean;
+  onToggleStraighten: () => void;
+  processResult: ProcessResult | null;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -20,13 +31,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onReset,
   t,
   isCropping,
-  onToggleCrop
+  onToggleCrop,
+  isStraightening,
+  onToggleStraighten,
+  processResult
 }) => {
   
   const updateConfig = (key: keyof ImageConfig, value: any) => {
     onChange({ ...config, [key]: value });
   };
 
+  const Adjustments: { key: keyof ColorAdjustments; label: string; min: number; max: number; step: number; unit?: string }[] = [
+    { key: 'exposure', label: t.adjust.exposure, min: -3, max: 3, step: 0.05, unit: ' EV' },
+    { key: 'brightness', label: t.adjust.brightness, min: -100, max: 100, step: 1 },
+    { key: 'contrast', label: t.adjust.contrast, min: -100, max: 100, step: 1 },
+    { key: 'saturation', label: t.adjust.saturation, min: -100, max: 100, step: 1 },
+    { key: 'temperature', label: t.adjust.temperature, min: -100, max: 100, step: 1 },
+    { key: 'tint', label: t.adjust.tint, min: -100, max: 100, step: 1 },
+    { key: 'gamma', label: t.adjust.gamma, min: 0.2, max: 3, step: 0.01 },
+  ];
+
   const AspectRatios = [
     { label: t.ratios.custom, value: -1 }, // Special value for "Custom" but locked to current crop
     { label: t.ratios.square, value: 1 },
@@ -82,6 +106,61 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             {t.flipV}
           </button>
         </div>
+
+        {/* Straighten (fine rotation) */}
+        <div className="space-y-2 pt-1">
+          <div className="flex justify-between items-center text-xs text-gray-400">
+            <span>{t.straighten}</span>
+            <button
+              onClick={() => updateConfig('straighten', 0)}
+              disabled={isCropping}
+              className="font-mono hover:text-white"
+              title={t.reset}
+            >
+              {config.straighten.toFixed(1)}°
+            </button>
+          </div>
+          <input
+            type="range"
+            min="-45"
+            max="45"
+            step="0.1"
+            value={config.straighten}
+            onChange={(e) => updateConfig('straighten', parseFloat(e.target.value))}
+            disabled={isCropping}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+          <div className="flex items-center gap-2">
+            <div className="flex flex-1 bg-gray-900 rounded p-1 border border-gray-700">
+              {(['crop', 'color'] as const).map((fill) => (
+                <button
+                  key={fill}
+                  onClick={() => updateConfig('straightenFill', fill)}
+                  className={`flex-1 text-xs py-1 rounded ${
+                    config.straightenFill === fill ? 'bg-gray-700 text-white font-medium' : 'text-gray-400 hover:text-gray-200'
+                  }`}
+                >
+                  {fill === 'crop' ? t.autoCrop : t.fillCorners}
+                </button>
+              ))}
+            </div>
+            {config.straightenFill === 'color' && (
+              <input
+                type="color"
+                value={config.fillColor}
+                onChange={(e) => updateConfig('fillColor', e.target.value)}
+                className="w-8 h-8 bg-transparent border border-gray-700 rounded cursor-pointer"
+              />
+            )}
+          </div>
+          <button
+            onClick={onToggleStraighten}
+            disabled={isCropping}
+            className={`w-full py-2 px-3 rounded transition-colors text-xs sm:text-sm ${isStraightening ? 'bg-yellow-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}
+          >
+            {isStraightening ? t.cancelHorizon : t.drawHorizon}
+          </button>
+        </div>
       </div>
 
       {/* Cropping */}
@@ -147,15 +226,54 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </div>
       </div>
 
+      {/* Color Adjustments */}
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-semibold text-gray-300 uppercase tracking-wider">{t.adjustments}</label>
+          {hasColorAdjustments(config) && (
+            <button
+              onClick={() => onChange({ ...config, ...NEUTRAL_ADJUSTMENTS })}
+              className="text-xs text-gray-500 hover:text-gray-300"
+            >
+              {t.resetAdjustments}
+            </button>
+          )}
+        </div>
+
+        {Adjustments.map((adj) => (
+          <div key={adj.key}>
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>{adj.label}</span>
+              {/* Double-click the value to reset this slider */}
+              <span
+                className="font-mono cursor-pointer"
+                onDoubleClick={() => updateConfig(adj.key, NEUTRAL_ADJUSTMENTS[adj.key])}
+              >
+                {config[adj.key] > 0 && adj.key !== 'gamma' ? '+' : ''}{config[adj.key]}{adj.unit || ''}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={adj.min}
+              max={adj.max}
+              step={adj.step}
+              value={config[adj.key]}
+              onChange={(e) => updateConfig(adj.key, parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+        ))}
+      </div>
+
       {/* Resizing */}
       <div className="space-y-3">
         <div className="flex justify-between items-center">
           <label className="text-sm font-semibold text-gray-300 uppercase tracking-wider">{t.resize}</label>
           <span className="text-xs text-gray-500">
              {/* Display actual output dimensions based on crop/resize */}
-             {config.targetWidth || (config.cropRect ? Math.round(config.cropRect.width) : getTransformedDimensions(originalDimensions.width, originalDimensions.height, config.rotation).width)} 
+             {config.targetWidth || (config.cropRect ? Math.round(config.cropRect.width) : getIntermediateDimensions(originalDimensions.width, originalDimensions.height, config).width)} 
              x 
-             {config.targetHeight || (config.cropRect ? Math.round(config.cropRect.height) : getTransformedDimensions(originalDimensions.width, originalDimensions.height, config.rotation).height)}
+             {config.targetHeight || (config.cropRect ? Math.round(config.cropRect.height) : getIntermediateDimensions(originalDimensions.width, originalDimensions.height, config).height)}
           </span>
         </div>
         
@@ -184,6 +302,19 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             />
           </div>
         </div>
+
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t.resampling}</label>
+          <select
+            value={config.resampling}
+            onChange={(e) => updateConfig('resampling', e.target.value)}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          >
+            {(Object.keys(t.filters) as (keyof typeof t.filters)[]).map((filter) => (
+              <option key={filter} value={filter}>{t.filters[filter]}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Compression & Format */}
@@ -192,24 +323,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         
         <div>
           <label className="block text-xs text-gray-500 mb-1">{t.format}</label>
-          <div className="flex bg-gray-900 rounded p-1 border border-gray-700">
-            {['image/jpeg', 'image/png', 'image/webp'].map((fmt) => (
+          <div className="grid grid-cols-4 gap-1 bg-gray-900 rounded p-1 border border-gray-700">
+            {EXPORT_FORMATS.map((fmt) => (
               <button
                 key={fmt}
                 onClick={() => updateConfig('format', fmt)}
-                className={`flex-1 text-xs py-1.5 rounded ${
+                className={`text-xs py-1.5 rounded ${
                   config.format === fmt ? 'bg-gray-700 text-white font-medium' : 'text-gray-400 hover:text-gray-200'
                 }`}
               >
-                {fmt.split('/')[1].toUpperCase()}
+                {getFormatExtension(fmt).toUpperCase()}
               </button>
             ))}
           </div>
         </div>
 
-        <div>
+        <div className={isLossyFormat(config.format) ? '' : 'opacity-50'} title={isLossyFormat(config.format) ? undefined : t.losslessFormat}>
           <div className="flex justify-between text-xs text-gray-400 mb-1">
-            <span>{t.quality}</span>
+            <span>{config.targetFileSize > 0 ? t.maxQuality : t.quality}</span>
             <span>{Math.round(config.quality * 100)}%</span>
           </div>
           <input
@@ -219,9 +350,116 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             step="0.05"
             value={config.quality}
             onChange={(e) => updateConfig('quality', parseFloat(e.target.value))}
+            disabled={!isLossyFormat(config.format)}
             className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
           />
         </div>
+
+        {/* Palette (PNG quantization is optional, GIF always has one) */}
+        {(config.format === 'image/png' || config.format === 'image/gif') && (
+          <div className="space-y-2">
+            {config.format === 'image/png' && (
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.paletteColors > 0}
+                  onChange={(e) => updateConfig('paletteColors', e.target.checked ? 256 : 0)}
+                  className="accent-blue-500"
+                />
+                {t.quantizePalette}
+              </label>
+            )}
+
+            {(config.format === 'image/gif' || config.paletteColors > 0) && (
+              <>
+                <div>
+                  <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>{t.paletteColors}</span>
+                    <span>{config.paletteColors || 256}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="2"
+                    max="256"
+                    step="1"
+                    value={config.paletteColors || 256}
+                    onChange={(e) => updateConfig('paletteColors', parseInt(e.target.value))}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={config.dither}
+                    onChange={(e) => updateConfig('dither', e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  {t.dither}
+                </label>
+              </>
+            )}
+
+            {processResult?.nativeSize !== undefined && config.format === 'image/png' && (
+              <p className="text-xs px-3 py-2 rounded border bg-gray-900/50 border-gray-700 text-gray-400">
+                {t.pngSavings}: {formatFileSize(processResult.nativeSize)} → {formatFileSize(processResult.blob.size)}
+                {processResult.nativeSize > 0 && (
+                  <span className={processResult.blob.size < processResult.nativeSize ? 'text-green-400' : 'text-yellow-400'}>
+                    {' '}({processResult.blob.size > processResult.nativeSize ? '+' : ''}{Math.round((processResult.blob.size / processResult.nativeSize - 1) * 100)}%)
+                  </span>
+                )}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Target File Size */}
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.targetFileSize > 0}
+              onChange={(e) => updateConfig('targetFileSize', e.target.checked ? 200 * 1024 : 0)}
+              className="accent-blue-500"
+            />
+            {t.targetSize}
+          </label>
+
+          {config.targetFileSize > 0 && (
+            <>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={Math.round(config.targetFileSize / 1024)}
+                  onChange={(e) => updateConfig('targetFileSize', Math.max(1, parseInt(e.target.value) || 1) * 1024)}
+                  className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                />
+                <span className="text-xs text-gray-500">KB</span>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.allowDownscale}
+                  onChange={(e) => updateConfig('allowDownscale', e.target.checked)}
+                  className="accent-blue-500"
+                />
+                {t.allowDownscale}
+              </label>
+
+              {processResult && (
+                <p className={`text-xs px-3 py-2 rounded border ${
+                  processResult.fitsBudget
+                    ? 'bg-green-900/20 border-green-800/50 text-green-400'
+                    : 'bg-red-900/20 border-red-800/50 text-red-400'
+                }`}>
+                  {processResult.fitsBudget ? t.budgetChosen : t.budgetMissed}: {t.quality} {Math.round(processResult.quality * 100)}%
+                  {' · '}{processResult.width} x {processResult.height}
+                  {processResult.scale < 1 && ` (${Math.round(processResult.scale * 100)}%)`}
+                </p>
+              )}
+            </>
+          )}
+        </div>
       </div>
     </div>
   );
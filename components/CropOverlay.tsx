@@ -3,21 +3,149 @@ import React, { useState, useEffect, useRef } from 'react';
 import { CropRect } from '../types';
 
 interface CropOverlayProps {
-  rect: CropRect;
+  rect: CropRect | null; // Required in crop mode, ignored in straighten mode
   onChange: (rect: CropRect) => void;
+  onChangeEnd?: () => void; // Fired once when a drag finishes, e.g. to record a history step
   imageDimensions: { width: number; height: number }; // Dimensions of the underlying image (unscaled)
   viewTransform: { x: number; y: number; scale: number }; // Visual transform of the container
   aspectRatio: number | null;
+  mode?: 'crop' | 'straighten';
+  onStraighten?: (angle: number) => void; // Angle (degrees) of the drawn horizon line, normalized to -45..45
 }
 
 const HANDLE_SIZE = 12; // Size of resize handles in pixels
+const MIN_LINE_LENGTH = 10; // Shorter horizon lines (in image pixels) are treated as accidental clicks
+
+interface Line {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Angle of a line relative to the nearest axis, so both horizons and verticals can be used as reference
+const getLineAngle = (line: Line) => {
+  const angle = (Math.atan2(line.y2 - line.y1, line.x2 - line.x1) * 180) / Math.PI;
+  return ((angle + 45) % 90 + 90) % 90 - 45;
+};
+
+// Straighten Mode: draw a line along the horizon and report how far it is tilted
+const StraightenGuide: React.FC<{
+  imageDimensions: { width: number; height: number };
+  viewTransform: { x: number; y: number; scale: number };
+  onStraighten?: (angle: number) => void;
+}> = ({ imageDimensions, viewTransform, onStraighten }) => {
+  const [line, setLine] = useState<Line | null>(null);
+  const lineRef = useRef<Line | null>(null); // Mirrors `line` for the window listeners
+  const layerRef = useRef<HTMLDivElement>(null);
+
+  const updateLine = (next: Line | null) => {
+    lineRef.current = next;
+    setLine(next);
+  };
+
+  // Screen -> Image Coordinates (the layer box is already scaled by the view transform)
+  const toImagePoint = (clientX: number, clientY: number) => {
+    const box = layerRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - box.left) / viewTransform.scale,
+      y: (clientY - box.top) / viewTransform.scale
+    };
+  };
+
+  const handleStart = (clientX: number, clientY: number) => {
+    const p = toImagePoint(clientX, clientY);
+    updateLine({ x1: p.x, y1: p.y, x2: p.x, y2: p.y });
+  };
+
+  const isDrawing = line !== null;
+
+  useEffect(() => {
+    if (!isDrawing) return;
+
+    const handleMove = (clientX: number, clientY: number) => {
+      const p = toImagePoint(clientX, clientY);
+      if (lineRef.current) updateLine({ ...lineRef.current, x2: p.x, y2: p.y });
+    };
+
+    const handleWindowMouseMove = (e: MouseEvent) => handleMove(e.clientX, e.clientY);
+    const handleWindowTouchMove = (e: TouchEvent) => {
+      if (e.touches.length === 1) {
+        e.preventDefault();
+        handleMove(e.touches[0].clientX, e.touches[0].clientY);
+      }
+    };
+
+    const handleEnd = () => {
+      const drawn = lineRef.current;
+      if (drawn && Math.hypot(drawn.x2 - drawn.x1, drawn.y2 - drawn.y1) >= MIN_LINE_LENGTH) {
+        onStraighten?.(getLineAngle(drawn));
+      }
+      updateLine(null);
+    };
+
+    window.addEventListener('mousemove', handleWindowMouseMove);
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchmove', handleWindowTouchMove, { passive: false });
+    window.addEventListener('touchend', handleEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleWindowMouseMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchmove', handleWindowTouchMove);
+      window.removeEventListener('touchend', handleEnd);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isDrawing, viewTransform, onStraighten]);
+
+  const strokeWidth = 2 / viewTransform.scale;
+
+  return (
+    <div
+      ref={layerRef}
+      style={{ position: 'absolute', inset: 0, cursor: 'crosshair', touchAction: 'none', zIndex: 10 }}
+      onMouseDown={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        handleStart(e.clientX, e.clientY);
+      }}
+      onTouchStart={(e) => {
+        e.stopPropagation();
+        if (e.touches.length === 1) handleStart(e.touches[0].clientX, e.touches[0].clientY);
+      }}
+    >
+      {line && (
+        <svg
+          width={imageDimensions.width}
+          height={imageDimensions.height}
+          style={{ position: 'absolute', left: 0, top: 0, pointerEvents: 'none', overflow: 'visible' }}
+        >
+          <line
+            x1={line.x1} y1={line.y1} x2={line.x2} y2={line.y2}
+            stroke="#facc15" strokeWidth={strokeWidth} strokeDasharray={`${6 * strokeWidth} ${4 * strokeWidth}`}
+          />
+          <text
+            x={line.x2 + 8 / viewTransform.scale}
+            y={line.y2 - 8 / viewTransform.scale}
+            fill="#facc15"
+            fontSize={14 / viewTransform.scale}
+          >
+            {getLineAngle(line).toFixed(1)}°
+          </text>
+        </svg>
+      )}
+    </div>
+  );
+};
 
 const CropOverlay: React.FC<CropOverlayProps> = ({
   rect,
   onChange,
+  onChangeEnd,
   imageDimensions,
   viewTransform,
-  aspectRatio
+  aspectRatio,
+  mode = 'crop',
+  onStraighten
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [dragType, setDragType] = useState<'move' | 'nw' | 'ne' | 'sw' | 'se' | null>(null);
@@ -51,6 +179,7 @@ const CropOverlay: React.FC<CropOverlayProps> = ({
   };
 
   const handleStart = (clientX: number, clientY: number, type: 'move' | 'nw' | 'ne' | 'sw' | 'se') => {
+    if (!rect) return;
     setIsDragging(true);
     setDragType(type);
     dragStartRef.current = {
@@ -155,6 +284,7 @@ const CropOverlay: React.FC<CropOverlayProps> = ({
     const handleEnd = () => {
       setIsDragging(false);
       setDragType(null);
+      onChangeEnd?.();
     };
 
     if (isDragging) {
@@ -170,7 +300,19 @@ const CropOverlay: React.FC<CropOverlayProps> = ({
       window.removeEventListener('touchmove', handleWindowTouchMove);
       window.removeEventListener('touchend', handleEnd);
     };
-  }, [isDragging, dragType, imageDimensions, viewTransform, aspectRatio, onChange]);
+  }, [isDragging, dragType, imageDimensions, viewTransform, aspectRatio, onChange, onChangeEnd]);
+
+  if (mode === 'straighten') {
+    return (
+      <StraightenGuide
+        imageDimensions={imageDimensions}
+        viewTransform={viewTransform}
+        onStraighten={onStraighten}
+      />
+    );
+  }
+
+  if (!rect) return null;
 
   // Position the Overlay div using Image Coordinates
   const boxStyle: React.CSSProperties = {
@@ -0,0 +1,76 @@
+import React from 'react';
+import { HistoryEntry } from '../hooks/useHistory';
+import { ImageConfig } from '../types';
+import { translations } from '../utils/i18n';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<ImageConfig>[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  t: typeof translations.en;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+  t
+}) => {
+  const labels: Record<string, string> = t.historyLabels;
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">{t.historyTitle}</h2>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={`${t.undo} (Ctrl+Z)`}
+            className="p-1.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-40"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={`${t.redo} (Ctrl+Shift+Z)`}
+            className="p-1.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-40"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10h-10a8 8 0 00-8 8v2M21 10l-6 6m6-6l-6-6" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <ol className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar pr-1">
+        {entries.map((entry, i) => (
+          <li key={i}>
+            <button
+              onClick={() => onJump(i)}
+              className={`w-full text-left text-xs px-3 py-1.5 rounded border transition-colors ${
+                i === index
+                  ? 'bg-blue-600/20 border-blue-500 text-blue-300 font-bold'
+                  : i > index
+                    ? 'border-transparent text-gray-600 hover:text-gray-400'
+                    : 'border-transparent text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              <span className="inline-block w-6 text-gray-600">{i}</span>
+              {labels[entry.label] || entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { ImageConfig, ImageMetadata, MetadataField, MetadataFieldPolicy, MetadataPolicy } from '../types';
+import { translations } from '../utils/i18n';
+import { METADATA_FIELDS, getMetadataFieldValue, supportsMetadataEmbedding } from '../utils/metadata';
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata | null;
+  policy: MetadataPolicy;
+  format: ImageConfig['format'];
+  onChange: (policy: MetadataPolicy) => void;
+  t: typeof translations.en;
+}
+
+const MODES: MetadataFieldPolicy['mode'][] = ['keep', 'strip', 'edit'];
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({
+  metadata,
+  policy,
+  format,
+  onChange,
+  t
+}) => {
+  const updateField = (field: MetadataField, patch: Partial<MetadataFieldPolicy>) => {
+    onChange({ ...policy, [field]: { ...policy[field], ...patch } });
+  };
+
+  const setMode = (field: MetadataField, mode: MetadataFieldPolicy['mode']) => {
+    // Start editing from the source value rather than an empty box
+    const value = mode === 'edit' && !policy[field].value && metadata
+      ? getMetadataFieldValue(metadata, field) || ''
+      : policy[field].value;
+    updateField(field, { mode, value });
+  };
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">{t.metadataTitle}</h2>
+        {metadata && metadata.sources.length > 0 && (
+          <span className="text-[10px] text-gray-500 uppercase tracking-wider">{metadata.sources.join(' · ')}</span>
+        )}
+      </div>
+
+      {metadata && metadata.orientation !== null && metadata.orientation !== 1 && (
+        <p className="text-xs text-blue-300 bg-blue-900/20 border border-blue-800/50 rounded px-3 py-2">
+          {t.orientationApplied} ({metadata.orientation})
+        </p>
+      )}
+
+      {metadata && metadata.sources.length === 0 && (
+        <p className="text-xs text-gray-500">{t.metadataNone}</p>
+      )}
+
+      <div className="space-y-3">
+        {METADATA_FIELDS.map(field => {
+          const source = metadata ? getMetadataFieldValue(metadata, field) : null;
+          const { mode, value } = policy[field];
+          return (
+            <div key={field} className="space-y-1">
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-xs text-gray-400">{t.metadataFields[field]}</span>
+                <div className="flex bg-gray-900 rounded p-0.5 border border-gray-700 shrink-0">
+                  {MODES.map(m => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(field, m)}
+                      className={`text-[10px] px-2 py-0.5 rounded ${
+                        mode === m
+                          ? m === 'strip' ? 'bg-red-900/60 text-red-300 font-medium' : 'bg-gray-700 text-white font-medium'
+                          : 'text-gray-500 hover:text-gray-300'
+                      }`}
+                    >
+                      {t.metadataModes[m]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {mode === 'edit' ? (
+                <input
+                  type="text"
+                  value={value}
+                  placeholder={field === 'gps' ? t.gpsPlaceholder : undefined}
+                  onChange={(e) => updateField(field, { value: e.target.value })}
+                  className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-white text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                />
+              ) : (
+                <p className={`text-xs truncate ${mode === 'strip' ? 'text-gray-600 line-through' : 'text-gray-300'}`} title={source || undefined}>
+                  {source || '—'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {!supportsMetadataEmbedding(format) && (
+        <p className="text-xs text-yellow-400/80">{t.metadataUnsupported}</p>
+      )}
+    </div>
+  );
+};
+
+export default MetadataPanel;
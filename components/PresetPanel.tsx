@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { translations } from '../utils/i18n';
+import { Preset } from '../utils/presets';
+import { getFormatExtension } from '../utils/imageUtils';
+
+interface PresetPanelProps {
+  presets: Preset[];
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => void;
+  onRemove: (id: string) => void;
+  onImport: (text: string) => Promise<number>; // Rejects on invalid files
+  onExport: () => void;
+  t: typeof translations.en;
+}
+
+// One-line summary such as "2048 x 2048 · WEBP 80%"
+const describePreset = (preset: Preset) => {
+  const { targetWidth, targetHeight, format, quality } = preset.config;
+  const size = targetWidth || targetHeight ? `${targetWidth || 'auto'} x ${targetHeight || 'auto'} · ` : '';
+  return `${size}${getFormatExtension(format).toUpperCase()} ${Math.round(quality * 100)}%`;
+};
+
+const PresetPanel: React.FC<PresetPanelProps> = ({
+  presets,
+  onApply,
+  onSave,
+  onRemove,
+  onImport,
+  onExport,
+  t
+}) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+    setMessage(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await onImport(await file.text());
+      setMessage({ ok: true, text: t.presetsImported.replace('{count}', String(count)) });
+    } catch (err) {
+      console.error("Preset import failed", err);
+      setMessage({ ok: false, text: t.presetsImportError });
+    }
+  };
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">{t.presetsTitle}</h2>
+        <div className="flex gap-3 text-xs">
+          <label className="cursor-pointer text-gray-400 hover:text-white transition-colors">
+            {t.importPresets}
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </label>
+          <button
+            onClick={onExport}
+            disabled={presets.length === 0}
+            className="text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+          >
+            {t.exportPresets}
+          </button>
+        </div>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-500">{t.presetsEmpty}</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar pr-1">
+          {presets.map(preset => (
+            <li key={preset.id} className="flex items-center gap-2">
+              <button
+                onClick={() => onApply(preset)}
+                title={t.applyPreset}
+                className="flex-1 min-w-0 text-left bg-gray-900/50 hover:bg-gray-800 px-3 py-2 rounded border border-gray-700/50 transition-colors"
+              >
+                <span className="block text-xs text-gray-200 truncate">{preset.name}</span>
+                <span className="block text-[10px] text-gray-500">{describePreset(preset)}</span>
+              </button>
+              <button
+                onClick={() => onRemove(preset.id)}
+                title={t.remove}
+                className="shrink-0 text-gray-500 hover:text-red-400 text-xs"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t.presetNamePlaceholder}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="shrink-0 bg-blue-600 hover:bg-blue-500 text-white py-2 px-3 rounded transition-colors text-xs font-medium disabled:opacity-50"
+        >
+          {t.savePreset}
+        </button>
+      </form>
+
+      {message && (
+        <p className={`text-xs ${message.ok ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default PresetPanel;
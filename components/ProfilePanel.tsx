@@ -0,0 +1,126 @@
+import React from 'react';
+import { ProcessingStatus } from '../types';
+import { translations } from '../utils/i18n';
+import { formatFileSize } from '../utils/imageUtils';
+import { EXPORT_PROFILES, ProfileId, ProfileVariant, getExportProfile } from '../utils/profiles';
+
+interface ProfilePanelProps {
+  variants: ProfileVariant[];
+  editingProfileId: ProfileId | null;
+  isRunning: boolean;
+  isZipping: boolean;
+  onToggle: (id: ProfileId) => void;
+  onEditCrop: (id: ProfileId) => void;
+  onGenerate: () => void;
+  onDownload: (id: ProfileId) => void;
+  onDownloadZip: () => void;
+  t: typeof translations.en;
+}
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({
+  variants,
+  editingProfileId,
+  isRunning,
+  isZipping,
+  onToggle,
+  onEditCrop,
+  onGenerate,
+  onDownload,
+  onDownloadZip,
+  t
+}) => {
+  const generated = variants.filter(variant => variant.status === ProcessingStatus.SUCCESS).length;
+
+  const statusLabel = (variant: ProfileVariant) => {
+    switch (variant.status) {
+      case ProcessingStatus.PROCESSING: return <span className="text-blue-400">{t.processing}</span>;
+      case ProcessingStatus.SUCCESS: return (
+        <span className={variant.result?.fitsBudget ? 'text-green-400' : 'text-yellow-400'}>
+          {formatFileSize(variant.result?.blob.size || 0)}
+        </span>
+      );
+      case ProcessingStatus.ERROR: return <span className="text-red-400" title={variant.error || undefined}>{t.statusFailed}</span>;
+      default: return <span className="text-gray-500">{t.statusQueued}</span>;
+    }
+  };
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <h2 className="text-xl font-bold text-white">{t.profilesTitle}</h2>
+      <p className="text-xs text-gray-500">{t.profilesHint}</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {EXPORT_PROFILES.map(profile => {
+          const selected = variants.some(variant => variant.profileId === profile.id);
+          return (
+            <button
+              key={profile.id}
+              onClick={() => onToggle(profile.id)}
+              disabled={isRunning}
+              className={`text-left px-2 py-1.5 rounded border transition-colors disabled:opacity-50 ${
+                selected ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-gray-900 border-gray-700 text-gray-400 hover:border-gray-500'
+              }`}
+            >
+              <span className="block text-xs font-medium truncate">{t.profiles[profile.id]}</span>
+              <span className="block text-[10px] opacity-70">{profile.width} x {profile.height}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {variants.length > 0 && (
+        <>
+          <ul className="space-y-1">
+            {variants.map(variant => {
+              const profile = getExportProfile(variant.profileId);
+              const isEditing = editingProfileId === variant.profileId;
+              return (
+                <li key={variant.profileId} className="flex items-center gap-2 bg-gray-900/50 px-3 py-2 rounded border border-gray-700/50 text-xs">
+                  <span className="flex-1 truncate text-gray-300">{t.profiles[profile.id]}</span>
+                  <span className="shrink-0">{statusLabel(variant)}</span>
+                  <button
+                    onClick={() => onEditCrop(variant.profileId)}
+                    disabled={isRunning}
+                    className={`shrink-0 px-2 py-0.5 rounded disabled:opacity-40 ${
+                      isEditing ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    {isEditing ? t.done : t.adjustCrop}
+                  </button>
+                  <button
+                    onClick={() => onDownload(variant.profileId)}
+                    disabled={!variant.result}
+                    title={t.download}
+                    className="shrink-0 text-gray-400 hover:text-white disabled:opacity-30"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5m0 0l5-5m-5 5V4" /></svg>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onGenerate}
+              disabled={isRunning}
+              className="bg-blue-600 hover:bg-blue-500 text-white py-2 px-3 rounded transition-colors text-xs sm:text-sm font-medium disabled:opacity-50"
+            >
+              {isRunning ? t.processing : t.generateProfiles}
+            </button>
+            <button
+              onClick={onDownloadZip}
+              disabled={isRunning || isZipping || generated === 0}
+              title={t.downloadZipHint}
+              className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs sm:text-sm font-medium disabled:opacity-50"
+            >
+              {isZipping ? t.zipping : `${t.downloadZip} (${generated})`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePanel;
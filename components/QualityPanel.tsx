@@ -0,0 +1,134 @@
+import React from 'react';
+import { QualityMetrics, QualityPoint } from '../types';
+import { translations } from '../utils/i18n';
+import { formatFileSize } from '../utils/imageUtils';
+import { findKneePoint, formatPsnr, formatSsim } from '../utils/metrics';
+
+interface QualityPanelProps {
+  metrics: QualityMetrics | null; // Of the current result; null while measuring
+  curve: QualityPoint[] | null; // null until plotted for the current settings
+  isPlotting: boolean;
+  isLossy: boolean; // Lossless formats ignore quality, so there is no curve to plot
+  quality: number;
+  onPlot: () => void;
+  onSelectQuality: (quality: number) => void;
+  t: typeof translations.en;
+}
+
+// Chart area in SVG units
+const WIDTH = 280;
+const HEIGHT = 150;
+const PAD = { top: 10, right: 10, bottom: 20, left: 36 };
+
+const QualityPanel: React.FC<QualityPanelProps> = ({
+  metrics,
+  curve,
+  isPlotting,
+  isLossy,
+  quality,
+  onPlot,
+  onSelectQuality,
+  t
+}) => {
+  const renderChart = (points: QualityPoint[]) => {
+    const sizes = points.map(p => p.size);
+    const ssims = points.map(p => p.ssim);
+    const minSize = Math.min(...sizes);
+    const maxSize = Math.max(...sizes);
+    const minSsim = Math.min(...ssims);
+    const maxSsim = Math.max(...ssims);
+    const x = (size: number) =>
+      PAD.left + (maxSize > minSize ? (size - minSize) / (maxSize - minSize) : 0.5) * (WIDTH - PAD.left - PAD.right);
+    const y = (ssim: number) =>
+      HEIGHT - PAD.bottom - (maxSsim > minSsim ? (ssim - minSsim) / (maxSsim - minSsim) : 0.5) * (HEIGHT - PAD.top - PAD.bottom);
+
+    const knee = findKneePoint(points);
+    // The sampled level closest to the current setting
+    const current = points.reduce((best, p) => (Math.abs(p.quality - quality) < Math.abs(best.quality - quality) ? p : best));
+    const sorted = [...points].sort((a, b) => a.size - b.size);
+
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-gray-900 border border-gray-700 rounded">
+        <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} stroke="#4b5563" />
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={HEIGHT - PAD.bottom} stroke="#4b5563" />
+        <text x={PAD.left - 4} y={PAD.top + 4} textAnchor="end" className="fill-gray-500" fontSize="8">{formatSsim(maxSsim)}</text>
+        <text x={PAD.left - 4} y={HEIGHT - PAD.bottom} textAnchor="end" className="fill-gray-500" fontSize="8">{formatSsim(minSsim)}</text>
+        <text x={PAD.left} y={HEIGHT - 6} className="fill-gray-500" fontSize="8">{formatFileSize(minSize)}</text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500" fontSize="8">{formatFileSize(maxSize)}</text>
+
+        <polyline
+          points={sorted.map(p => `${x(p.size)},${y(p.ssim)}`).join(' ')}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth="1.5"
+        />
+        {points.map(p => (
+          <circle
+            key={p.quality}
+            cx={x(p.size)}
+            cy={y(p.ssim)}
+            r={p === current ? 4.5 : 3}
+            className={`cursor-pointer ${p === current ? 'fill-white' : p === knee ? 'fill-green-400' : 'fill-blue-400 hover:fill-white'}`}
+            onClick={() => onSelectQuality(p.quality)}
+          >
+            <title>
+              {`${t.quality} ${Math.round(p.quality * 100)}% · ${formatFileSize(p.size)} · SSIM ${formatSsim(p.ssim)} · PSNR ${formatPsnr(p.psnr)}`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    );
+  };
+
+  const knee = curve ? findKneePoint(curve) : null;
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <h2 className="text-xl font-bold text-white">{t.qualityTitle}</h2>
+
+      <div className="grid grid-cols-2 gap-2 text-center">
+        <div className="bg-gray-900 border border-gray-700 rounded py-2">
+          <div className="text-[10px] text-gray-500 uppercase">PSNR</div>
+          <div className="text-sm font-mono text-white">{metrics ? formatPsnr(metrics.psnr) : '…'}</div>
+        </div>
+        <div className="bg-gray-900 border border-gray-700 rounded py-2">
+          <div className="text-[10px] text-gray-500 uppercase">SSIM</div>
+          <div className="text-sm font-mono text-white">{metrics ? formatSsim(metrics.ssim) : '…'}</div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">{t.qualityHint}</p>
+
+      {isLossy ? (
+        <>
+          <button
+            onClick={onPlot}
+            disabled={isPlotting}
+            className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors border border-gray-600 text-xs sm:text-sm font-medium disabled:opacity-50"
+          >
+            {isPlotting ? t.processing : t.plotCurve}
+          </button>
+          {curve && (
+            <>
+              {renderChart(curve)}
+              <p className="text-xs text-gray-500">
+                {t.curveHint}
+                {knee && (
+                  <>
+                    {' '}
+                    <button onClick={() => onSelectQuality(knee.quality)} className="text-green-400 hover:text-green-300 underline">
+                      {t.kneePoint}: {Math.round(knee.quality * 100)}%
+                    </button>
+                  </>
+                )}
+              </p>
+            </>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">{t.losslessFormat}</p>
+      )}
+    </div>
+  );
+};
+
+export default QualityPanel;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AnnotationPoint, ImageConfig, Redaction, RedactionStyle } from '../types';
+import { createId } from '../utils/id';
+import { getSourceTransform } from '../utils/annotations';
+import { toIntermediateCorners, toSourceBox } from '../utils/redaction';
+
+// An auto-detected region waiting to be confirmed; the box is in source pixels like a Redaction
+export interface RedactionProposal {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  accepted: boolean;
+}
+
+interface RedactionOverlayProps {
+  redactions: Redaction[];
+  onChange: (redactions: Redaction[]) => void; // Fired once per finished box or move
+  proposals: RedactionProposal[];
+  onToggleProposal: (id: string) => void;
+  style: { style: RedactionStyle; color: string }; // Applied to new boxes
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  sourceDimensions: { width: number; height: number }; // Decoded source, the redactions' coordinate space
+  imageDimensions: { width: number; height: number }; // Intermediate image the overlay covers
+  geometry: Pick<ImageConfig, 'rotation' | 'straighten' | 'straightenFill' | 'flipHorizontal' | 'flipVertical'>;
+  viewTransform: { x: number; y: number; scale: number };
+}
+
+const MIN_BOX_SIZE = 4; // Screen pixels; smaller drags are treated as clicks
+
+type Gesture =
+  | { type: 'draw'; start: AnnotationPoint; redaction: Redaction }
+  | { type: 'move'; start: AnnotationPoint; redaction: Redaction; moved: boolean };
+
+const contains = (box: { x: number; y: number; width: number; height: number }, p: AnnotationPoint) =>
+  p.x >= box.x && p.x <= box.x + box.width && p.y >= box.y && p.y <= box.y + box.height;
+
+const RedactionOverlay: React.FC<RedactionOverlayProps> = ({
+  redactions,
+  onChange,
+  proposals,
+  onToggleProposal,
+  style,
+  selectedId,
+  onSelect,
+  sourceDimensions,
+  imageDimensions,
+  geometry,
+  viewTransform
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  // The list being edited during a gesture; committed with onChange when it ends
+  const [draft, setDraft] = useState<Redaction[] | null>(null);
+
+  const transform = useMemo(
+    () => getSourceTransform(sourceDimensions.width, sourceDimensions.height, geometry),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [sourceDimensions.width, sourceDimensions.height, geometry.rotation, geometry.straighten,
+      geometry.straightenFill, geometry.flipHorizontal, geometry.flipVertical]
+  );
+
+  const toImagePoint = (clientX: number, clientY: number): AnnotationPoint => {
+    const box = layerRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - box.left) / viewTransform.scale,
+      y: (clientY - box.top) / viewTransform.scale
+    };
+  };
+
+  const handleStart = (clientX: number, clientY: number) => {
+    const point = toImagePoint(clientX, clientY);
+    const sourcePoint = transform.toSource(point);
+
+    // Proposals sit on top; a click confirms or rejects them
+    const proposal = [...proposals].reverse().find(item => contains(item, sourcePoint));
+    if (proposal) {
+      onToggleProposal(proposal.id);
+      return;
+    }
+
+    const hit = [...redactions].reverse().find(item => contains(item, sourcePoint));
+    if (hit) {
+      onSelect(hit.id);
+      gestureRef.current = { type: 'move', start: sourcePoint, redaction: hit, moved: false };
+      setDraft(redactions);
+      return;
+    }
+
+    onSelect(null);
+    const redaction: Redaction = {
+      id: createId(),
+      x: sourcePoint.x,
+      y: sourcePoint.y,
+      width: 0,
+      height: 0,
+      style: style.style,
+      color: style.color
+    };
+    gestureRef.current = { type: 'draw', start: point, redaction };
+    setDraft([...redactions, redaction]);
+  };
+
+  const isActive = draft !== null;
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleMove = (clientX: number, clientY: number) => {
+      const gesture = gestureRef.current;
+      if (!gesture) return;
+      const point = toImagePoint(clientX, clientY);
+
+      if (gesture.type === 'move') {
+        const sourcePoint = transform.toSource(point);
+        gesture.moved = true;
+        const moved = {
+          ...gesture.redaction,
+          x: gesture.redaction.x + sourcePoint.x - gesture.start.x,
+          y: gesture.redaction.y + sourcePoint.y - gesture.start.y
+        };
+        setDraft(redactions.map(item => (item.id === moved.id ? moved : item)));
+        return;
+      }
+
+      gesture.redaction = { ...gesture.redaction, ...toSourceBox(transform, gesture.start, point) };
+      setDraft([...redactions, gesture.redaction]);
+    };
+
+    const handleWindowMouseMove = (e: MouseEvent) => handleMove(e.clientX, e.clientY);
+    const handleWindowTouchMove = (e: TouchEvent) => {
+      if (e.touches.length === 1) {
+        e.preventDefault();
+        handleMove(e.touches[0].clientX, e.touches[0].clientY);
+      }
+    };
+
+    const handleEnd = () => {
+      const gesture = gestureRef.current;
+      gestureRef.current = null;
+      const result = draft;
+      setDraft(null);
+      if (!gesture || !result) return;
+      if (gesture.type === 'move') {
+        if (gesture.moved) onChange(result);
+        return;
+      }
+      const { width, height } = gesture.redaction;
+      if (Math.min(width, height) * viewTransform.scale < MIN_BOX_SIZE) return;
+      onChange(result);
+      onSelect(gesture.redaction.id);
+    };
+
+    window.addEventListener('mousemove', handleWindowMouseMove);
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchmove', handleWindowTouchMove, { passive: false });
+    window.addEventListener('touchend', handleEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleWindowMouseMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchmove', handleWindowTouchMove);
+      window.removeEventListener('touchend', handleEnd);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive, draft, redactions, transform, viewTransform, onChange, onSelect]);
+
+  // Delete / Backspace removes the selection
+  useEffect(() => {
+    if (!selectedId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      e.preventDefault();
+      onChange(redactions.filter(redaction => redaction.id !== selectedId));
+      onSelect(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedId, redactions, onChange, onSelect]);
+
+  const toPoints = (box: { x: number; y: number; width: number; height: number }) =>
+    toIntermediateCorners(transform, box).map(p => `${p.x},${p.y}`).join(' ');
+  const strokeWidth = 2 / viewTransform.scale;
+  const fontSize = 12 / viewTransform.scale;
+
+  return (
+    <div
+      ref={layerRef}
+      style={{ position: 'absolute', inset: 0, cursor: 'crosshair', touchAction: 'none', zIndex: 10 }}
+      onMouseDown={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        handleStart(e.clientX, e.clientY);
+      }}
+      onTouchStart={(e) => {
+        e.stopPropagation();
+        if (e.touches.length === 1) handleStart(e.touches[0].clientX, e.touches[0].clientY);
+      }}
+    >
+      <svg
+        width="100%"
+        height="100%"
+        viewBox={`0 0 ${imageDimensions.width} ${imageDimensions.height}`}
+        style={{ position: 'absolute', left: 0, top: 0, pointerEvents: 'none', overflow: 'visible' }}
+      >
+        {/* The image under the overlay already shows committed redactions; boxes being edited are tinted */}
+        {(draft || redactions).map(redaction => (
+          <polygon
+            key={redaction.id}
+            points={toPoints(redaction)}
+            fill={redactions.includes(redaction) ? 'none' : 'rgba(59,130,246,0.25)'}
+            stroke={redaction.id === selectedId ? '#3b82f6' : 'rgba(255,255,255,0.8)'}
+            strokeWidth={strokeWidth}
+            strokeDasharray={redaction.id === selectedId ? `${4 * strokeWidth} ${2 * strokeWidth}` : undefined}
+          />
+        ))}
+        {proposals.map(proposal => {
+          const [corner] = toIntermediateCorners(transform, proposal);
+          return (
+            <g key={proposal.id}>
+              <polygon
+                points={toPoints(proposal)}
+                fill={proposal.accepted ? 'rgba(245,158,11,0.3)' : 'none'}
+                stroke="#f59e0b"
+                strokeWidth={strokeWidth}
+                strokeDasharray={`${4 * strokeWidth} ${2 * strokeWidth}`}
+              />
+              <text
+                x={corner.x}
+                y={corner.y - fontSize / 2}
+                fill="#f59e0b"
+                fontSize={fontSize}
+                fontWeight="bold"
+                style={{ paintOrder: 'stroke', stroke: '#000', strokeWidth: strokeWidth }}
+              >
+                {proposal.accepted ? '✓ ' : ''}{proposal.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default RedactionOverlay;
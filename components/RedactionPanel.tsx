@@ -0,0 +1,179 @@
+import React from 'react';
+import { ProcessingStatus, Redaction, RedactionStyle } from '../types';
+import { translations } from '../utils/i18n';
+import { AIErrorKind } from '../services/aiRequest';
+import { REDACTION_STYLES } from '../utils/redaction';
+import { RedactionProposal } from './RedactionOverlay';
+
+interface RedactionPanelProps {
+  isRedacting: boolean;
+  onToggle: () => void;
+  redactions: Redaction[];
+  style: { style: RedactionStyle; color: string };
+  onStyleChange: (style: { style: RedactionStyle; color: string }) => void;
+  selectedId: string | null;
+  onUpdateSelected: (patch: Partial<Redaction>) => void;
+  onDeleteSelected: () => void;
+  onClear: () => void;
+  proposals: RedactionProposal[];
+  onToggleProposal: (id: string) => void;
+  onApplyProposals: () => void;
+  onDiscardProposals: () => void;
+  detectStatus: ProcessingStatus;
+  detectError: AIErrorKind | null;
+  onDetect: () => void;
+  t: typeof translations.en;
+}
+
+const RedactionPanel: React.FC<RedactionPanelProps> = ({
+  isRedacting,
+  onToggle,
+  redactions,
+  style,
+  onStyleChange,
+  selectedId,
+  onUpdateSelected,
+  onDeleteSelected,
+  onClear,
+  proposals,
+  onToggleProposal,
+  onApplyProposals,
+  onDiscardProposals,
+  detectStatus,
+  detectError,
+  onDetect,
+  t
+}) => {
+  const selected = redactions.find(redaction => redaction.id === selectedId) || null;
+  // With a selection, style and colour edit it; otherwise they apply to the next box drawn
+  const current = selected || style;
+  const acceptedCount = proposals.filter(proposal => proposal.accepted).length;
+  const isDetecting = detectStatus === ProcessingStatus.PROCESSING;
+
+  const update = (patch: Partial<{ style: RedactionStyle; color: string }>) => {
+    onStyleChange({ ...style, ...patch });
+    if (selected) onUpdateSelected(patch);
+  };
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 text-xs py-1.5 rounded ${active ? 'bg-gray-700 text-white font-medium' : 'text-gray-500 hover:text-gray-300'}`;
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">{t.redactTitle}</h2>
+        <button
+          onClick={onToggle}
+          className={`text-xs py-1.5 px-3 rounded transition-colors font-medium ${
+            isRedacting ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-800 hover:bg-gray-700 text-white border border-gray-600'
+          }`}
+        >
+          {isRedacting ? t.redactDone : t.redact}
+        </button>
+      </div>
+
+      {!isRedacting && (
+        <p className="text-xs text-gray-500">
+          {redactions.length > 0 ? `${redactions.length} ${t.redactionRegions}` : t.redactEmpty}
+        </p>
+      )}
+
+      {isRedacting && (
+        <>
+          <div className="flex bg-gray-900 rounded p-1 border border-gray-700 gap-1">
+            {REDACTION_STYLES.map(value => (
+              <button key={value} onClick={() => update({ style: value })} className={segmentClass(current.style === value)}>
+                {t.redactionStyles[value]}
+              </button>
+            ))}
+          </div>
+
+          {current.style === 'fill' && (
+            <div className="flex justify-between items-center text-xs text-gray-400">
+              <span>{t.redactionColor}</span>
+              <input
+                type="color"
+                value={current.color}
+                onChange={(e) => update({ color: e.target.value })}
+                className="w-8 h-8 bg-transparent border border-gray-700 rounded cursor-pointer"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onDeleteSelected}
+              disabled={!selected}
+              className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs font-medium disabled:opacity-50"
+            >
+              {t.deleteRedaction}
+            </button>
+            <button
+              onClick={onClear}
+              disabled={redactions.length === 0}
+              className="bg-gray-800 hover:bg-red-900/60 text-red-300 py-2 px-3 rounded transition-colors text-xs font-medium disabled:opacity-50"
+            >
+              {t.clearRedactions}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">{t.redactHint}</p>
+        </>
+      )}
+
+      <div className="border-t border-gray-700 pt-4 flex flex-col gap-3">
+        <button
+          onClick={onDetect}
+          disabled={isDetecting}
+          className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors border border-gray-600 text-xs font-medium disabled:opacity-50"
+        >
+          {isDetecting ? t.detecting : t.autoDetect}
+        </button>
+
+        {detectStatus === ProcessingStatus.ERROR && (
+          <p className="text-xs text-red-400">{t.detectError} {t.aiErrors[detectError || 'unknown']}</p>
+        )}
+        {detectStatus === ProcessingStatus.SUCCESS && proposals.length === 0 && (
+          <p className="text-xs text-gray-500">{t.detectNothing}</p>
+        )}
+
+        {proposals.length > 0 && (
+          <>
+            <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+              {proposals.map(proposal => (
+                <li key={proposal.id}>
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={proposal.accepted}
+                      onChange={() => onToggleProposal(proposal.id)}
+                      className="accent-amber-500"
+                    />
+                    <span className="truncate">{proposal.label}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-amber-400/80">{t.proposalHint}</p>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={onDiscardProposals}
+                className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs font-medium"
+              >
+                {t.discardProposals}
+              </button>
+              <button
+                onClick={onApplyProposals}
+                disabled={acceptedCount === 0}
+                className="bg-amber-600 hover:bg-amber-500 text-white py-2 px-3 rounded transition-colors text-xs font-medium disabled:opacity-50"
+              >
+                {t.applyProposals} ({acceptedCount})
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPanel;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { ImageConfig } from '../types';
+import { translations } from '../utils/i18n';
+import { formatFileSize, getFormatExtension } from '../utils/imageUtils';
+import { RESPONSIVE_FORMATS, ResponsiveFile, ResponsiveSettings } from '../utils/responsive';
+
+interface ResponsivePanelProps {
+  settings: ResponsiveSettings;
+  onSettingsChange: (settings: ResponsiveSettings) => void;
+  files: ResponsiveFile[];
+  markup: string;
+  skippedFormats: ImageConfig['format'][]; // Formats the browser could not encode
+  progress: { done: number; total: number } | null; // null when not running
+  isZipping: boolean;
+  onGenerate: () => void;
+  onDownloadZip: () => void;
+  t: typeof translations.en;
+}
+
+const ResponsivePanel: React.FC<ResponsivePanelProps> = ({
+  settings,
+  onSettingsChange,
+  files,
+  markup,
+  skippedFormats,
+  progress,
+  isZipping,
+  onGenerate,
+  onDownloadZip,
+  t
+}) => {
+  // Widths are edited as free text and parsed when the field loses focus
+  const [widthsText, setWidthsText] = useState(settings.widths.join(', '));
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setWidthsText(settings.widths.join(', '));
+  }, [settings.widths]);
+
+  const commitWidths = () => {
+    const widths = widthsText
+      .split(/[\s,]+/)
+      .map(value => parseInt(value))
+      .filter(value => value > 0);
+    if (widths.length > 0) {
+      onSettingsChange({ ...settings, widths: Array.from(new Set<number>(widths)).sort((a, b) => a - b) });
+    } else {
+      setWidthsText(settings.widths.join(', '));
+    }
+  };
+
+  const toggleFormat = (format: ImageConfig['format']) => {
+    const formats = settings.formats.includes(format)
+      ? settings.formats.filter(f => f !== format)
+      : [...settings.formats, format];
+    if (formats.length > 0) onSettingsChange({ ...settings, formats });
+  };
+
+  const copyMarkup = async () => {
+    try {
+      await navigator.clipboard.writeText(markup);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Clipboard write failed", e);
+    }
+  };
+
+  const totalBytes = files.reduce((sum, file) => sum + file.blob.size, 0);
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <h2 className="text-xl font-bold text-white">{t.responsiveTitle}</h2>
+      <p className="text-xs text-gray-500">{t.responsiveHint}</p>
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.responsiveWidths}</label>
+        <input
+          type="text"
+          value={widthsText}
+          onChange={(e) => setWidthsText(e.target.value)}
+          onBlur={commitWidths}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitWidths(); }}
+          className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.responsiveFormats}</label>
+        <div className="flex bg-gray-900 rounded p-1 border border-gray-700 gap-1">
+          {RESPONSIVE_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => toggleFormat(format)}
+              className={`flex-1 text-xs py-1.5 rounded ${
+                settings.formats.includes(format) ? 'bg-gray-700 text-white font-medium' : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {getFormatExtension(format).toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.responsiveSizes}</label>
+        <input
+          type="text"
+          value={settings.sizes}
+          onChange={(e) => onSettingsChange({ ...settings, sizes: e.target.value })}
+          className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-xs font-mono focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+      </div>
+
+      <button
+        onClick={onGenerate}
+        disabled={progress !== null}
+        className="bg-blue-600 hover:bg-blue-500 text-white py-2 px-3 rounded transition-colors text-xs sm:text-sm font-medium disabled:opacity-50"
+      >
+        {progress ? `${t.processing} ${progress.done} / ${progress.total}` : t.generateSet}
+      </button>
+
+      {skippedFormats.length > 0 && (
+        <p className="text-xs text-yellow-400/80">
+          {t.responsiveSkipped} {skippedFormats.map(format => getFormatExtension(format).toUpperCase()).join(', ')}
+        </p>
+      )}
+
+      {files.length > 0 && (
+        <>
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>{files.length} {t.responsiveFiles}</span>
+            <span>{formatFileSize(totalBytes)}</span>
+          </div>
+
+          <div className="relative">
+            <pre className="text-[10px] leading-relaxed text-green-300 bg-gray-900 border border-gray-700 rounded p-3 overflow-x-auto custom-scrollbar max-h-48">
+              {markup}
+            </pre>
+            <button
+              onClick={copyMarkup}
+              className="absolute top-2 right-2 text-[10px] px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 border border-gray-600"
+            >
+              {copied ? t.copied : t.copySnippet}
+            </button>
+          </div>
+
+          <button
+            onClick={onDownloadZip}
+            disabled={isZipping || progress !== null}
+            className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors text-xs sm:text-sm font-medium disabled:opacity-50"
+          >
+            {isZipping ? t.zipping : t.downloadZip}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ResponsivePanel;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { CropRect, ProcessingStatus } from '../types';
+import { translations } from '../utils/i18n';
+import { SMART_CROP_RATIOS } from '../utils/smartCrop';
+
+export interface SmartCropCandidate {
+  key: typeof SMART_CROP_RATIOS[number]['key'];
+  ratio: number;
+  rect: CropRect;
+}
+
+interface SmartCropPanelProps {
+  status: ProcessingStatus;
+  onDetect: () => void;
+  refine: boolean;
+  onRefineChange: (refine: boolean) => void;
+  subjectSource: 'local' | 'ai' | null;
+  refineFailed: boolean;
+  candidates: SmartCropCandidate[];
+  previewImage: string | null; // Intermediate image the crop rects refer to
+  imageDimensions: { width: number; height: number };
+  activeRect: CropRect | null;
+  onApply: (candidate: SmartCropCandidate) => void;
+  t: typeof translations.en;
+}
+
+const THUMB_HEIGHT = 56;
+const MAX_THUMB_WIDTH = 100;
+
+const SmartCropPanel: React.FC<SmartCropPanelProps> = ({
+  status,
+  onDetect,
+  refine,
+  onRefineChange,
+  subjectSource,
+  refineFailed,
+  candidates,
+  previewImage,
+  imageDimensions,
+  activeRect,
+  onApply,
+  t
+}) => {
+  const isDetecting = status === ProcessingStatus.PROCESSING;
+
+  const isActive = (rect: CropRect) =>
+    !!activeRect &&
+    Math.abs(activeRect.x - rect.x) < 0.5 && Math.abs(activeRect.y - rect.y) < 0.5 &&
+    Math.abs(activeRect.width - rect.width) < 0.5 && Math.abs(activeRect.height - rect.height) < 0.5;
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">{t.smartCropTitle}</h2>
+        <button
+          onClick={onDetect}
+          disabled={isDetecting}
+          className="text-xs py-1.5 px-3 rounded transition-colors font-medium bg-gray-800 hover:bg-gray-700 text-white border border-gray-600 disabled:opacity-50"
+        >
+          {isDetecting ? t.smartCropFinding : t.smartCropFind}
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={refine}
+          onChange={(e) => onRefineChange(e.target.checked)}
+          className="accent-blue-500"
+        />
+        {t.smartCropRefine}
+      </label>
+
+      {status === ProcessingStatus.ERROR && <p className="text-xs text-red-400">{t.smartCropError}</p>}
+
+      {candidates.length > 0 && previewImage ? (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {candidates.map(candidate => {
+              const { rect } = candidate;
+              // Scale the whole preview so the candidate's rect fills the thumbnail
+              const thumbWidth = Math.min(MAX_THUMB_WIDTH, THUMB_HEIGHT * candidate.ratio);
+              const scale = thumbWidth / rect.width;
+              return (
+                <button
+                  key={candidate.key}
+                  onClick={() => onApply(candidate)}
+                  title={t.ratios[candidate.key]}
+                  className={`flex flex-col items-center gap-1 p-1 rounded border transition-colors ${
+                    isActive(rect) ? 'border-blue-500 bg-blue-600/20' : 'border-gray-700 hover:border-gray-500'
+                  }`}
+                >
+                  <div
+                    className="rounded-sm bg-no-repeat"
+                    style={{
+                      width: thumbWidth,
+                      height: rect.height * scale,
+                      backgroundImage: `url(${previewImage})`,
+                      backgroundSize: `${imageDimensions.width * scale}px ${imageDimensions.height * scale}px`,
+                      backgroundPosition: `${-rect.x * scale}px ${-rect.y * scale}px`
+                    }}
+                  />
+                  <span className="text-[10px] text-gray-400">{t.ratios[candidate.key]}</span>
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500">
+            {subjectSource === 'ai' ? t.smartCropByAI : t.smartCropByLocal}
+            {refineFailed && <span className="text-yellow-500"> {t.smartCropRefineFailed}</span>}
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">{t.smartCropHint}</p>
+      )}
+    </div>
+  );
+};
+
+export default SmartCropPanel;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { WatermarkConfig } from '../types';
+import { translations } from '../utils/i18n';
+import { WATERMARK_ANCHORS, WATERMARK_FONTS, readWatermarkImage } from '../utils/watermark';
+import { loadLogo, storeLogo } from '../utils/logoStore';
+
+interface WatermarkPanelProps {
+  watermark: WatermarkConfig;
+  onChange: (watermark: WatermarkConfig) => void;
+  t: typeof translations.en;
+}
+
+const TYPES: WatermarkConfig['type'][] = ['none', 'text', 'image'];
+const LAYOUTS: WatermarkConfig['layout'][] = ['anchor', 'tile'];
+
+const WatermarkPanel: React.FC<WatermarkPanelProps> = ({
+  watermark,
+  onChange,
+  t
+}) => {
+  const [uploadError, setUploadError] = useState(false);
+  // Thumbnail of the stored logo; stays null when this browser doesn't have it
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLogoUrl(null);
+    if (!watermark.logoId) return;
+    let cancelled = false;
+    let url: string | null = null;
+    loadLogo(watermark.logoId).then(logo => {
+      if (cancelled || !logo) return;
+      url = URL.createObjectURL(logo);
+      setLogoUrl(url);
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [watermark.logoId]);
+
+  const update = (patch: Partial<WatermarkConfig>) => onChange({ ...watermark, ...patch });
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const logoId = await storeLogo(await readWatermarkImage(file));
+      update({ logoId, type: 'image' });
+      setUploadError(false);
+    } catch (err) {
+      console.error("Watermark upload failed", err);
+      setUploadError(true);
+    }
+  };
+
+  const sliders: { key: keyof WatermarkConfig; label: string; min: number; max: number; step: number; unit: string; show: boolean }[] = [
+    { key: 'size', label: t.watermarkSize, min: 1, max: 50, step: 0.5, unit: '%', show: true },
+    { key: 'opacity', label: t.watermarkOpacity, min: 0.05, max: 1, step: 0.05, unit: '', show: true },
+    { key: 'rotation', label: t.watermarkRotation, min: -180, max: 180, step: 1, unit: '°', show: true },
+    { key: 'offsetX', label: t.watermarkOffsetX, min: -50, max: 50, step: 0.5, unit: '%', show: watermark.layout === 'anchor' },
+    { key: 'offsetY', label: t.watermarkOffsetY, min: -50, max: 50, step: 0.5, unit: '%', show: watermark.layout === 'anchor' },
+    { key: 'spacing', label: t.watermarkSpacing, min: 0, max: 50, step: 0.5, unit: '%', show: watermark.layout === 'tile' },
+  ];
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 text-xs py-1.5 rounded ${active ? 'bg-gray-700 text-white font-medium' : 'text-gray-500 hover:text-gray-300'}`;
+
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-gray-700 p-5 flex flex-col gap-4">
+      <h2 className="text-xl font-bold text-white">{t.watermarkTitle}</h2>
+
+      <div className="flex bg-gray-900 rounded p-1 border border-gray-700 gap-1">
+        {TYPES.map(type => (
+          <button key={type} onClick={() => update({ type })} className={segmentClass(watermark.type === type)}>
+            {t.watermarkTypes[type]}
+          </button>
+        ))}
+      </div>
+
+      {watermark.type === 'text' && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={watermark.text}
+            placeholder={t.watermarkTextPlaceholder}
+            onChange={(e) => update({ text: e.target.value })}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+          <div className="flex gap-2 items-center">
+            <select
+              value={watermark.font}
+              onChange={(e) => update({ font: e.target.value })}
+              className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              {WATERMARK_FONTS.map(font => (
+                <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+              ))}
+            </select>
+            <input
+              type="color"
+              value={watermark.color}
+              onChange={(e) => update({ color: e.target.value })}
+              title={t.watermarkColor}
+              className="w-8 h-8 bg-transparent border border-gray-700 rounded cursor-pointer"
+            />
+          </div>
+        </div>
+      )}
+
+      {watermark.type === 'image' && (
+        <div className="flex items-center gap-3">
+          {logoUrl && (
+            <img
+              src={logoUrl}
+              alt={t.watermarkTypes.image}
+              className="h-10 max-w-[6rem] object-contain rounded border border-gray-700 bg-[repeating-conic-gradient(#374151_0%_25%,#1f2937_0%_50%)] bg-[length:12px_12px]"
+            />
+          )}
+          <label className="cursor-pointer bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded transition-colors border border-gray-600 text-xs font-medium">
+            {logoUrl ? t.watermarkReplaceLogo : t.watermarkUploadLogo}
+            <input type="file" accept="image/*" className="hidden" onChange={handleLogoUpload} />
+          </label>
+          {uploadError && <span className="text-xs text-red-400">{t.watermarkUploadError}</span>}
+        </div>
+      )}
+
+      {watermark.type !== 'none' && (
+        <>
+          <div className="flex bg-gray-900 rounded p-1 border border-gray-700 gap-1">
+            {LAYOUTS.map(layout => (
+              <button key={layout} onClick={() => update({ layout })} className={segmentClass(watermark.layout === layout)}>
+                {t.watermarkLayouts[layout]}
+              </button>
+            ))}
+          </div>
+
+          {watermark.layout === 'anchor' && (
+            <div className="grid grid-cols-3 gap-1 w-24 self-center">
+              {WATERMARK_ANCHORS.map(anchor => (
+                <button
+                  key={anchor}
+                  onClick={() => update({ anchor })}
+                  title={anchor}
+                  className={`h-6 rounded border ${
+                    watermark.anchor === anchor ? 'bg-blue-600 border-blue-500' : 'bg-gray-900 border-gray-700 hover:bg-gray-700'
+                  }`}
+                />
+              ))}
+            </div>
+          )}
+
+          {sliders.filter(slider => slider.show).map(({ key, label, min, max, step, unit }) => (
+            <div key={key}>
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>{label}</span>
+                <span>
+                  {key === 'opacity' ? `${Math.round(watermark.opacity * 100)}%` : `${watermark[key]}${unit}`}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={watermark[key] as number}
+                onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">{t.watermarkHint}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WatermarkPanel;
@@ -0,0 +1,15 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AISettings, createAIProvider, loadStoredAISettings, storeAISettings } from '../services/aiProvider';
+
+// The chosen AI backend and its settings, persisted to localStorage on every change
+export const useAISettings = () => {
+  const [settings, setSettings] = useState<AISettings>(loadStoredAISettings);
+
+  useEffect(() => {
+    storeAISettings(settings);
+  }, [settings]);
+
+  const provider = useMemo(() => createAIProvider(settings), [settings]);
+
+  return { settings, setSettings, provider };
+};
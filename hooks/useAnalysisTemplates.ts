@@ -0,0 +1,48 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AnalysisTemplate } from '../types';
+import {
+  BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, createTemplate, duplicateTemplate, loadStoredTemplates, storeTemplates
+} from '../utils/analysisTemplates';
+
+// Built-in and custom AI analysis templates plus the selected one, persisted to localStorage on every change
+export const useAnalysisTemplates = () => {
+  const [stored, setStored] = useState(loadStoredTemplates);
+
+  useEffect(() => {
+    storeTemplates(stored);
+  }, [stored]);
+
+  const templates = [...BUILT_IN_TEMPLATES, ...stored.templates];
+  const selected = templates.find(template => template.id === stored.selectedId) || BUILT_IN_TEMPLATES[0];
+
+  const select = useCallback((id: string) => {
+    setStored(prev => ({ ...prev, selectedId: id }));
+  }, []);
+
+  // New and duplicated templates are selected right away, so they can be edited
+  const add = useCallback((template: AnalysisTemplate) => {
+    setStored(prev => ({ selectedId: template.id, templates: [...prev.templates, template] }));
+  }, []);
+
+  const create = useCallback((name: string) => add(createTemplate(name)), [add]);
+
+  const duplicate = useCallback((template: AnalysisTemplate, name: string) =>
+    add(duplicateTemplate(template, name)), [add]);
+
+  // Built-in templates aren't in `stored`, so they can't be changed or removed
+  const update = useCallback((id: string, patch: Partial<Omit<AnalysisTemplate, 'id' | 'builtIn'>>) => {
+    setStored(prev => ({
+      ...prev,
+      templates: prev.templates.map(template => template.id === id ? { ...template, ...patch } : template)
+    }));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setStored(prev => ({
+      selectedId: prev.selectedId === id ? DEFAULT_TEMPLATE_ID : prev.selectedId,
+      templates: prev.templates.filter(template => template.id !== id)
+    }));
+  }, []);
+
+  return { templates, selected, select, create, duplicate, update, remove };
+};
@@ -0,0 +1,111 @@
+import { useState, useCallback, useRef } from 'react';
+
+export interface HistoryEntry<T> {
+  state: T;
+  label: string; // Translation key (or raw text) describing the step
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number; // Entry the present state was last committed from
+  present: T; // May run ahead of entries[index] during transient updates (e.g. a crop drag)
+}
+
+const MAX_ENTRIES = 100;
+const COALESCE_MS = 800;
+
+type Updater<T> = T | ((prev: T) => T);
+
+const resolve = <T>(next: Updater<T>, prev: T): T =>
+  typeof next === 'function' ? (next as (prev: T) => T)(prev) : next;
+
+// Treat objects with identical top-level values as the same state, so no-op updates don't add steps
+const isShallowEqual = <T>(a: T, b: T): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keysA = Object.keys(a) as (keyof T)[];
+  return keysA.length === Object.keys(b).length && keysA.every(key => a[key] === b[key]);
+};
+
+const pushEntry = <T>(prev: HistoryState<T>, state: T, label: string, replaceTop: boolean): HistoryState<T> => {
+  const entries = prev.entries.slice(0, prev.index + 1);
+  if (replaceTop) {
+    entries[entries.length - 1] = { state, label };
+  } else {
+    entries.push({ state, label });
+  }
+  const trimmed = entries.slice(-MAX_ENTRIES);
+  return { entries: trimmed, index: trimmed.length - 1, present: state };
+};
+
+export const useHistory = <T>(initial: T, initialLabel = 'initial') => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    entries: [{ state: initial, label: initialLabel }],
+    index: 0,
+    present: initial
+  });
+  const lastCommitAtRef = useRef(0);
+
+  // Record a new step. With `coalesce`, repeated changes of the same kind in quick
+  // succession (slider drags, typing) collapse into a single entry.
+  const set = useCallback((next: Updater<T>, label: string, coalesce = false) => {
+    const now = Date.now();
+    const canMerge = coalesce && now - lastCommitAtRef.current < COALESCE_MS;
+    lastCommitAtRef.current = now;
+    setHistory(prev => {
+      const state = resolve(next, prev.present);
+      if (isShallowEqual(state, prev.present)) return prev;
+      const top = prev.entries[prev.index];
+      const replaceTop = canMerge && prev.index > 0 && prev.index === prev.entries.length - 1 && top.label === label;
+      return pushEntry(prev, state, label, replaceTop);
+    });
+  }, []);
+
+  // Update the present state without recording a step; follow up with commit()
+  const setTransient = useCallback((next: Updater<T>) => {
+    setHistory(prev => ({ ...prev, present: resolve(next, prev.present) }));
+  }, []);
+
+  const commit = useCallback((label: string) => {
+    setHistory(prev =>
+      isShallowEqual(prev.present, prev.entries[prev.index].state) ? prev : pushEntry(prev, prev.present, label, false)
+    );
+  }, []);
+
+  const jump = useCallback((index: number) => {
+    setHistory(prev => {
+      if (index < 0 || index >= prev.entries.length) return prev;
+      return { ...prev, index, present: prev.entries[index].state };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => (prev.index > 0 ? { ...prev, index: prev.index - 1, present: prev.entries[prev.index - 1].state } : prev));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev =>
+      prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1, present: prev.entries[prev.index + 1].state } : prev
+    );
+  }, []);
+
+  // Start a fresh history, e.g. when a new image is loaded
+  const reset = useCallback((state: T, label = initialLabel) => {
+    setHistory({ entries: [{ state, label }], index: 0, present: state });
+  }, [initialLabel]);
+
+  return {
+    state: history.present,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    set,
+    setTransient,
+    commit,
+    jump,
+    undo,
+    redo,
+    reset
+  };
+};
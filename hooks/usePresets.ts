@@ -0,0 +1,37 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ImageConfig } from '../types';
+import { Preset, createPreset, exportPresets, importLogos, loadStoredPresets, parsePresets, storePresets } from '../utils/presets';
+
+// Named ImageConfig presets, persisted to localStorage on every change
+export const usePresets = (defaults: ImageConfig) => {
+  const [presets, setPresets] = useState<Preset[]>(() => loadStoredPresets(defaults));
+
+  useEffect(() => {
+    storePresets(presets);
+  }, [presets]);
+
+  const save = useCallback((name: string, config: ImageConfig) => {
+    setPresets(prev => [...prev, createPreset(name, config)]);
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+  }, []);
+
+  // Imported presets replace ones with the same id and are appended otherwise.
+  // Throws when the text holds no usable preset; resolves to how many were imported.
+  const importJSON = useCallback(async (text: string) => {
+    const { presets: imported, logos } = parsePresets(text, defaults);
+    // Logos first, so the presets draw them as soon as they're applied
+    await importLogos(logos);
+    setPresets(prev => {
+      const ids = new Set(imported.map(preset => preset.id));
+      return [...prev.filter(preset => !ids.has(preset.id)), ...imported];
+    });
+    return imported.length;
+  }, [defaults]);
+
+  const exportJSON = useCallback(() => exportPresets(presets), [presets]);
+
+  return { presets, save, remove, importJSON, exportJSON };
+};
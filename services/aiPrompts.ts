@@ -0,0 +1,126 @@
+import {
+  AIAnalysisResult, AnalysisField, AnalysisFieldType, AnalysisTemplate, AnalysisValue, DetectedRegion, SensitiveRegionKind, SubjectBox
+} from "../types";
+import { AIError } from "./aiRequest";
+
+// Prompts and response parsing shared by the AI providers, so every backend is asked the
+// same questions and its answers end up in the same shapes.
+
+// How each field type is described to the model, in prompts and JSON shapes
+const FIELD_TYPE_HINTS: Record<AnalysisFieldType, { prompt: string; json: string }> = {
+  text: { prompt: 'one line of text', json: 'string' },
+  longText: { prompt: 'a sentence or short paragraph', json: 'string' },
+  tags: { prompt: 'a list of short strings', json: 'string[]' },
+  boolean: { prompt: 'true or false', json: 'boolean' },
+  number: { prompt: 'a number', json: 'number' },
+};
+
+export const getAnalysisPrompt = (template: AnalysisTemplate, language: string) => {
+  const langInstruction = language === 'zh' ? 'Respond in Chinese (Simplified).' : 'Respond in English.';
+  const fields = template.fields
+    .map(field => `- ${field.key} (${FIELD_TYPE_HINTS[field.type].prompt}): ${field.description || field.label}`)
+    .join('\n  ');
+  return `${template.prompt || 'Analyze this image.'}
+  Provide the following fields:
+  ${fields}
+  ${langInstruction}`;
+};
+
+export const REGIONS_PROMPT = `Find everything in this image that identifies a person and should be hidden before publishing:
+  human faces (kind "face"), and readable personal text such as email addresses, phone numbers, names, street addresses and license plates (kind "text").
+  Return one region per item with a short English label and its bounding box as box_2d [ymin, xmin, ymax, xmax] normalized to 0-1000.
+  Return an empty list if there is nothing to hide.`;
+
+export const SUBJECT_PROMPT = `Find the main subject of this photo, the thing a good crop must keep in frame.
+  Return its bounding box as box_2d [ymin, xmin, ymax, xmax] normalized to 0-1000, or an empty box_2d if there is no clear subject.`;
+
+// For backends without schema-constrained output: the JSON each prompt must answer with
+export const getAnalysisJSONShape = (fields: AnalysisField[]) =>
+  `{${fields.map(field => `"${field.key}": ${FIELD_TYPE_HINTS[field.type].json}`).join(', ')}}`;
+export const REGIONS_JSON_SHAPE = '{"regions": [{"kind": "face" | "text", "label": string, "box_2d": [number, number, number, number]}]}';
+export const SUBJECT_JSON_SHAPE = '{"box_2d": [number, number, number, number]}';
+
+// Clean base64 string if it contains header
+export const stripDataUrl = (base64Image: string) =>
+  base64Image.includes('base64,') ? base64Image.split('base64,')[1] : base64Image;
+
+// Models without a JSON mode like to wrap their answer in prose or a ```json fence
+export const extractJSON = (text: string): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) throw new AIError('malformed', "No JSON object in the response");
+  return parseJSON(text.slice(start, end + 1));
+};
+
+export const parseJSON = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new AIError('malformed', "The response is not valid JSON", { cause: e });
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Box format both prompts ask for: [ymin, xmin, ymax, xmax] normalized to 0-1000
+const fromBox2d = (box: unknown): SubjectBox | null => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(v => typeof v === 'number' && isFinite(v))) return null;
+  const [ymin, xmin, ymax, xmax] = box.map(v => clamp01(v / 1000));
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+// Coerces what the model put in a field to the field's type. null reads as empty;
+// undefined (missing) or a value of another kind is a schema violation.
+const toFieldValue = (value: unknown, type: AnalysisFieldType): AnalysisValue | undefined => {
+  if (value === null) return type === 'tags' ? [] : type === 'boolean' ? false : type === 'number' ? 0 : '';
+  switch (type) {
+    case 'text':
+    case 'longText':
+      return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+    case 'tags':
+      if (Array.isArray(value)) {
+        return value.filter(tag => typeof tag === 'string' || typeof tag === 'number').map(tag => String(tag).trim()).filter(Boolean);
+      }
+      return typeof value === 'string' ? value.split(',').map(tag => tag.trim()).filter(Boolean) : undefined;
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'number': {
+      const number = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+      return isFinite(number) ? number : undefined;
+    }
+  }
+};
+
+// One value per template field, keyed and typed as the template says; extra keys are dropped
+export const parseAnalysis = (data: unknown, fields: AnalysisField[]): AIAnalysisResult => {
+  if (!isRecord(data)) throw new AIError('malformed', "The analysis is not a JSON object");
+  return Object.fromEntries(fields.map(field => {
+    const value = toFieldValue(data[field.key], field.type);
+    if (value === undefined) {
+      throw new AIError('malformed', `Field "${field.key}" is missing or not ${FIELD_TYPE_HINTS[field.type].json}`);
+    }
+    return [field.key, value];
+  }));
+};
+
+export const parseRegions = (data: unknown): DetectedRegion[] => {
+  if (!isRecord(data) || !Array.isArray(data.regions)) throw new AIError('malformed', "The response has no regions list");
+  // Boxes that don't parse are dropped rather than guessed at
+  return data.regions.flatMap(region => {
+    const box = isRecord(region) ? fromBox2d(region.box_2d) : null;
+    if (!box) return [];
+    const kind: SensitiveRegionKind = region.kind === 'face' ? 'face' : 'text';
+    return [{ kind, label: typeof region.label === 'string' && region.label ? region.label : kind, ...box }];
+  });
+};
+
+// An empty or unusable box means the model saw no clear subject
+export const parseSubject = (data: unknown): SubjectBox | null => {
+  if (!isRecord(data) || !('box_2d' in data)) throw new AIError('malformed', "The response has no box_2d");
+  return fromBox2d(data.box_2d);
+};
@@ -0,0 +1,97 @@
+import { AIAnalysisResult, AnalysisTemplate, DetectedRegion, SubjectBox } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAIProvider } from "./openAIService";
+import { mockAIProvider } from "./mockAIService";
+
+// The AI backend the editor talks to. Every feature goes through this interface, so
+// switching between Gemini, an OpenAI-compatible server (OpenAI, Ollama, vLLM, ...) and the
+// offline mock is a settings change. Images are passed as base64 (a data URL is fine).
+// Failures reject with an AIError (see aiRequest.ts); aborting `signal` rejects with an AbortError.
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string; // Shown next to results, e.g. the model name
+  // One value per template field, typed as the field says
+  analyzeImage: (
+    base64Image: string, mimeType: string, language: string, template: AnalysisTemplate, signal?: AbortSignal
+  ) => Promise<AIAnalysisResult>;
+  // Faces and personal text to redact; boxes in fractions of the image
+  detectSensitiveRegions: (base64Image: string, mimeType: string, signal?: AbortSignal) => Promise<DetectedRegion[]>;
+  // The main subject for smart crop, or null when there is no clear one
+  detectMainSubject: (base64Image: string, mimeType: string, signal?: AbortSignal) => Promise<SubjectBox | null>;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export const AI_PROVIDER_IDS: AIProviderId[] = ['gemini', 'openai', 'mock'];
+
+export interface AISettings {
+  provider: AIProviderId;
+  gemini: {
+    apiKey: string; // Empty: the GEMINI_API_KEY the app was built with
+    model: string;
+  };
+  openai: {
+    baseUrl: string; // Up to and including the version, e.g. https://api.openai.com/v1
+    apiKey: string; // Optional; local servers usually need none
+    model: string; // Must accept image input
+  };
+}
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  gemini: { apiKey: '', model: 'gemini-2.5-flash' },
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '', model: 'llava' },
+};
+
+export const createAIProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.gemini);
+    case 'openai':
+      return createOpenAIProvider(settings.openai);
+    case 'mock':
+      return mockAIProvider;
+  }
+};
+
+const STORAGE_KEY = 'optipic.aiSettings';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// String fields of `defaults` that `raw` also has as strings; anything else keeps the default
+const pickStrings = <T extends Record<string, string>>(raw: unknown, defaults: T): T => {
+  const result = { ...defaults };
+  if (!isRecord(raw)) return result;
+  (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+    const value = raw[key as string];
+    if (typeof value === 'string') result[key] = value as T[keyof T];
+  });
+  return result;
+};
+
+export const loadStoredAISettings = (): AISettings => {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    const raw: unknown = text ? JSON.parse(text) : null;
+    if (!isRecord(raw)) return DEFAULT_AI_SETTINGS;
+    return {
+      provider: AI_PROVIDER_IDS.includes(raw.provider as AIProviderId) ? raw.provider as AIProviderId : DEFAULT_AI_SETTINGS.provider,
+      gemini: pickStrings(raw.gemini, DEFAULT_AI_SETTINGS.gemini),
+      openai: pickStrings(raw.openai, DEFAULT_AI_SETTINGS.openai),
+    };
+  } catch (e) {
+    console.warn("Could not load AI settings", e);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const storeAISettings = (settings: AISettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Private browsing or quota exceeded: the settings still apply for this session
+    console.warn("Could not save AI settings", e);
+  }
+};
@@ -0,0 +1,126 @@
+// Error typing, timeouts and retries shared by the AI providers. Providers throw AIError
+// for everything that goes wrong on their side; cancellation stays an AbortError, so
+// isCancelledError keeps telling it apart from real failures.
+
+export type AIErrorKind =
+  | 'missingKey' // No API key (or server URL) configured
+  | 'auth' // Key rejected
+  | 'quota' // Rate limited or out of quota
+  | 'safety' // The model refused the image or blocked its answer
+  | 'malformed' // The answer doesn't match the requested schema
+  | 'network' // Server unreachable
+  | 'timeout'
+  | 'server' // 5xx from the provider
+  | 'unknown';
+
+// Worth another attempt: the same request may well succeed a moment later
+const RETRYABLE_KINDS: AIErrorKind[] = ['quota', 'malformed', 'network', 'timeout', 'server'];
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryAfter: number | null; // ms the server asked us to wait, if it said
+
+  constructor(kind: AIErrorKind, message: string, options: { retryAfter?: number | null; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryAfter = options.retryAfter ?? null;
+  }
+}
+
+export const getAIErrorKind = (error: unknown): AIErrorKind =>
+  error instanceof AIError ? error.kind : 'unknown';
+
+// Kind of an HTTP error status from any provider
+export const getStatusErrorKind = (status: number): AIErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Retry-After is either seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const createAbortError = () => new DOMException('AI request cancelled', 'AbortError');
+
+// SDKs don't all throw a DOMException on abort, but they keep the name
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface AIRequestOptions {
+  signal?: AbortSignal; // Cancels the request, including any retry still waiting
+  timeout?: number; // Per attempt, ms
+  attempts?: number;
+  baseDelay?: number; // First backoff, ms; doubles each retry
+}
+
+const DEFAULT_TIMEOUT = 60000;
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY = 1000;
+const MAX_DELAY = 15000;
+
+// Runs `attempt` with its own timeout, retrying retryable AIErrors with exponential backoff
+// (plus jitter, or the server's Retry-After). `attempt` should stop its request when its signal aborts.
+export const runAIRequest = async <T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options: AIRequestOptions = {}
+): Promise<T> => {
+  const { signal, timeout = DEFAULT_TIMEOUT, attempts = DEFAULT_ATTEMPTS, baseDelay = DEFAULT_BASE_DELAY } = options;
+
+  for (let i = 0; ; i++) {
+    if (signal?.aborted) throw createAbortError();
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    // Don't wait for an attempt that ignores its signal
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(createAbortError()), { once: true });
+    });
+
+    try {
+      return await Promise.race([attempt(controller.signal), aborted]);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      if (isAbortError(error) && !timedOut) throw error;
+      const failure = timedOut
+        ? new AIError('timeout', `No answer within ${timeout / 1000}s`, { cause: error })
+        : error instanceof AIError
+          ? error
+          : new AIError('unknown', error instanceof Error ? error.message : String(error), { cause: error });
+
+      if (i + 1 >= attempts || !RETRYABLE_KINDS.includes(failure.kind)) throw failure;
+      console.warn(`AI request failed (${failure.kind}), retrying`, failure);
+      const backoff = baseDelay * 2 ** i * (1 + Math.random() * 0.25);
+      await sleep(Math.min(MAX_DELAY, failure.retryAfter ?? backoff), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
@@ -1,73 +1,150 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AIAnalysisResult } from "../types";
+import { ApiError, FinishReason, GoogleGenAI, Schema, Type } from "@google/genai";
+import { AnalysisField, AnalysisFieldType } from "../types";
+import type { AIProvider, AISettings } from "./aiProvider";
+import {
+  REGIONS_PROMPT, SUBJECT_PROMPT, getAnalysisPrompt, parseAnalysis, parseJSON, parseRegions, parseSubject, stripDataUrl
+} from "./aiPrompts";
+import { AIError, getStatusErrorKind, runAIRequest } from "./aiRequest";
 
-const getGeminiClient = () => {
-  const apiKey = process.env.API_KEY;
+// Gemini backend, with schema-constrained JSON output
+
+const FIELD_SCHEMAS: Record<AnalysisFieldType, Schema> = {
+  text: { type: Type.STRING },
+  longText: { type: Type.STRING },
+  tags: {
+    type: Type.ARRAY,
+    items: { type: Type.STRING }
+  },
+  boolean: { type: Type.BOOLEAN },
+  number: { type: Type.NUMBER },
+};
+
+// Response schema for an analysis template: one required property per field
+const getAnalysisSchema = (fields: AnalysisField[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(fields.map(field => [field.key, { ...FIELD_SCHEMAS[field.type], description: field.description }])),
+  required: fields.map(field => field.key),
+  propertyOrdering: fields.map(field => field.key)
+});
+
+const REGIONS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    regions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["face", "text"] },
+          label: { type: Type.STRING },
+          box_2d: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER }
+          }
+        },
+        required: ["kind", "label", "box_2d"]
+      }
+    }
+  },
+  required: ["regions"]
+};
+
+const SUBJECT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    box_2d: {
+      type: Type.ARRAY,
+      items: { type: Type.INTEGER }
+    }
+  },
+  required: ["box_2d"]
+};
+
+// Finish reasons meaning the answer was withheld for policy reasons
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY, FinishReason.RECITATION
+];
+
+const getGeminiClient = (settings: AISettings['gemini']) => {
+  const apiKey = settings.apiKey || process.env.API_KEY;
   if (!apiKey) {
-    throw new Error("API_KEY is missing from environment variables");
+    throw new AIError('missingKey', "API_KEY is missing from environment variables");
   }
   return new GoogleGenAI({ apiKey });
 };
 
-export const analyzeImageWithGemini = async (
-  base64Image: string,
-  mimeType: string,
-  language: string = 'en'
-): Promise<AIAnalysisResult> => {
-  const ai = getGeminiClient();
-
-  // Clean base64 string if it contains header
-  const cleanBase64 = base64Image.includes('base64,')
-    ? base64Image.split('base64,')[1]
-    : base64Image;
-
-  const langInstruction = language === 'zh' ? 'Respond in Chinese (Simplified).' : 'Respond in English.';
-  const prompt = `Analyze this image for SEO and file management purposes. 
-  Provide a concise title, a short description (alt text), relevant tags, and a suggested filename (kebab-case, without extension). ${langInstruction}`;
+const toAIError = (error: unknown): unknown => {
+  if (error instanceof AIError || (error instanceof Error && error.name === 'AbortError')) return error;
+  if (error instanceof ApiError) {
+    // Gemini answers a bad key with 400 rather than 401
+    const kind = error.status === 400 && /API key/i.test(error.message) ? 'auth' : getStatusErrorKind(error.status);
+    return new AIError(kind, error.message, { cause: error });
+  }
+  // fetch reports an unreachable server as a TypeError
+  if (error instanceof TypeError) return new AIError('network', error.message, { cause: error });
+  return error;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: cleanBase64
-            }
-          },
-          {
-            text: prompt
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-            tags: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
+export const createGeminiProvider = (settings: AISettings['gemini']): AIProvider => {
+  // One request with the image and a prompt; returns the parsed answer, retrying transient failures
+  const generate = <T>(
+    base64Image: string,
+    mimeType: string,
+    prompt: string,
+    responseSchema: Schema,
+    parse: (data: unknown) => T,
+    signal?: AbortSignal
+  ): Promise<T> => runAIRequest(async attemptSignal => {
+    try {
+      const ai = getGeminiClient(settings);
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: mimeType,
+                data: stripDataUrl(base64Image)
+              }
             },
-            suggestedFilename: { type: Type.STRING }
-          },
-          required: ["title", "description", "tags", "suggestedFilename"]
+            {
+              text: prompt
+            }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema,
+          abortSignal: attemptSignal
         }
+      });
+
+      const blockReason = response.promptFeedback?.blockReason;
+      const finishReason = response.candidates?.[0]?.finishReason;
+      if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new AIError('safety', `Gemini blocked the request (${blockReason || finishReason})`);
       }
-    });
 
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
+      const text = response.text;
+      if (!text) throw new AIError('malformed', "No response from Gemini");
 
-    return JSON.parse(text) as AIAnalysisResult;
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    if (error instanceof Error) {
-      console.error("Error details:", error.message, error.stack);
+      return parse(parseJSON(text));
+    } catch (error) {
+      console.error("Gemini Error:", error);
+      throw toAIError(error);
     }
-    throw error;
-  }
-};
\ No newline at end of file
+  }, { signal });
+
+  return {
+    id: 'gemini',
+    label: settings.model,
+    analyzeImage: (base64Image, mimeType, language, template, signal) =>
+      generate(base64Image, mimeType, getAnalysisPrompt(template, language), getAnalysisSchema(template.fields),
+        data => parseAnalysis(data, template.fields), signal),
+    detectSensitiveRegions: (base64Image, mimeType, signal) =>
+      generate(base64Image, mimeType, REGIONS_PROMPT, REGIONS_SCHEMA, parseRegions, signal),
+    detectMainSubject: (base64Image, mimeType, signal) =>
+      generate(base64Image, mimeType, SUBJECT_PROMPT, SUBJECT_SCHEMA, parseSubject, signal),
+  };
+};
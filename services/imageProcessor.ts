@@ -0,0 +1,140 @@
+import { ImageConfig, ProcessResult, QualityMetrics, QualityPoint, SubjectBox } from '../types';
+import { DecodedSource, decodeSource } from '../utils/pipeline';
+import { PipelineJob, PipelineJobResult, PipelineJobResults, runJob } from '../utils/jobs';
+import { createId } from '../utils/id';
+import { EncodeEffort } from '../utils/codecs';
+import type { WorkerRequest, WorkerResponse } from '../utils/imageWorker';
+
+interface PendingJob {
+  resolve: (result: PipelineJobResult) => void;
+  reject: (error: unknown) => void;
+}
+
+const supportsWorker = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+// Latest job per channel (e.g. 'preview'); submitting a new one cancels the previous
+const latestByChannel = new Map<string, number>();
+// Stable ids so the worker can reuse its decoded bitmap for a source it has already seen
+const sourceIds = new WeakMap<Blob, string>();
+
+const createAbortError = () => new DOMException('Processing cancelled', 'AbortError');
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const getSourceId = (source: Blob) => {
+  let id = sourceIds.get(source);
+  if (!id) {
+    id = createId();
+    sourceIds.set(source, id);
+  }
+  return id;
+};
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../utils/imageWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    const job = pending.get(msg.id);
+    if (!job) return; // Already cancelled on this side
+    pending.delete(msg.id);
+    if (msg.type === 'result') {
+      job.resolve(msg.result);
+    } else {
+      job.reject(msg.cancelled ? createAbortError() : new Error(msg.message));
+    }
+  };
+  worker.onerror = (e) => {
+    console.error("Image worker crashed", e);
+    pending.forEach(job => job.reject(new Error('Image worker crashed')));
+    pending.clear();
+    worker = null;
+  };
+  return worker;
+};
+
+const cancelJob = (id: number) => {
+  const job = pending.get(id);
+  if (!job) return;
+  pending.delete(id);
+  job.reject(createAbortError());
+  worker?.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+};
+
+// Main-thread fallback for browsers without OffscreenCanvas: same pipeline, same cancellation points
+const runOnMainThread = async (id: number, source: Blob, job: PipelineJob) => {
+  const checkpoint = () => {
+    if (!pending.has(id)) throw createAbortError();
+  };
+  let decoded: DecodedSource | null = null;
+  try {
+    decoded = await decodeSource(source);
+    checkpoint();
+    const result = await runJob(decoded, job, checkpoint);
+    const waiting = pending.get(id);
+    pending.delete(id);
+    waiting?.resolve(result);
+  } catch (err) {
+    const waiting = pending.get(id);
+    pending.delete(id);
+    waiting?.reject(err);
+  } finally {
+    // Superseded and failed jobs too, or every cancelled preview would leak its bitmap
+    decoded?.bitmap.close();
+  }
+};
+
+// Jobs submitted on the same `channel` supersede each other: the older promise
+// rejects with an AbortError (see isCancelledError) and the worker abandons it at its next stage.
+const submitJob = <K extends PipelineJob['kind']>(
+  source: Blob,
+  job: Extract<PipelineJob, { kind: K }>,
+  channel?: string
+): Promise<PipelineJobResults[K]> => {
+  const id = nextJobId++;
+
+  if (channel) {
+    const previous = latestByChannel.get(channel);
+    if (previous !== undefined) cancelJob(previous);
+    latestByChannel.set(channel, id);
+  }
+
+  return new Promise<PipelineJobResults[K]>((resolve, reject) => {
+    // Results are matched to jobs by id, so each one arrives as the type its kind produces
+    pending.set(id, { resolve: resolve as (result: PipelineJobResult) => void, reject });
+    if (supportsWorker) {
+      getWorker().postMessage({ type: 'process', id, sourceId: getSourceId(source), source, job } satisfies WorkerRequest);
+    } else {
+      runOnMainThread(id, source, job);
+    }
+  });
+};
+
+/**
+ * Render and encode `source` with `config` off the main thread.
+ * Pass a `channel` to have each job cancel the previous one on it, and 'fast' `effort` for
+ * live previews (the result is then marked `draft` if the format encodes better at 'best').
+ */
+export const processImage = (
+  source: Blob,
+  config: ImageConfig,
+  channel?: string,
+  effort: EncodeEffort = 'best'
+): Promise<ProcessResult> =>
+  submitJob(source, { kind: 'process', config, effort }, channel);
+
+/** PSNR / SSIM of `encoded` (a result of `config`) against the render it was encoded from. */
+export const measureQuality = (source: Blob, config: ImageConfig, encoded: Blob, channel?: string): Promise<QualityMetrics> =>
+  submitJob(source, { kind: 'measure', config, encoded }, channel);
+
+/** Size and SSIM of `config` encoded at each of QUALITY_CURVE_LEVELS. */
+export const plotQualityCurve = (source: Blob, config: ImageConfig, channel?: string): Promise<QualityPoint[]> =>
+  submitJob(source, { kind: 'curve', config }, channel);
+
+/** Main subject of the intermediate image of `config`, found by the local saliency heuristic. */
+export const detectSubject = (source: Blob, config: ImageConfig, channel?: string): Promise<SubjectBox> =>
+  submitJob(source, { kind: 'subject', config }, channel);
@@ -0,0 +1,117 @@
+import { AIAnalysisResult, AnalysisField, AnalysisValue, DetectedRegion, SubjectBox } from "../types";
+import type { AIProvider } from "./aiProvider";
+import { stripDataUrl } from "./aiPrompts";
+
+// Offline backend answering from fixtures. Deterministic: the same image (and language)
+// always gets the same result, so the AI flows can be exercised in CI without a network.
+
+// Values for the fields that play a role; other fields get placeholders of their type
+type AnalysisFixture = { title: string; altText: string; tags: string[]; filename: string };
+
+const ANALYSIS_FIXTURES: Record<'en' | 'zh', AnalysisFixture[]> = {
+  en: [
+    {
+      title: "Mountain Lake at Sunrise",
+      altText: "A calm alpine lake reflecting snow-capped peaks in warm morning light.",
+      tags: ["landscape", "mountains", "lake", "sunrise", "nature"],
+      filename: "mountain-lake-sunrise"
+    },
+    {
+      title: "Modern Workspace Setup",
+      altText: "A tidy desk with a laptop, a notebook and a cup of coffee next to a window.",
+      tags: ["workspace", "desk", "laptop", "productivity", "interior"],
+      filename: "modern-workspace-setup"
+    },
+    {
+      title: "City Street at Night",
+      altText: "A busy downtown street with glowing shop signs and light trails from passing cars.",
+      tags: ["city", "night", "street", "lights", "urban"],
+      filename: "city-street-night"
+    }
+  ],
+  zh: [
+    {
+      title: "日出时的高山湖泊",
+      altText: "平静的高山湖泊在温暖的晨光中倒映着雪山。",
+      tags: ["风景", "山脉", "湖泊", "日出", "自然"],
+      filename: "mountain-lake-sunrise"
+    },
+    {
+      title: "现代办公桌布置",
+      altText: "窗边整洁的办公桌上摆着笔记本电脑、笔记本和一杯咖啡。",
+      tags: ["办公", "桌面", "电脑", "效率", "室内"],
+      filename: "modern-workspace-setup"
+    },
+    {
+      title: "夜晚的城市街道",
+      altText: "繁忙的市中心街道，店铺招牌闪烁，车流留下光轨。",
+      tags: ["城市", "夜景", "街道", "灯光", "都市"],
+      filename: "city-street-night"
+    }
+  ]
+};
+
+const REGION_FIXTURES: DetectedRegion[] = [
+  { kind: 'face', label: 'face (mock)', x: 0.4, y: 0.15, width: 0.2, height: 0.25 },
+  { kind: 'text', label: 'email address (mock)', x: 0.1, y: 0.82, width: 0.45, height: 0.07 },
+];
+
+const SUBJECT_FIXTURE: SubjectBox = { x: 0.3, y: 0.2, width: 0.4, height: 0.6 };
+
+// Long enough for loading states to show, short enough not to slow tests down
+const MOCK_LATENCY = 300;
+
+// FNV-1a over the image data, to pick a fixture
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const getFieldValue = (field: AnalysisField, fixture: AnalysisFixture, hash: number): AnalysisValue => {
+  if (field.role) return fixture[field.role];
+  switch (field.type) {
+    case 'text':
+      return `${field.label} (mock)`;
+    case 'longText':
+      return `Mock ${field.label.toLowerCase()} for "${fixture.title}".`;
+    case 'tags':
+      return fixture.tags.slice(0, 3);
+    case 'boolean':
+      return true;
+    case 'number':
+      return hash % 100;
+  }
+};
+
+// Copies, so callers can't alter the fixtures. Cancellable like a real request.
+const respond = <T>(value: T, signal?: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const cancelled = () => new DOMException('AI request cancelled', 'AbortError');
+    // An abort event that already fired won't fire again
+    if (signal?.aborted) return reject(cancelled());
+    const timer = setTimeout(() => resolve(structuredClone(value)), MOCK_LATENCY);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    }, { once: true });
+  });
+
+export const mockAIProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock',
+  analyzeImage: (base64Image, _mimeType, language, template, signal) => {
+    const fixtures = ANALYSIS_FIXTURES[language === 'zh' ? 'zh' : 'en'];
+    const hash = hashString(stripDataUrl(base64Image));
+    const fixture = fixtures[hash % fixtures.length];
+    const result: AIAnalysisResult = Object.fromEntries(
+      template.fields.map(field => [field.key, getFieldValue(field, fixture, hash)])
+    );
+    return respond(result, signal);
+  },
+  detectSensitiveRegions: (_base64Image, _mimeType, signal) => respond(REGION_FIXTURES, signal),
+  detectMainSubject: (_base64Image, _mimeType, signal) => respond(SUBJECT_FIXTURE, signal),
+};
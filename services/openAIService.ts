@@ -0,0 +1,94 @@
+import type { AIProvider, AISettings } from "./aiProvider";
+import {
+  REGIONS_JSON_SHAPE, REGIONS_PROMPT, SUBJECT_JSON_SHAPE, SUBJECT_PROMPT,
+  extractJSON, getAnalysisJSONShape, getAnalysisPrompt, parseAnalysis, parseRegions, parseSubject, stripDataUrl
+} from "./aiPrompts";
+import { AIError, getStatusErrorKind, parseRetryAfter, runAIRequest } from "./aiRequest";
+
+// Backend for any server speaking the OpenAI chat completions API with image input:
+// OpenAI itself, Ollama (/v1), vLLM, LM Studio, LocalAI... Plain fetch, no SDK.
+
+interface ChatCompletionResponse {
+  choices?: { finish_reason?: string | null; message?: { content?: string | null; refusal?: string | null } }[];
+}
+
+export const createOpenAIProvider = (settings: AISettings['openai']): AIProvider => {
+  // One request with the image and a prompt; returns the parsed answer, retrying transient failures
+  const generate = <T>(
+    base64Image: string,
+    mimeType: string,
+    prompt: string,
+    shape: string,
+    parse: (data: unknown) => T,
+    signal?: AbortSignal
+  ): Promise<T> => runAIRequest(async attemptSignal => {
+    const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+    if (!baseUrl) throw new AIError('missingKey', "No base URL configured for the OpenAI-compatible provider");
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            messages: [
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: `${prompt}\nRespond with only a JSON object of the form ${shape}.` },
+                  { type: 'image_url', image_url: { url: `data:${mimeType};base64,${stripDataUrl(base64Image)}` } }
+                ]
+              }
+            ],
+            // Not every server implements JSON mode, so extractJSON copes with free text too
+            response_format: { type: 'json_object' }
+          }),
+          signal: attemptSignal
+        });
+      } catch (error) {
+        // fetch rejects with a TypeError when the server can't be reached (or CORS blocks it)
+        if (error instanceof TypeError) throw new AIError('network', error.message, { cause: error });
+        throw error;
+      }
+      if (!response.ok) {
+        throw new AIError(
+          getStatusErrorKind(response.status),
+          `OpenAI-compatible server responded ${response.status} ${response.statusText}`,
+          { retryAfter: parseRetryAfter(response.headers.get('Retry-After')) }
+        );
+      }
+
+      const data = await response.json().catch(e => {
+        throw new AIError('malformed', "The server's response is not JSON", { cause: e });
+      }) as ChatCompletionResponse;
+      const choice = data.choices?.[0];
+      if (choice?.message?.refusal || choice?.finish_reason === 'content_filter') {
+        throw new AIError('safety', choice.message?.refusal || "The server filtered the response");
+      }
+      const text = choice?.message?.content;
+      if (!text) throw new AIError('malformed', "No response from the OpenAI-compatible server");
+
+      return parse(extractJSON(text));
+    } catch (error) {
+      console.error("OpenAI-compatible Error:", error);
+      throw error;
+    }
+  }, { signal });
+
+  return {
+    id: 'openai',
+    label: settings.model,
+    analyzeImage: (base64Image, mimeType, language, template, signal) =>
+      generate(base64Image, mimeType, getAnalysisPrompt(template, language), getAnalysisJSONShape(template.fields),
+        data => parseAnalysis(data, template.fields), signal),
+    detectSensitiveRegions: (base64Image, mimeType, signal) =>
+      generate(base64Image, mimeType, REGIONS_PROMPT, REGIONS_JSON_SHAPE, parseRegions, signal),
+    detectMainSubject: (base64Image, mimeType, signal) =>
+      generate(base64Image, mimeType, SUBJECT_PROMPT, SUBJECT_JSON_SHAPE, parseSubject, signal),
+  };
+};
@@ -1,13 +1,172 @@
 export interface ImageConfig {
   rotation: number; // in degrees (0, 90, 180, 270)
+  straighten: number; // Fine rotation in degrees (-45 to 45), applied on top of rotation
+  straightenFill: 'crop' | 'color'; // Auto-crop the empty corners, or fill them with fillColor
+  fillColor: string; // CSS color for the corners in 'color' mode
   cropRatio: number | null; // null for free/original, or 1 (square), 16/9, etc.
   cropRect: CropRect | null; // The actual crop coordinates relative to the transformed image
   quality: number; // 0.1 to 1.0
   targetWidth: number;
   targetHeight: number;
+  resampling: 'browser' | 'nearest' | 'bilinear' | 'bicubic' | 'lanczos3' | 'stepwise'; // Filter used when resizing
   flipHorizontal: boolean;
   flipVertical: boolean;
-  format: 'image/jpeg' | 'image/png' | 'image/webp';
+  format:
+    | 'image/jpeg'
+    | 'image/png'
+    | 'image/webp'
+    | 'image/avif'
+    | 'image/gif'
+    | 'image/bmp'
+    | 'image/tiff'
+    | 'image/x-icon'; // Beyond JPEG/WebP, encoded by utils/codecs
+  paletteColors: number; // PNG: 0 = lossless, 2-256 = quantize to a palette. GIF: palette size (0 = 256)
+  dither: boolean; // Floyd–Steinberg dithering when quantizing
+  targetFileSize: number; // Byte budget for the encoded output, 0 = off (quality then acts as the upper bound)
+  allowDownscale: boolean; // Let the byte budget shrink the dimensions once the lowest quality is not enough
+  // Tonal adjustments, applied after crop & resize. 0 (1 for gamma) leaves the image unchanged.
+  brightness: number; // -100 to 100
+  contrast: number; // -100 to 100
+  saturation: number; // -100 (greyscale) to 100
+  exposure: number; // in EV stops (-3 to 3)
+  temperature: number; // -100 (cool) to 100 (warm)
+  tint: number; // -100 (green) to 100 (magenta)
+  gamma: number; // 0.2 to 3
+  metadata: MetadataPolicy; // What happens to each source metadata field on export
+  watermark: WatermarkConfig; // Drawn on the final pixels, after adjustments
+  annotations: Annotation[]; // Markup of this particular image, drawn before crop & resize
+  redactions: Redaction[]; // Regions of this particular image destroyed before any other stage
+}
+
+export type RedactionStyle = 'pixelate' | 'blur' | 'fill';
+
+// An axis-aligned box in pixels of the decoded source (upright, before any geometry), so it
+// stays on the same content under rotation and crop
+export interface Redaction {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  style: RedactionStyle;
+  color: string; // Fill style only
+}
+
+// The main subject of an image, in fractions (0-1) of the intermediate image
+export interface SubjectBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type SensitiveRegionKind = 'face' | 'text';
+
+// A region proposed by auto-detection; the box is in fractions (0-1) of the image it was run on
+export interface DetectedRegion {
+  kind: SensitiveRegionKind;
+  label: string; // What was found, e.g. "email address"
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AnnotationTool = 'arrow' | 'rect' | 'ellipse' | 'pen' | 'highlighter' | 'text' | 'marker';
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+// A vector markup object. Points are in pixels of the decoded source (upright, before rotation,
+// straightening and crop), so annotations follow any later change of geometry.
+export interface Annotation {
+  id: string;
+  tool: AnnotationTool;
+  // arrow: tail, head · rect / ellipse: opposite corners · pen / highlighter: the path
+  // text: the spot pointed at, then the label position · marker: its centre
+  points: AnnotationPoint[];
+  color: string;
+  size: number; // Line width in source pixels; text and markers scale with it
+  text: string; // Text callouts only
+}
+
+export type WatermarkAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// Sizes and distances are percentages of the output's shorter side, so one setting
+// brands images of any resolution alike
+export interface WatermarkConfig {
+  type: 'none' | 'text' | 'image';
+  text: string;
+  font: string; // CSS font family
+  color: string;
+  size: number; // Height of the text or logo
+  logoId: string | null; // Logo in the logo store (utils/logoStore.ts); configs never carry the image itself
+  opacity: number; // 0 - 1
+  rotation: number; // Degrees, around the mark's centre
+  layout: 'anchor' | 'tile';
+  anchor: WatermarkAnchor;
+  offsetX: number; // Distance from the anchored edge; a shift to the right when centred
+  offsetY: number; // Distance from the anchored edge; a shift down when centred
+  spacing: number; // Gap between tiles
+}
+
+// Outcome of a processImage run, including the settings chosen to meet a byte budget
+export interface ProcessResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality: number; // Quality actually used for encoding
+  scale: number; // Downscale applied on top of the configured size (1 = none)
+  fitsBudget: boolean; // false when targetFileSize could not be reached
+  sourceWidth: number; // Decoded source size, upright but otherwise untransformed
+  sourceHeight: number;
+  nativeSize?: number; // PNG without a size budget: bytes the browser's own encoder produced
+  draft?: boolean; // Encoded with 'fast' effort for a preview; exports encode it again at 'best'
+}
+
+// Fidelity of an encoded image to the rendered pixels it was encoded from
+export interface QualityMetrics {
+  psnr: number; // dB over RGB; Infinity when identical
+  ssim: number; // Mean SSIM of the luma channel, 0 - 1
+}
+
+// One encoding of the size-vs-quality curve
+export interface QualityPoint extends QualityMetrics {
+  quality: number;
+  size: number; // Bytes, image data only (no metadata)
+}
+
+export type MetadataField = 'camera' | 'captureDate' | 'artist' | 'copyright' | 'description' | 'gps';
+
+export interface MetadataFieldPolicy {
+  mode: 'keep' | 'strip' | 'edit';
+  value: string; // Replacement text in 'edit' mode ("lat, lon[, alt]" for gps)
+}
+
+export type MetadataPolicy = Record<MetadataField, MetadataFieldPolicy>;
+
+export interface GpsCoordinates {
+  latitude: number; // Decimal degrees, negative = south
+  longitude: number; // Decimal degrees, negative = west
+  altitude: number | null; // Meters
+}
+
+// Metadata read from the source file, merged from its EXIF, XMP and IPTC blocks
+export interface ImageMetadata {
+  orientation: number | null; // EXIF orientation (1-8), applied when decoding
+  make: string | null;
+  model: string | null;
+  captureDate: string | null; // As stored, usually "YYYY:MM:DD HH:MM:SS"
+  artist: string | null;
+  copyright: string | null;
+  description: string | null;
+  gps: GpsCoordinates | null;
+  sources: ('EXIF' | 'XMP' | 'IPTC')[]; // Blocks found in the file
 }
 
 export interface CropRect {
@@ -17,11 +176,70 @@ export interface CropRect {
   height: number;
 }
 
-export interface AIAnalysisResult {
+// What a template field holds once the model has filled it in
+export interface AnalysisFieldValues {
+  text: string; // One line
+  longText: string; // A sentence or paragraph
+  tags: string[];
+  boolean: boolean;
+  number: number;
+}
+
+export type AnalysisFieldType = keyof AnalysisFieldValues;
+
+export type AnalysisValue = AnalysisFieldValues[AnalysisFieldType];
+
+// Fields the rest of the editor reads: the download name, the alt text in markup and the manifest columns
+export type AnalysisFieldRole = 'title' | 'altText' | 'tags' | 'filename';
+
+export interface AnalysisField {
+  key: string; // JSON property the model fills in
+  label: string;
+  type: AnalysisFieldType;
+  description: string; // Instruction to the model for this field
+  role: AnalysisFieldRole | null;
+}
+
+// A prompt plus the fields the answer must contain
+export interface AnalysisTemplate {
+  id: string;
+  name: string;
+  prompt: string;
+  fields: AnalysisField[];
+  builtIn: boolean; // Shipped with the app; can be duplicated but not edited
+}
+
+// Field key -> value, as defined by the template the analysis ran with
+export type AIAnalysisResult<K extends string = string> = Record<K, AnalysisValue>;
+
+// A result together with the fields it was produced for, so it stays readable after the template changes
+export interface AIAnalysis {
+  templateId: string;
+  fields: AnalysisField[];
+  values: AIAnalysisResult;
+}
+
+// One row of the manifest shipped alongside ZIP exports
+export interface ManifestEntry {
+  filename: string;
+  width: number;
+  height: number;
+  bytes: number;
+  format: string;
   title: string;
-  description: string;
+  altText: string;
   tags: string[];
-  suggestedFilename: string;
+  analysis: AIAnalysisResult; // Every field of the template, for manifest.json
+}
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: ProcessingStatus; // IDLE (queued), PROCESSING, SUCCESS or ERROR
+  result: Blob | null; // Encoded output
+  size: number; // Processed size in bytes
+  format: ImageConfig['format']; // Format the result was encoded with
+  error: string | null;
 }
 
 export enum ProcessingStatus {
@@ -0,0 +1,151 @@
+import { AIAnalysis, AnalysisTemplate, ImageConfig } from '../types';
+import { createId } from './id';
+import { STRIP_ALL_METADATA } from './metadata';
+import { ANALYSES_STORE, openDB, promisify } from './db';
+
+// AI analyses persisted in IndexedDB, keyed by a hash of the analyzed image plus the
+// language and template, so re-analyzing an unchanged image costs no request and past
+// results survive a reload. Every result is kept as history of the uploaded image (whatever
+// edits it was analyzed with) until MAX_RECORDS is reached.
+
+export interface AnalysisRecord {
+  id: string;
+  sourceHash: string; // The uploaded file, for history
+  imageHash: string; // The analysis input (see getAnalysisConfig) that was sent
+  cacheKey: string; // imageHash + language + template id and fingerprint
+  language: string;
+  templateName: string; // As it was when the analysis ran; built-in names are looked up in i18n by templateId
+  provider: string; // Label of the backend that answered
+  createdAt: number;
+  analysis: AIAnalysis;
+}
+
+const MAX_RECORDS = 200;
+
+// Plenty for captions and tags, and well under what providers downscale to anyway
+const ANALYSIS_MAX_SIZE = 1536;
+
+// FNV-1a, for when SubtleCrypto is unavailable (insecure origins) and for template fingerprints
+const fnv1a = (bytes: Uint8Array) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Content hash of an encoded image: identical bytes, identical hash
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const data = await blob.arrayBuffer();
+  if (!crypto.subtle) return `fnv-${fnv1a(new Uint8Array(data))}-${data.byteLength}`;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// What gets analyzed (and hashed for the cache): the edited image as exported, but downscaled
+// and as a metadata-free JPEG, which every provider accepts whatever the export format
+export const getAnalysisConfig = (config: ImageConfig, outputWidth: number, outputHeight: number): ImageConfig => {
+  const scale = Math.min(1, ANALYSIS_MAX_SIZE / Math.max(outputWidth, outputHeight));
+  return {
+    ...config,
+    targetWidth: Math.max(1, Math.round(outputWidth * scale)),
+    targetHeight: Math.max(1, Math.round(outputHeight * scale)),
+    targetFileSize: 0,
+    resampling: 'browser',
+    format: 'image/jpeg',
+    quality: 0.85,
+    metadata: STRIP_ALL_METADATA,
+  };
+};
+
+// Changes whenever the prompt or fields do, so an edited template isn't answered from the cache
+const getTemplateFingerprint = (template: AnalysisTemplate) =>
+  fnv1a(new TextEncoder().encode(JSON.stringify([template.prompt, template.fields])));
+
+export const getAnalysisCacheKey = (imageHash: string, language: string, template: AnalysisTemplate) =>
+  `${imageHash}:${language}:${template.id}:${getTemplateFingerprint(template)}`;
+
+export const createAnalysisRecord = (
+  sourceHash: string,
+  imageHash: string,
+  language: string,
+  template: AnalysisTemplate,
+  provider: string,
+  analysis: AIAnalysis
+): AnalysisRecord => ({
+  id: createId(),
+  sourceHash,
+  imageHash,
+  cacheKey: getAnalysisCacheKey(imageHash, language, template),
+  language,
+  templateName: template.name,
+  provider,
+  createdAt: Date.now(),
+  analysis,
+});
+
+const getAllByIndex = async (index: 'sourceHash' | 'cacheKey', value: string): Promise<AnalysisRecord[]> => {
+  const db = await openDB();
+  const store = db.transaction(ANALYSES_STORE).objectStore(ANALYSES_STORE);
+  const records = await promisify(store.index(index).getAll(value)) as AnalysisRecord[];
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Newest analysis for this image, language and template, or null
+export const findCachedAnalysis = async (cacheKey: string): Promise<AnalysisRecord | null> => {
+  try {
+    return (await getAllByIndex('cacheKey', cacheKey))[0] || null;
+  } catch (e) {
+    console.warn("Could not read the analysis cache", e);
+    return null;
+  }
+};
+
+// Every analysis of this uploaded image, newest first
+export const listAnalyses = async (sourceHash: string): Promise<AnalysisRecord[]> => {
+  try {
+    return await getAllByIndex('sourceHash', sourceHash);
+  } catch (e) {
+    console.warn("Could not read the analysis history", e);
+    return [];
+  }
+};
+
+// Adds or replaces a record, then drops the oldest ones beyond MAX_RECORDS
+export const storeAnalysis = async (record: AnalysisRecord) => {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(ANALYSES_STORE, 'readwrite');
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    const store = tx.objectStore(ANALYSES_STORE);
+    store.put(record);
+    const count = await promisify(store.count());
+    if (count > MAX_RECORDS) {
+      let excess = count - MAX_RECORDS;
+      const cursorRequest = store.index('createdAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess-- <= 0) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    }
+    await done;
+  } catch (e) {
+    // Private browsing or quota exceeded: the result is still shown, just not kept
+    console.warn("Could not save the analysis", e);
+  }
+};
+
+export const deleteAnalysis = async (id: string) => {
+  try {
+    const db = await openDB();
+    await promisify(db.transaction(ANALYSES_STORE, 'readwrite').objectStore(ANALYSES_STORE).delete(id));
+  } catch (e) {
+    console.warn("Could not delete the analysis", e);
+  }
+};
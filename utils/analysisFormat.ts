@@ -0,0 +1,47 @@
+import { AIAnalysis, AnalysisValue } from '../types';
+import { getAnalysisTags, getAnalysisText } from './analysisTemplates';
+import { escapeAttribute } from './responsive';
+
+// Clipboard formats for an AI analysis: single values, an <img> tag, JSON and Markdown
+
+export interface AnalysisFormatLabels {
+  fieldLabel: (key: string) => string;
+  yes: string;
+  no: string;
+}
+
+export const formatAnalysisValue = (value: AnalysisValue, labels: Pick<AnalysisFormatLabels, 'yes' | 'no'>): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? labels.yes : labels.no;
+  return String(value);
+};
+
+export const formatAnalysisHTML = (analysis: AIAnalysis, src: string): string => {
+  const title = getAnalysisText(analysis, 'title');
+  const titleAttribute = title ? ` title="${escapeAttribute(title)}"` : '';
+  return `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(getAnalysisText(analysis, 'altText'))}"${titleAttribute}>`;
+};
+
+export const formatAnalysisJSON = (analysis: AIAnalysis): string => JSON.stringify(analysis.values, null, 2);
+
+// Title as a heading, the image with its alt text, then every other field as a list item
+export const formatAnalysisMarkdown = (analysis: AIAnalysis, src: string, labels: AnalysisFormatLabels): string => {
+  const title = getAnalysisText(analysis, 'title');
+  const alt = getAnalysisText(analysis, 'altText').replace(/[[\]]/g, '\\$&');
+  const tags = getAnalysisTags(analysis);
+  const lines = [
+    ...(title ? [`## ${title}`, ''] : []),
+    `![${alt}](${encodeURI(src)})`,
+    '',
+  ];
+  analysis.fields
+    .filter(field => field.role !== 'title' && field.role !== 'altText' && field.role !== 'filename' && field.role !== 'tags')
+    .forEach(field => {
+      lines.push(`- **${labels.fieldLabel(field.key)}:** ${formatAnalysisValue(analysis.values[field.key], labels)}`.trimEnd());
+    });
+  if (tags.length > 0) {
+    if (lines[lines.length - 1] !== '') lines.push('');
+    lines.push(tags.map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' '));
+  }
+  return lines.join('\n').trimEnd();
+};
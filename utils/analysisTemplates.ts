@@ -0,0 +1,187 @@
+import { AIAnalysis, AnalysisField, AnalysisFieldRole, AnalysisFieldType, AnalysisTemplate } from '../types';
+import { createId } from './id';
+
+// Prompt templates for AI analysis. Built-in templates ship with the app (names and field
+// labels live in i18n under `analysisTemplateNames` / `analysisFieldLabels`); custom ones are
+// created in the editor and persisted to localStorage.
+
+export const ANALYSIS_FIELD_TYPES: AnalysisFieldType[] = ['text', 'longText', 'tags', 'boolean', 'number'];
+
+export const ANALYSIS_FIELD_ROLES: AnalysisFieldRole[] = ['title', 'altText', 'tags', 'filename'];
+
+// Field types each role can be read from
+export const ROLE_FIELD_TYPES: Record<AnalysisFieldRole, AnalysisFieldType[]> = {
+  title: ['text', 'longText'],
+  altText: ['text', 'longText'],
+  tags: ['tags'],
+  filename: ['text'],
+};
+
+const SEO_FIELDS: AnalysisField[] = [
+  { key: 'title', label: 'Title', type: 'text', description: 'A concise title', role: 'title' },
+  { key: 'suggestedFilename', label: 'Filename', type: 'text', description: 'A suggested filename, kebab-case, without extension', role: 'filename' },
+  { key: 'description', label: 'Alt Text', type: 'longText', description: 'A short description usable as alt text', role: 'altText' },
+  { key: 'tags', label: 'Tags', type: 'tags', description: 'Relevant tags', role: 'tags' },
+];
+
+export const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+  {
+    id: 'seo',
+    name: 'SEO',
+    prompt: 'Analyze this image for SEO and file management purposes.',
+    fields: SEO_FIELDS,
+    builtIn: true,
+  },
+  {
+    id: 'product',
+    name: 'Product listing',
+    prompt: 'Analyze this product photo for an online shop listing and its social media posts.',
+    fields: [
+      ...SEO_FIELDS,
+      { key: 'category', label: 'Product Category', type: 'text', description: 'The product category, as a shop would list it', role: null },
+      { key: 'dominantColors', label: 'Dominant Colors', type: 'tags', description: 'The dominant colors, as plain color names', role: null },
+      { key: 'detectedText', label: 'Detected Text', type: 'longText', description: 'Any text readable in the image, verbatim; empty if none', role: null },
+      { key: 'safeForWork', label: 'Safe for Work', type: 'boolean', description: 'Whether the image is suitable for a general audience', role: null },
+      { key: 'safetyFlags', label: 'Content Flags', type: 'tags', description: 'Content a moderator should know about (nudity, violence, weapons, drugs, ...); empty if none', role: null },
+      { key: 'captionInstagram', label: 'Instagram Caption', type: 'longText', description: 'An Instagram caption with a few hashtags', role: null },
+      { key: 'captionX', label: 'X Caption', type: 'longText', description: 'A post for X (Twitter), under 280 characters', role: null },
+      { key: 'captionShop', label: 'Shop Description', type: 'longText', description: 'Two or three sentences of product copy for the listing', role: null },
+    ],
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_TEMPLATE_ID = BUILT_IN_TEMPLATES[0].id;
+
+export const isBuiltInTemplateId = (id: string) => BUILT_IN_TEMPLATES.some(template => template.id === id);
+
+const FIELD_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// What the editor lets through as a field key: a valid JSON/JS identifier
+export const toFieldKey = (text: string) => text.replace(/[^A-Za-z0-9_]/g, '').replace(/^[0-9]+/, '');
+
+// A template can be sent to a model once it has fields and every key is valid and unique
+export const isTemplateUsable = (template: AnalysisTemplate) => {
+  const keys = template.fields.map(field => field.key);
+  return keys.length > 0 && keys.every(key => FIELD_KEY_PATTERN.test(key)) && new Set(keys).size === keys.length;
+};
+
+export const createTemplate = (name: string): AnalysisTemplate => ({
+  id: createId(),
+  name,
+  prompt: '',
+  fields: [{ key: 'title', label: 'Title', type: 'text', description: 'A concise title', role: 'title' }],
+  builtIn: false,
+});
+
+export const duplicateTemplate = (template: AnalysisTemplate, name: string): AnalysisTemplate => ({
+  ...structuredClone(template),
+  id: createId(),
+  name,
+  builtIn: false,
+});
+
+// Built-in fields are labelled from i18n; custom ones show the label their author typed
+export const getFieldLabel = (field: AnalysisField, templateId: string, labels: Record<string, string>) =>
+  (isBuiltInTemplateId(templateId) && labels[field.key]) || field.label || field.key;
+
+const getRoleField = (analysis: AIAnalysis | null, role: AnalysisFieldRole) =>
+  analysis?.fields.find(field => field.role === role && ROLE_FIELD_TYPES[role].includes(field.type));
+
+// Characters Windows, macOS or Linux refuse in a filename
+export const toFilenameBase = (text: string) => text.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-');
+
+const MAX_FILENAME_LENGTH = 120;
+
+// The model's suggestion ends up in download and ZIP entry names: no separators, no `..`,
+// no leading dot (hidden files) and nothing a filesystem trims away
+const sanitizeFilename = (text: string) =>
+  toFilenameBase(text)
+    .replace(/\.{2,}/g, '.')
+    .slice(0, MAX_FILENAME_LENGTH)
+    .replace(/^[\s.-]+|[\s.-]+$/g, '');
+
+// Text of the field playing `role`, or '' when the template has none. Filenames come back
+// sanitized, safe to use as the base of a download name.
+export const getAnalysisText = (analysis: AIAnalysis | null, role: Exclude<AnalysisFieldRole, 'tags'>): string => {
+  const field = getRoleField(analysis, role);
+  const value = field && analysis?.values[field.key];
+  if (typeof value !== 'string') return '';
+  return role === 'filename' ? sanitizeFilename(value) : value;
+};
+
+export const getAnalysisTags = (analysis: AIAnalysis | null): string[] => {
+  const field = getRoleField(analysis, 'tags');
+  const value = field && analysis?.values[field.key];
+  return Array.isArray(value) ? value : [];
+};
+
+const STORAGE_KEY = 'optipic.analysisTemplates';
+
+interface StoredTemplates {
+  selectedId: string;
+  templates: AnalysisTemplate[]; // Custom templates only
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Drops fields with a bad key or type, repeated keys, and roles the field can't play
+const sanitizeFields = (raw: unknown): AnalysisField[] => {
+  const fields: AnalysisField[] = [];
+  const roles = new Set<AnalysisFieldRole>();
+  (Array.isArray(raw) ? raw : []).forEach(item => {
+    if (!isRecord(item) || typeof item.key !== 'string' || !FIELD_KEY_PATTERN.test(item.key)) return;
+    if (!ANALYSIS_FIELD_TYPES.includes(item.type as AnalysisFieldType)) return;
+    if (fields.some(field => field.key === item.key)) return;
+    const type = item.type as AnalysisFieldType;
+    const role = item.role as AnalysisFieldRole;
+    const keepRole = ANALYSIS_FIELD_ROLES.includes(role) && ROLE_FIELD_TYPES[role].includes(type) && !roles.has(role);
+    if (keepRole) roles.add(role);
+    fields.push({
+      key: item.key,
+      label: typeof item.label === 'string' ? item.label : item.key,
+      type,
+      description: typeof item.description === 'string' ? item.description : '',
+      role: keepRole ? role : null,
+    });
+  });
+  return fields;
+};
+
+const sanitizeTemplate = (raw: unknown): AnalysisTemplate | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string') return null;
+  const id = typeof raw.id === 'string' && raw.id && !isBuiltInTemplateId(raw.id) ? raw.id : createId();
+  return {
+    id,
+    name: raw.name,
+    prompt: typeof raw.prompt === 'string' ? raw.prompt : '',
+    fields: sanitizeFields(raw.fields),
+    builtIn: false,
+  };
+};
+
+export const loadStoredTemplates = (): StoredTemplates => {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    const raw: unknown = text ? JSON.parse(text) : null;
+    if (!isRecord(raw)) return { selectedId: DEFAULT_TEMPLATE_ID, templates: [] };
+    const templates = (Array.isArray(raw.templates) ? raw.templates : [])
+      .map(sanitizeTemplate)
+      .filter((template): template is AnalysisTemplate => template !== null);
+    const known = [...BUILT_IN_TEMPLATES, ...templates].some(template => template.id === raw.selectedId);
+    return { selectedId: known ? raw.selectedId as string : DEFAULT_TEMPLATE_ID, templates };
+  } catch (e) {
+    console.warn("Could not load analysis templates", e);
+    return { selectedId: DEFAULT_TEMPLATE_ID, templates: [] };
+  }
+};
+
+export const storeTemplates = (stored: StoredTemplates) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    // Private browsing or quota exceeded: templates still work for this session
+    console.warn("Could not save analysis templates", e);
+  }
+};
@@ -0,0 +1,277 @@
+import { Annotation, AnnotationPoint, ImageConfig } from '../types';
+import { getIntermediateDimensions } from './imageUtils';
+
+// Markup layer. Annotations are stored in source pixels and drawn onto the intermediate image
+// (after rotation, flip and straighten, before crop & resize), so they stay attached to the
+// content under any geometry. Text and markers are always drawn upright.
+
+type AnnotationContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+type GeometryConfig = Pick<ImageConfig, 'rotation' | 'straighten' | 'straightenFill' | 'flipHorizontal' | 'flipVertical'>;
+
+// Maps between source pixels and the intermediate image, matching the transform in renderImage
+export interface SourceTransform {
+  angle: number; // Rotation of the content in radians (quarter turns plus straighten)
+  toIntermediate: (point: AnnotationPoint) => AnnotationPoint;
+  toSource: (point: AnnotationPoint) => AnnotationPoint;
+}
+
+export const getSourceTransform = (sourceWidth: number, sourceHeight: number, config: GeometryConfig): SourceTransform => {
+  const { width, height } = getIntermediateDimensions(sourceWidth, sourceHeight, config);
+  const angle = ((config.rotation + (config.straighten || 0)) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const fx = config.flipHorizontal ? -1 : 1;
+  const fy = config.flipVertical ? -1 : 1;
+  return {
+    angle,
+    toIntermediate: ({ x, y }) => {
+      const dx = (x - sourceWidth / 2) * fx;
+      const dy = (y - sourceHeight / 2) * fy;
+      return { x: width / 2 + dx * cos - dy * sin, y: height / 2 + dx * sin + dy * cos };
+    },
+    toSource: ({ x, y }) => {
+      const dx = x - width / 2;
+      const dy = y - height / 2;
+      return { x: sourceWidth / 2 + (dx * cos + dy * sin) * fx, y: sourceHeight / 2 + (dy * cos - dx * sin) * fy };
+    },
+  };
+};
+
+// A line width that reads well at the image's size, for new annotations
+export const getDefaultAnnotationSize = (width: number, height: number) =>
+  Math.max(2, Math.round(Math.min(width, height) / 250));
+
+const getFontSize = (annotation: Annotation) => annotation.size * 6;
+const getMarkerRadius = (annotation: Annotation) => annotation.size * 5;
+const HIGHLIGHTER_WIDTH = 5; // Times the annotation size
+const HIGHLIGHTER_ALPHA = 0.4;
+
+// Black or white, whichever reads better on `color` (#rrggbb)
+const getContrastColor = (color: string) => {
+  const value = parseInt(color.slice(1, 7), 16);
+  const luma = 0.299 * ((value >> 16) & 255) + 0.587 * ((value >> 8) & 255) + 0.114 * (value & 255);
+  return luma > 160 ? '#000000' : '#ffffff';
+};
+
+const getCorners = (a: AnnotationPoint, b: AnnotationPoint): AnnotationPoint[] => [
+  a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y },
+];
+
+// Label box of a text callout, centred on its (intermediate) label position
+const getCalloutBox = (ctx: AnnotationContext, annotation: Annotation, center: AnnotationPoint) => {
+  const fontSize = getFontSize(annotation);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  const lines = annotation.text.split('\n');
+  const padding = fontSize * 0.4;
+  const lineHeight = fontSize * 1.2;
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+  const height = lines.length * lineHeight + padding * 2;
+  return { x: center.x - width / 2, y: center.y - height / 2, width, height, lines, lineHeight, padding };
+};
+
+const tracePath = (ctx: AnnotationContext, points: AnnotationPoint[], close = false) => {
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  if (close) ctx.closePath();
+};
+
+const drawArrow = (ctx: AnnotationContext, tail: AnnotationPoint, head: AnnotationPoint, size: number) => {
+  const angle = Math.atan2(head.y - tail.y, head.x - tail.x);
+  const headLength = Math.max(size * 4, 8);
+  // Stop the shaft inside the head so the round cap doesn't poke through its tip
+  const shaftEnd = { x: head.x - Math.cos(angle) * headLength * 0.8, y: head.y - Math.sin(angle) * headLength * 0.8 };
+  tracePath(ctx, [tail, shaftEnd]);
+  ctx.stroke();
+  tracePath(ctx, [
+    head,
+    { x: head.x - headLength * Math.cos(angle - Math.PI / 7), y: head.y - headLength * Math.sin(angle - Math.PI / 7) },
+    { x: head.x - headLength * Math.cos(angle + Math.PI / 7), y: head.y - headLength * Math.sin(angle + Math.PI / 7) },
+  ], true);
+  ctx.fill();
+};
+
+/** Draw `annotations` onto a canvas holding the intermediate image. */
+export const drawAnnotations = (ctx: AnnotationContext, annotations: Annotation[], transform: SourceTransform) => {
+  let markerNumber = 0;
+  for (const annotation of annotations) {
+    const points = annotation.points.map(transform.toIntermediate);
+    if (points.length === 0) continue;
+    ctx.save();
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineWidth = annotation.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    switch (annotation.tool) {
+      case 'arrow':
+        if (points.length > 1) drawArrow(ctx, points[0], points[1], annotation.size);
+        break;
+      case 'rect':
+        if (points.length > 1) {
+          tracePath(ctx, getCorners(annotation.points[0], annotation.points[1]).map(transform.toIntermediate), true);
+          ctx.stroke();
+        }
+        break;
+      case 'ellipse': {
+        if (points.length < 2) break;
+        const [a, b] = annotation.points;
+        const center = transform.toIntermediate({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+        ctx.beginPath();
+        ctx.ellipse(center.x, center.y, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, transform.angle, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      }
+      case 'highlighter':
+        ctx.globalAlpha = HIGHLIGHTER_ALPHA;
+        ctx.globalCompositeOperation = 'multiply';
+        ctx.lineWidth = annotation.size * HIGHLIGHTER_WIDTH;
+        tracePath(ctx, points);
+        ctx.stroke();
+        break;
+      case 'pen':
+        tracePath(ctx, points);
+        ctx.stroke();
+        break;
+      case 'text': {
+        const label = points[points.length - 1];
+        const box = getCalloutBox(ctx, annotation, label);
+        // Leader line with a dot on the spot pointed at, unless the label sits right on it
+        if (Math.hypot(label.x - points[0].x, label.y - points[0].y) > Math.max(box.width, box.height) / 2) {
+          tracePath(ctx, [points[0], label]);
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.arc(points[0].x, points[0].y, annotation.size * 1.5, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        ctx.beginPath();
+        ctx.roundRect(box.x, box.y, box.width, box.height, box.padding);
+        ctx.fill();
+        ctx.fillStyle = getContrastColor(annotation.color);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        box.lines.forEach((line, i) => {
+          ctx.fillText(line, label.x, box.y + box.padding + box.lineHeight * (i + 0.5));
+        });
+        break;
+      }
+      case 'marker': {
+        markerNumber++;
+        const radius = getMarkerRadius(annotation);
+        ctx.beginPath();
+        ctx.arc(points[0].x, points[0].y, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = getContrastColor(annotation.color);
+        ctx.font = `bold ${radius * 1.2}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(markerNumber), points[0].x, points[0].y);
+        break;
+      }
+    }
+    ctx.restore();
+  }
+};
+
+const distanceToSegment = (p: AnnotationPoint, a: AnnotationPoint, b: AnnotationPoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const distanceToPath = (p: AnnotationPoint, points: AnnotationPoint[], close = false) => {
+  if (points.length === 1) return Math.hypot(p.x - points[0].x, p.y - points[0].y);
+  let distance = Infinity;
+  const count = close ? points.length : points.length - 1;
+  for (let i = 0; i < count; i++) {
+    distance = Math.min(distance, distanceToSegment(p, points[i], points[(i + 1) % points.length]));
+  }
+  return distance;
+};
+
+/**
+ * Topmost annotation under `point` (intermediate pixels), or null. Shapes are hit on their
+ * outline, within `tolerance` pixels, so objects inside a frame stay selectable.
+ */
+export const findAnnotationAt = (
+  ctx: AnnotationContext,
+  annotations: Annotation[],
+  transform: SourceTransform,
+  point: AnnotationPoint,
+  tolerance: number
+): Annotation | null => {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+    const points = annotation.points.map(transform.toIntermediate);
+    if (points.length === 0) continue;
+    const reach = tolerance + annotation.size / 2;
+    let hit = false;
+    switch (annotation.tool) {
+      case 'arrow':
+      case 'pen':
+        hit = distanceToPath(point, points) <= reach;
+        break;
+      case 'highlighter':
+        hit = distanceToPath(point, points) <= tolerance + (annotation.size * HIGHLIGHTER_WIDTH) / 2;
+        break;
+      case 'rect':
+        hit = points.length > 1 &&
+          distanceToPath(point, getCorners(annotation.points[0], annotation.points[1]).map(transform.toIntermediate), true) <= reach;
+        break;
+      case 'ellipse': {
+        if (points.length < 2) break;
+        const [a, b] = annotation.points;
+        const p = transform.toSource(point);
+        const rx = Math.abs(b.x - a.x) / 2;
+        const ry = Math.abs(b.y - a.y) / 2;
+        const nx = (p.x - (a.x + b.x) / 2) / Math.max(rx, 1);
+        const ny = (p.y - (a.y + b.y) / 2) / Math.max(ry, 1);
+        hit = Math.abs(Math.hypot(nx, ny) - 1) * Math.max(Math.min(rx, ry), 1) <= reach;
+        break;
+      }
+      case 'text': {
+        const box = getCalloutBox(ctx, annotation, points[points.length - 1]);
+        hit = (point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height) ||
+          distanceToPath(point, points) <= reach;
+        break;
+      }
+      case 'marker':
+        hit = Math.hypot(point.x - points[0].x, point.y - points[0].y) <= getMarkerRadius(annotation) + tolerance;
+        break;
+    }
+    if (hit) return annotation;
+  }
+  return null;
+};
+
+/** Bounding box of an annotation in intermediate pixels, e.g. for a selection frame. */
+export const getAnnotationBounds = (ctx: AnnotationContext, annotation: Annotation, transform: SourceTransform) => {
+  let points = annotation.points.map(transform.toIntermediate);
+  let margin = annotation.size / 2;
+  if (annotation.tool === 'rect' || annotation.tool === 'ellipse') {
+    points = getCorners(annotation.points[0], annotation.points[1] ?? annotation.points[0]).map(transform.toIntermediate);
+  } else if (annotation.tool === 'highlighter') {
+    margin = (annotation.size * HIGHLIGHTER_WIDTH) / 2;
+  } else if (annotation.tool === 'marker') {
+    margin = getMarkerRadius(annotation);
+  } else if (annotation.tool === 'text') {
+    const box = getCalloutBox(ctx, annotation, points[points.length - 1]);
+    points = [...points, { x: box.x, y: box.y }, { x: box.x + box.width, y: box.y + box.height }];
+  }
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return {
+    x: Math.min(...xs) - margin,
+    y: Math.min(...ys) - margin,
+    width: Math.max(...xs) - Math.min(...xs) + margin * 2,
+    height: Math.max(...ys) - Math.min(...ys) + margin * 2,
+  };
+};
+
+export const moveAnnotation = (annotation: Annotation, dx: number, dy: number): Annotation => ({
+  ...annotation,
+  points: annotation.points.map(p => ({ x: p.x + dx, y: p.y + dy })),
+});
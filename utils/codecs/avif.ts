@@ -0,0 +1,29 @@
+import { ImageDecoder, ImageEncoder } from './types';
+
+// AVIF through the Squoosh libaom/dav1d WASM builds. Canvas can't encode AVIF in most
+// browsers, and older ones can't decode it either. The modules load on first use.
+
+export const avifEncoder: ImageEncoder = {
+  format: 'image/avif',
+  lossy: true,
+  encode: async (image, { quality }) => {
+    const { default: encode } = await import('@jsquash/avif/encode.js');
+    const buffer = await encode(image, { quality: Math.round(quality * 100) });
+    return new Blob([buffer], { type: 'image/avif' });
+  },
+};
+
+export const avifDecoder: ImageDecoder = {
+  name: 'AVIF',
+  // ISO-BMFF "ftyp" box with an AVIF major brand
+  canDecode: (bytes) => {
+    const brand = String.fromCharCode(...bytes.subarray(8, 12));
+    return String.fromCharCode(...bytes.subarray(4, 8)) === 'ftyp' && (brand === 'avif' || brand === 'avis');
+  },
+  decode: async (bytes) => {
+    const { default: decode } = await import('@jsquash/avif/decode.js');
+    const image = await decode(bytes.slice().buffer);
+    if (!image) throw new Error('AVIF decoding failed');
+    return image;
+  },
+};
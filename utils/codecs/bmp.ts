@@ -0,0 +1,54 @@
+import { ImageEncoder } from './types';
+
+// 32-bit BMP with a BITMAPV4HEADER, so the alpha channel survives (BI_BITFIELDS masks).
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 108;
+const PIXELS_PER_METER = 2835; // 72 dpi
+
+export const encodeBmp = (image: ImageData): Blob => {
+  const { width, height, data } = image;
+  const offset = FILE_HEADER_SIZE + INFO_HEADER_SIZE;
+  const bytes = new Uint8Array(offset + width * height * 4);
+  const view = new DataView(bytes.buffer);
+
+  // BITMAPFILEHEADER
+  bytes[0] = 0x42; // "BM"
+  bytes[1] = 0x4d;
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, offset, true);
+
+  // BITMAPV4HEADER
+  view.setUint32(14, INFO_HEADER_SIZE, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true); // Positive: rows stored bottom-up
+  view.setUint16(26, 1, true); // Planes
+  view.setUint16(28, 32, true); // Bits per pixel
+  view.setUint32(30, 3, true); // BI_BITFIELDS
+  view.setUint32(34, width * height * 4, true);
+  view.setInt32(38, PIXELS_PER_METER, true);
+  view.setInt32(42, PIXELS_PER_METER, true);
+  view.setUint32(54, 0x00ff0000, true); // Red mask
+  view.setUint32(58, 0x0000ff00, true); // Green mask
+  view.setUint32(62, 0x000000ff, true); // Blue mask
+  view.setUint32(66, 0xff000000, true); // Alpha mask
+  view.setUint32(70, 0x73524742, true); // LCS_sRGB
+
+  for (let y = 0; y < height; y++) {
+    let p = offset + (height - 1 - y) * width * 4;
+    for (let i = y * width * 4, end = i + width * 4; i < end; i += 4) {
+      bytes[p++] = data[i + 2];
+      bytes[p++] = data[i + 1];
+      bytes[p++] = data[i];
+      bytes[p++] = data[i + 3];
+    }
+  }
+
+  return new Blob([bytes], { type: 'image/bmp' });
+};
+
+export const bmpEncoder: ImageEncoder = {
+  format: 'image/bmp',
+  lossy: false,
+  encode: async (image) => encodeBmp(image),
+};
@@ -0,0 +1,116 @@
+import { EncodeOptions, ImageEncoder } from './types';
+import { quantize } from './quantize';
+
+// GIF89a writer: one frame, a median-cut palette of up to 256 colours, LZW-compressed.
+
+const MAX_CODE = 4096;
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  // Codes are packed least significant bit first
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full: start over rather than keep using a stale dictionary
+      emit(clearCode);
+      table = new Map<number, number>();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return new Uint8Array(out);
+};
+
+export const encodeGif = (image: ImageData, options: Pick<EncodeOptions, 'colors' | 'dither'>): Blob => {
+  const { width, height } = image;
+  if (width > 0xffff || height > 0xffff) throw new Error('GIF images are limited to 65535 px per side');
+
+  const { palette, indices, transparentIndex } = quantize(image, {
+    maxColors: options.colors || 256,
+    dither: options.dither,
+    alpha: 'binary',
+  });
+  const entries = Math.max(1, palette.length / 4);
+  const tableBits = Math.max(1, Math.ceil(Math.log2(entries)));
+  const minCodeSize = Math.max(2, tableBits);
+
+  const bytes: number[] = [];
+  const push16 = (value: number) => bytes.push(value & 0xff, value >> 8);
+
+  bytes.push(...Array.from('GIF89a', c => c.charCodeAt(0)));
+  // Logical screen descriptor with a global colour table
+  push16(width);
+  push16(height);
+  bytes.push(0x80 | ((tableBits - 1) << 4) | (tableBits - 1), 0, 0);
+  for (let i = 0; i < 1 << tableBits; i++) {
+    bytes.push(palette[i * 4] || 0, palette[i * 4 + 1] || 0, palette[i * 4 + 2] || 0);
+  }
+
+  if (transparentIndex >= 0) {
+    // Graphic control extension: no delay, transparent colour flag set
+    bytes.push(0x21, 0xf9, 0x04, 0x01, 0, 0, transparentIndex, 0);
+  }
+
+  // Image descriptor covering the whole screen
+  bytes.push(0x2c);
+  push16(0);
+  push16(0);
+  push16(width);
+  push16(height);
+  bytes.push(0, minCodeSize);
+
+  const header = new Uint8Array(bytes);
+  const compressed = lzwEncode(indices, minCodeSize);
+  // Image data goes out in sub-blocks of at most 255 bytes
+  const blocks = new Uint8Array(compressed.length + Math.ceil(compressed.length / 255) + 2);
+  let p = 0;
+  for (let i = 0; i < compressed.length; i += 255) {
+    const size = Math.min(255, compressed.length - i);
+    blocks[p++] = size;
+    blocks.set(compressed.subarray(i, i + size), p);
+    p += size;
+  }
+  blocks[p++] = 0; // Block terminator
+  blocks[p++] = 0x3b; // Trailer
+
+  return new Blob([header, blocks.subarray(0, p)], { type: 'image/gif' });
+};
+
+export const gifEncoder: ImageEncoder = {
+  format: 'image/gif',
+  lossy: false,
+  encode: async (image, options) => encodeGif(image, options),
+};
@@ -0,0 +1,31 @@
+import { ImageDecoder } from './types';
+
+// HEIC/HEIF (iPhone photos) through libheif compiled to WASM. Only Safari decodes
+// these natively. The ~2 MB module loads on first use.
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+export const heicDecoder: ImageDecoder = {
+  name: 'HEIC',
+  canDecode: (bytes) =>
+    String.fromCharCode(...bytes.subarray(4, 8)) === 'ftyp' &&
+    HEIF_BRANDS.includes(String.fromCharCode(...bytes.subarray(8, 12))),
+  decode: async (bytes) => {
+    const { default: factory } = await import('libheif-js/libheif-wasm/libheif-bundle.mjs');
+    const libheif = factory();
+    const images = new libheif.HeifDecoder().decode(bytes);
+    try {
+      // Bursts and live photos hold several images; rotation and mirroring from the container are applied
+      const image = images.find(candidate => candidate.is_primary()) || images[0];
+      if (!image) throw new Error('No image found in HEIF file');
+
+      const output = new ImageData(image.get_width(), image.get_height());
+      await new Promise<void>((resolve, reject) => {
+        image.display(output, result => (result ? resolve() : reject(new Error('HEIF decoding failed'))));
+      });
+      return output;
+    } finally {
+      images.forEach(image => image.free());
+    }
+  },
+};
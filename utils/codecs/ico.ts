@@ -0,0 +1,61 @@
+import { ImageEncoder } from './types';
+import { encodePng } from './png';
+import { resampleImageData } from '../resample';
+
+// Multi-resolution ICO for favicons and app icons. Every entry is a PNG, which all
+// browsers and Windows Vista+ accept at any size.
+
+export const ICO_SIZES = [16, 32, 48, 64, 128, 256];
+
+// Centre the image on a transparent square so non-square sources aren't distorted
+const padToSquare = (image: ImageData): ImageData => {
+  const side = Math.max(image.width, image.height);
+  if (image.width === image.height) return image;
+  const square = new ImageData(side, side);
+  const left = Math.floor((side - image.width) / 2);
+  const top = Math.floor((side - image.height) / 2);
+  for (let y = 0; y < image.height; y++) {
+    const row = image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4);
+    square.data.set(row, ((top + y) * side + left) * 4);
+  }
+  return square;
+};
+
+export const encodeIco = async (image: ImageData): Promise<Blob> => {
+  const square = padToSquare(image);
+  const side = square.width;
+  const sizes = ICO_SIZES.filter(size => size <= side);
+  if (sizes.length === 0) sizes.push(side);
+
+  // One stepwise reduction to the largest entry, then a sharp filter for the small ones
+  const largest = sizes[sizes.length - 1];
+  const base = largest === side ? square : resampleImageData(square, largest, largest, 'stepwise');
+  const pngs = await Promise.all(sizes.map(async size => {
+    const pixels = size === largest ? base : resampleImageData(base, size, size, 'lanczos3');
+    return new Uint8Array(await (await encodePng(pixels)).arrayBuffer());
+  }));
+
+  const header = new Uint8Array(6 + sizes.length * 16);
+  const view = new DataView(header.buffer);
+  view.setUint16(2, 1, true); // Type: icon
+  view.setUint16(4, sizes.length, true);
+  let offset = header.length;
+  sizes.forEach((size, index) => {
+    const p = 6 + index * 16;
+    header[p] = size >= 256 ? 0 : size; // 0 means 256
+    header[p + 1] = size >= 256 ? 0 : size;
+    view.setUint16(p + 4, 1, true); // Color planes
+    view.setUint16(p + 6, 32, true); // Bits per pixel
+    view.setUint32(p + 8, pngs[index].length, true);
+    view.setUint32(p + 12, offset, true);
+    offset += pngs[index].length;
+  });
+
+  return new Blob([header, ...pngs], { type: 'image/x-icon' });
+};
+
+export const icoEncoder: ImageEncoder = {
+  format: 'image/x-icon',
+  lossy: false,
+  encode: (image) => encodeIco(image),
+};
@@ -0,0 +1,45 @@
+import { ImageConfig } from '../../types';
+import { ImageDecoder, ImageEncoder } from './types';
+import { avifDecoder, avifEncoder } from './avif';
+import { bmpEncoder } from './bmp';
+import { gifEncoder } from './gif';
+import { heicDecoder } from './heic';
+import { icoEncoder } from './ico';
+import { encodePng, pngEncoder } from './png';
+import { decodeTiff, tiffDecoder, tiffEncoder } from './tiff';
+
+export type { EncodeEffort, EncodeOptions, ImageDecoder, ImageEncoder } from './types';
+
+// Codec registry. The pipeline asks here before falling back to the canvas, so a format
+// gets supported by registering an encoder/decoder - nothing else needs to change.
+
+const encoders = new Map<ImageConfig['format'], ImageEncoder>();
+const decoders: ImageDecoder[] = [];
+
+export const registerEncoder = (encoder: ImageEncoder) => {
+  encoders.set(encoder.format, encoder);
+};
+
+export const registerDecoder = (decoder: ImageDecoder) => {
+  decoders.push(decoder);
+};
+
+export const getEncoder = (format: ImageConfig['format']): ImageEncoder | null => encoders.get(format) || null;
+
+export const findDecoder = (bytes: Uint8Array): ImageDecoder | null =>
+  decoders.find(decoder => decoder.canDecode(bytes)) || null;
+
+// Whether the quality setting changes the output (JPEG and WebP on the canvas path, AVIF)
+export const isLossyFormat = (format: ImageConfig['format']) => {
+  const encoder = getEncoder(format);
+  return encoder ? encoder.lossy : format === 'image/jpeg' || format === 'image/webp';
+};
+
+// Only Safari shows TIFF in an <img>, so previews of TIFF exports get a PNG rendition
+export const getDisplayableBlob = async (blob: Blob): Promise<Blob> =>
+  blob.type === 'image/tiff'
+    ? encodePng(await decodeTiff(new Uint8Array(await blob.arrayBuffer())), { colors: 0, dither: false, effort: 'fast' })
+    : blob;
+
+[pngEncoder, avifEncoder, gifEncoder, bmpEncoder, tiffEncoder, icoEncoder].forEach(registerEncoder);
+[heicDecoder, avifDecoder, tiffDecoder].forEach(registerDecoder);
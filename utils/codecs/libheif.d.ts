@@ -0,0 +1,23 @@
+// The pre-bundled ES build of libheif-js ships without typings; this covers the part heic.ts uses.
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  interface DisplayTarget {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+  }
+
+  export interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(target: DisplayTarget, callback: (result: DisplayTarget | null) => void): void;
+    free(): void;
+  }
+
+  export interface LibHeif {
+    HeifDecoder: new () => { decode(buffer: ArrayBufferView | ArrayBuffer): HeifImage[] };
+  }
+
+  const factory: () => LibHeif;
+  export default factory;
+}
@@ -0,0 +1,259 @@
+import { EncodeEffort, ImageEncoder, EncodeOptions } from './types';
+import { clampPaletteSize, quantize } from './quantize';
+import { zlibCompress } from './zlib';
+
+// PNG optimizer. Writes only the chunks needed to display the image (IHDR, PLTE, tRNS,
+// IDAT, IEND), picks the smallest colour type that holds the pixels, optionally reduces
+// them to a palette, and keeps whichever row-filter strategy deflates best.
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const COLOR_TYPE = { rgb: 2, indexed: 3, rgba: 6 };
+
+// Unfiltered scanlines plus the header fields that describe them
+interface RasterPng {
+  width: number;
+  height: number;
+  colorType: number;
+  bitDepth: number;
+  bytesPerPixel: number; // Filter distance; 1 for sub-byte depths
+  stride: number; // Bytes per row
+  pixels: Uint8Array;
+  palette: Uint8Array | null; // RGBA, indexed images only
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Chunk checksum (the same CRC-32 as gzip and ZIP)
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// 'adaptive' picks, per row, the filter with the smallest sum of absolute (signed) residuals.
+// That heuristic suits photos; palette images usually compress best unfiltered.
+const filterScanlines = (raster: RasterPng, strategy: 'none' | 'adaptive'): Uint8Array => {
+  const { pixels, stride, height, bytesPerPixel: bpp } = raster;
+  const out = new Uint8Array((stride + 1) * height);
+  if (strategy === 'none') {
+    for (let y = 0; y < height; y++) out.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    return out;
+  }
+
+  const candidates = Array.from({ length: 5 }, () => new Uint8Array(stride));
+  for (let y = 0; y < height; y++) {
+    const row = pixels.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null;
+    let best = 0;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter < 5; filter++) {
+      const line = candidates[filter];
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const a = i >= bpp ? row[i - bpp] : 0;
+        const b = prev ? prev[i] : 0;
+        const c = prev && i >= bpp ? prev[i - bpp] : 0;
+        let value = row[i];
+        switch (filter) {
+          case 1: value -= a; break;
+          case 2: value -= b; break;
+          case 3: value -= (a + b) >> 1; break;
+          case 4: value -= paeth(a, b, c); break;
+        }
+        value &= 0xff;
+        line[i] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        best = filter;
+      }
+    }
+
+    out[y * (stride + 1)] = best;
+    out.set(candidates[best], y * (stride + 1) + 1);
+  }
+  return out;
+};
+
+const toTruecolor = (image: ImageData): RasterPng => {
+  const { width, height, data } = image;
+  let opaque = true;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) {
+      opaque = false;
+      break;
+    }
+  }
+  const bytesPerPixel = opaque ? 3 : 4;
+  let pixels: Uint8Array;
+  if (opaque) {
+    pixels = new Uint8Array(width * height * 3);
+    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+      pixels[j] = data[i];
+      pixels[j + 1] = data[i + 1];
+      pixels[j + 2] = data[i + 2];
+    }
+  } else {
+    pixels = new Uint8Array(data.buffer, data.byteOffset, data.length);
+  }
+  return {
+    width,
+    height,
+    colorType: opaque ? COLOR_TYPE.rgb : COLOR_TYPE.rgba,
+    bitDepth: 8,
+    bytesPerPixel,
+    stride: width * bytesPerPixel,
+    pixels,
+    palette: null,
+  };
+};
+
+// Exact palette when the image has at most maxColors distinct RGBA values, otherwise null.
+// Fully transparent pixels all count as one colour, whatever RGB they carry.
+const findExactPalette = (image: ImageData, maxColors: number): { palette: Uint8Array; indices: Uint8Array } | null => {
+  const { data } = image;
+  const pixels = new Uint32Array(data.buffer, data.byteOffset, image.width * image.height);
+  const lookup = new Map<number, number>();
+  const indices = new Uint8Array(pixels.length);
+  for (let p = 0; p < pixels.length; p++) {
+    const color = data[p * 4 + 3] === 0 ? 0 : pixels[p];
+    let index = lookup.get(color);
+    if (index === undefined) {
+      if (lookup.size === maxColors) return null;
+      index = lookup.size;
+      lookup.set(color, index);
+    }
+    indices[p] = index;
+  }
+  const palette = new Uint8Array(lookup.size * 4);
+  const view = new Uint32Array(palette.buffer);
+  lookup.forEach((index, color) => { view[index] = color; });
+  return { palette, indices };
+};
+
+const toIndexed = (width: number, height: number, palette: Uint8Array, indices: Uint8Array): RasterPng => {
+  const count = palette.length / 4;
+  // Translucent entries first, so the tRNS chunk can stop at the last of them
+  const order = Array.from({ length: count }, (_, i) => i)
+    .sort((a, b) => (palette[a * 4 + 3] === 255 ? 1 : 0) - (palette[b * 4 + 3] === 255 ? 1 : 0));
+  const remap = new Uint8Array(count);
+  const sorted = new Uint8Array(palette.length);
+  order.forEach((from, to) => {
+    remap[from] = to;
+    sorted.set(palette.subarray(from * 4, from * 4 + 4), to * 4);
+  });
+
+  const bitDepth = count <= 2 ? 1 : count <= 4 ? 2 : count <= 16 ? 4 : 8;
+  const perByte = 8 / bitDepth;
+  const stride = Math.ceil(width / perByte);
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = remap[indices[y * width + x]];
+      // Sub-byte pixels are packed from the most significant bits
+      pixels[y * stride + Math.floor(x / perByte)] |= index << (8 - bitDepth * ((x % perByte) + 1));
+    }
+  }
+  return { width, height, colorType: COLOR_TYPE.indexed, bitDepth, bytesPerPixel: 1, stride, pixels, palette: sorted };
+};
+
+const writePng = async (raster: RasterPng, effort: EncodeEffort): Promise<Blob> => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, raster.width);
+  view.setUint32(4, raster.height);
+  header[8] = raster.bitDepth;
+  header[9] = raster.colorType;
+
+  const chunks = [new Uint8Array(SIGNATURE), createChunk('IHDR', header)];
+  if (raster.palette) {
+    const count = raster.palette.length / 4;
+    const rgb = new Uint8Array(count * 3);
+    let translucent = 0;
+    for (let i = 0; i < count; i++) {
+      rgb.set(raster.palette.subarray(i * 4, i * 4 + 3), i * 3);
+      if (raster.palette[i * 4 + 3] !== 255) translucent = i + 1;
+    }
+    chunks.push(createChunk('PLTE', rgb));
+    if (translucent > 0) {
+      const alpha = new Uint8Array(translucent);
+      for (let i = 0; i < translucent; i++) alpha[i] = raster.palette[i * 4 + 3];
+      chunks.push(createChunk('tRNS', alpha));
+    }
+  }
+
+  // Try both filter strategies and keep the smaller stream; previews go with the usual winner
+  const strategies: ('none' | 'adaptive')[] = effort === 'best' ? ['none', 'adaptive'] : [raster.palette ? 'none' : 'adaptive'];
+  const attempts = await Promise.all(
+    strategies.map(strategy => zlibCompress(filterScanlines(raster, strategy), effort))
+  );
+  const idat = attempts.reduce((best, attempt) => (attempt.length < best.length ? attempt : best));
+  chunks.push(createChunk('IDAT', idat), createChunk('IEND', new Uint8Array(0)));
+
+  return new Blob(chunks, { type: 'image/png' });
+};
+
+/**
+ * Encode pixels as an optimized PNG. With colors = 0 the output is lossless (indexed only
+ * when the image has 256 colours or fewer); otherwise it is quantized to at most that many.
+ */
+export const encodePng = async (
+  image: ImageData,
+  options: Pick<EncodeOptions, 'colors' | 'dither' | 'effort'> = { colors: 0, dither: false, effort: 'best' }
+): Promise<Blob> => {
+  const { width, height } = image;
+  const { effort } = options;
+  const colors = options.colors ? clampPaletteSize(options.colors) : 0;
+  const exact = findExactPalette(image, colors || 256);
+  if (exact) {
+    const indexed = await writePng(toIndexed(width, height, exact.palette, exact.indices), effort);
+    if (colors || effort === 'fast') return indexed;
+    // Lossless: a palette usually wins, but not always
+    const truecolor = await writePng(toTruecolor(image), effort);
+    return truecolor.size < indexed.size ? truecolor : indexed;
+  }
+  if (!colors) return writePng(toTruecolor(image), effort);
+
+  const { palette, indices } = quantize(image, { maxColors: colors, dither: options.dither, alpha: 'full' });
+  return writePng(toIndexed(width, height, palette, indices), effort);
+};
+
+export const pngEncoder: ImageEncoder = {
+  format: 'image/png',
+  lossy: false,
+  fastEffort: true,
+  encode: (image, options) => encodePng(image, options),
+};
@@ -0,0 +1,185 @@
+// Palette reduction for indexed formats: median cut over a reduced-precision RGBA histogram,
+// then nearest-colour mapping with optional Floyd–Steinberg error diffusion.
+
+export interface QuantizedImage {
+  palette: Uint8Array; // RGBA, 4 bytes per entry
+  indices: Uint8Array; // One palette index per pixel
+  transparentIndex: number; // -1 when no pixel is transparent
+}
+
+export interface QuantizeOptions {
+  maxColors: number; // 2 - 256, including the transparent entry
+  dither: boolean;
+  // 'binary' for formats with a single transparent colour (GIF): alpha below 128 becomes
+  // transparent, the rest opaque. 'full' keeps translucent palette entries (PNG tRNS).
+  alpha: 'binary' | 'full';
+}
+
+// Histogram buckets: 5 bits per colour channel, 3 bits of alpha
+const BUCKETS = 1 << 18;
+const CHANNEL_SHIFTS = [13, 8, 3, 0];
+const CHANNEL_MASKS = [31, 31, 31, 7];
+
+const bucketOf = (r: number, g: number, b: number, a: number) =>
+  ((r >> 3) << 13) | ((g >> 3) << 8) | ((b >> 3) << 3) | (a >> 5);
+
+// Channel value on a common 0-31 scale, so alpha ranges compare with colour ranges
+const channelOf = (bucket: number, channel: number) => {
+  const value = (bucket >> CHANNEL_SHIFTS[channel]) & CHANNEL_MASKS[channel];
+  return channel === 3 ? value << 2 : value;
+};
+
+interface Box {
+  buckets: number[];
+  population: number;
+  range: number;
+  channel: number; // Channel with the widest range: 0 = R, 1 = G, 2 = B, 3 = A
+}
+
+const makeBox = (buckets: number[], counts: Uint32Array): Box => {
+  let population = 0;
+  const min = [31, 31, 31, 31];
+  const max = [0, 0, 0, 0];
+  for (const bucket of buckets) {
+    population += counts[bucket];
+    for (let c = 0; c < 4; c++) {
+      const value = channelOf(bucket, c);
+      if (value < min[c]) min[c] = value;
+      if (value > max[c]) max[c] = value;
+    }
+  }
+  const ranges = max.map((value, c) => value - min[c]);
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return { buckets, population, range: ranges[channel], channel };
+};
+
+// Split the box at the population median along its widest channel
+const splitBox = (box: Box, counts: Uint32Array): [Box, Box] => {
+  const sorted = [...box.buckets].sort((a, b) => channelOf(a, box.channel) - channelOf(b, box.channel));
+  let seen = 0;
+  let cut = 1;
+  for (; cut < sorted.length - 1; cut++) {
+    seen += counts[sorted[cut - 1]];
+    if (seen >= box.population / 2) break;
+  }
+  return [makeBox(sorted.slice(0, cut), counts), makeBox(sorted.slice(cut), counts)];
+};
+
+export const clampPaletteSize = (colors: number) => Math.min(256, Math.max(2, Math.round(colors)));
+
+export const quantize = (image: ImageData, options: QuantizeOptions): QuantizedImage => {
+  const { data, width, height } = image;
+  const maxColors = clampPaletteSize(options.maxColors);
+  const binary = options.alpha === 'binary';
+  // Pixels below this alpha map to the dedicated transparent entry
+  const transparentBelow = binary ? 128 : 1;
+  const counts = new Uint32Array(BUCKETS);
+  const sums = new Float64Array(BUCKETS * 4);
+  let hasTransparency = false;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < transparentBelow) {
+      hasTransparency = true;
+      continue;
+    }
+    const alpha = binary ? 255 : data[i + 3];
+    const bucket = bucketOf(data[i], data[i + 1], data[i + 2], alpha);
+    counts[bucket]++;
+    sums[bucket * 4] += data[i];
+    sums[bucket * 4 + 1] += data[i + 1];
+    sums[bucket * 4 + 2] += data[i + 2];
+    sums[bucket * 4 + 3] += alpha;
+  }
+
+  const occupied: number[] = [];
+  for (let bucket = 0; bucket < BUCKETS; bucket++) {
+    if (counts[bucket] > 0) occupied.push(bucket);
+  }
+
+  // The transparent entry takes one of the slots
+  const colorSlots = Math.max(1, maxColors - (hasTransparency ? 1 : 0));
+  const boxes = occupied.length > 0 ? [makeBox(occupied, counts)] : [];
+  while (boxes.length < colorSlots) {
+    // Split where it reduces the error most: many pixels spread over a wide range
+    let target = -1;
+    let score = 0;
+    boxes.forEach((box, index) => {
+      const boxScore = box.buckets.length > 1 ? box.population * box.range : 0;
+      if (boxScore > score) {
+        score = boxScore;
+        target = index;
+      }
+    });
+    if (target < 0) break;
+    boxes.splice(target, 1, ...splitBox(boxes[target], counts));
+  }
+
+  const colorCount = boxes.length;
+  const transparentIndex = hasTransparency ? colorCount : -1;
+  const palette = new Uint8Array((colorCount + (hasTransparency ? 1 : 0)) * 4);
+  boxes.forEach((box, index) => {
+    const total = [0, 0, 0, 0];
+    for (const bucket of box.buckets) {
+      for (let c = 0; c < 4; c++) total[c] += sums[bucket * 4 + c];
+    }
+    for (let c = 0; c < 4; c++) palette[index * 4 + c] = Math.round(total[c] / box.population);
+  });
+
+  // Nearest palette entry, cached per histogram bucket
+  const cache = new Int16Array(BUCKETS).fill(-1);
+  const nearest = (r: number, g: number, b: number, a: number) => {
+    const bucket = bucketOf(r, g, b, a);
+    if (cache[bucket] >= 0) return cache[bucket];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colorCount; i++) {
+      const dr = palette[i * 4] - r;
+      const dg = palette[i * 4 + 1] - g;
+      const db = palette[i * 4 + 2] - b;
+      const da = palette[i * 4 + 3] - a;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3 + da * da * 4; // Rough perceptual weighting
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[bucket] = best;
+    return best;
+  };
+
+  const indices = new Uint8Array(width * height);
+  // Error carried to the current and the next row, 4 channels per pixel (with one pixel of padding each side)
+  let current = new Float32Array((width + 2) * 4);
+  let next = new Float32Array((width + 2) * 4);
+  const value = (i: number, e: number) =>
+    Math.round(Math.min(255, Math.max(0, data[i] + (options.dither ? current[e] : 0))));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      if (data[i + 3] < transparentBelow || colorCount === 0) {
+        indices[p] = transparentIndex < 0 ? 0 : transparentIndex;
+        continue;
+      }
+      const e = (x + 1) * 4;
+      const pixel = [value(i, e), value(i + 1, e + 1), value(i + 2, e + 2), binary ? 255 : value(i + 3, e + 3)];
+      const index = nearest(pixel[0], pixel[1], pixel[2], pixel[3]);
+      indices[p] = index;
+
+      if (options.dither) {
+        for (let c = 0; c < 4; c++) {
+          const error = pixel[c] - palette[index * 4 + c];
+          current[e + 4 + c] += (error * 7) / 16;
+          next[e - 4 + c] += (error * 3) / 16;
+          next[e + c] += (error * 5) / 16;
+          next[e + 4 + c] += error / 16;
+        }
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+
+  return { palette, indices, transparentIndex };
+};
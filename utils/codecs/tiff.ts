@@ -0,0 +1,343 @@
+import { ImageDecoder, ImageEncoder } from './types';
+import { zlibCompress, zlibDecompress } from './zlib';
+
+// Baseline TIFF: writes single-strip, Deflate-compressed RGB(A); reads the common
+// strip-based variants cameras, scanners and design tools produce.
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  xResolution: 282,
+  yResolution: 283,
+  planarConfig: 284,
+  resolutionUnit: 296,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  extraSamples: 338,
+};
+
+const TYPE = { byte: 1, short: 3, long: 4, rational: 5 };
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const COMPRESSION = { none: 1, lzw: 5, deflate: 8, packBits: 32773, adobeDeflate: 32946 };
+
+// --- Encoding ---
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: number[]; // Rationals as numerator, denominator pairs
+}
+
+export const encodeTiff = async (image: ImageData): Promise<Blob> => {
+  const { width, height, data } = image;
+  let hasAlpha = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) {
+      hasAlpha = true;
+      break;
+    }
+  }
+  const samples = hasAlpha ? 4 : 3;
+  const rowBytes = width * samples;
+
+  // Horizontal differencing (predictor 2) makes smooth rows far more compressible
+  const pixels = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      const dst = y * rowBytes + x * samples;
+      for (let c = 0; c < samples; c++) {
+        pixels[dst + c] = (data[src + c] - (x > 0 ? data[src + c - 4] : 0)) & 0xff;
+      }
+    }
+  }
+  const strip = await zlibCompress(pixels);
+
+  const stripOffset = 8;
+  const entries: IfdEntry[] = [
+    { tag: TAG.width, type: TYPE.long, values: [width] },
+    { tag: TAG.height, type: TYPE.long, values: [height] },
+    { tag: TAG.bitsPerSample, type: TYPE.short, values: new Array(samples).fill(8) },
+    { tag: TAG.compression, type: TYPE.short, values: [COMPRESSION.deflate] },
+    { tag: TAG.photometric, type: TYPE.short, values: [2] }, // RGB
+    { tag: TAG.stripOffsets, type: TYPE.long, values: [stripOffset] },
+    { tag: TAG.samplesPerPixel, type: TYPE.short, values: [samples] },
+    { tag: TAG.rowsPerStrip, type: TYPE.long, values: [height] },
+    { tag: TAG.stripByteCounts, type: TYPE.long, values: [strip.length] },
+    { tag: TAG.xResolution, type: TYPE.rational, values: [72, 1] },
+    { tag: TAG.yResolution, type: TYPE.rational, values: [72, 1] },
+    { tag: TAG.planarConfig, type: TYPE.short, values: [1] },
+    { tag: TAG.resolutionUnit, type: TYPE.short, values: [2] }, // Inch
+    { tag: TAG.predictor, type: TYPE.short, values: [2] },
+  ];
+  if (hasAlpha) entries.push({ tag: TAG.extraSamples, type: TYPE.short, values: [2] }); // Unassociated alpha
+
+  // Layout: header, strip, IFD (word aligned), then values too large to sit in an entry
+  const ifdOffset = stripOffset + strip.length + (strip.length % 2);
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const valueSize = (entry: IfdEntry) => entry.values.length * (entry.type === TYPE.rational ? 4 : TYPE_SIZES[entry.type]);
+  const extraSize = entries.reduce((sum, entry) => sum + (valueSize(entry) > 4 ? valueSize(entry) : 0), 0);
+
+  const bytes = new Uint8Array(ifdOffset + ifdSize + extraSize);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 42, 0]); // "II", little-endian
+  view.setUint32(4, ifdOffset, true);
+  bytes.set(strip, stripOffset);
+
+  view.setUint16(ifdOffset, entries.length, true);
+  let extra = ifdOffset + ifdSize;
+  entries.forEach((entry, index) => {
+    const p = ifdOffset + 2 + index * 12;
+    view.setUint16(p, entry.tag, true);
+    view.setUint16(p + 2, entry.type, true);
+    view.setUint32(p + 4, entry.type === TYPE.rational ? entry.values.length / 2 : entry.values.length, true);
+    const size = valueSize(entry);
+    let q = p + 8;
+    if (size > 4) {
+      view.setUint32(p + 8, extra, true);
+      q = extra;
+      extra += size;
+    }
+    const step = entry.type === TYPE.short ? 2 : 4;
+    entry.values.forEach((value, i) => {
+      if (step === 2) view.setUint16(q + i * 2, value, true);
+      else view.setUint32(q + i * 4, value, true);
+    });
+  });
+  view.setUint32(ifdOffset + 2 + entries.length * 12, 0, true); // No next IFD
+
+  return new Blob([bytes], { type: 'image/tiff' });
+};
+
+export const tiffEncoder: ImageEncoder = {
+  format: 'image/tiff',
+  lossy: false,
+  encode: (image) => encodeTiff(image),
+};
+
+// --- Decoding ---
+
+const readIfd = (view: DataView, offset: number, little: boolean): Map<number, number[]> => {
+  const tags = new Map<number, number[]>();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const p = offset + 2 + i * 12;
+    const tag = view.getUint16(p, little);
+    const type = view.getUint16(p + 2, little);
+    const n = view.getUint32(p + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size || (type !== TYPE.byte && type !== TYPE.short && type !== TYPE.long)) continue;
+    const start = size * n > 4 ? view.getUint32(p + 8, little) : p + 8;
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const q = start + j * size;
+      values.push(size === 1 ? view.getUint8(q) : size === 2 ? view.getUint16(q, little) : view.getUint32(q, little));
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+// TIFF flavour of LZW: codes MSB first, widths 9-12, switching one code early
+const decodeLzw = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  const prefixes = new Uint16Array(4096);
+  const suffixes = new Uint8Array(4096);
+  const firsts = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    suffixes[i] = i;
+    firsts[i] = i;
+    lengths[i] = 1;
+  }
+
+  let outPos = 0;
+  let bitPos = 0;
+  let codeSize = 9;
+  let nextCode = 258;
+  let previous = -1;
+  const totalBits = input.length * 8;
+
+  while (bitPos + codeSize <= totalBits && outPos < expected) {
+    const byte = bitPos >> 3;
+    const window = (input[byte] << 16) | ((input[byte + 1] || 0) << 8) | (input[byte + 2] || 0);
+    const code = (window >> (24 - (bitPos & 7) - codeSize)) & ((1 << codeSize) - 1);
+    bitPos += codeSize;
+
+    if (code === 257) break;
+    if (code === 256) {
+      codeSize = 9;
+      nextCode = 258;
+      previous = -1;
+      continue;
+    }
+    if (previous >= 0 && nextCode < 4096) {
+      prefixes[nextCode] = previous;
+      suffixes[nextCode] = code < nextCode ? firsts[code] : firsts[previous];
+      firsts[nextCode] = firsts[previous];
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+      if (nextCode >= (1 << codeSize) - 1 && codeSize < 12) codeSize++;
+    }
+    if (code >= nextCode) throw new Error('Corrupt TIFF LZW data');
+
+    // Write the string backwards by walking the prefix chain
+    const length = lengths[code];
+    let c = code;
+    for (let i = length - 1; i >= 0; i--) {
+      if (outPos + i < expected) out[outPos + i] = suffixes[c];
+      c = prefixes[c];
+    }
+    outPos += length;
+    previous = code;
+  }
+  return out;
+};
+
+const decodePackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let p = 0;
+  let q = 0;
+  while (p < input.length && q < expected) {
+    const n = (input[p++] << 24) >> 24; // Signed byte
+    if (n >= 0) {
+      out.set(input.subarray(p, p + n + 1).subarray(0, expected - q), q);
+      p += n + 1;
+      q += n + 1;
+    } else if (n !== -128) {
+      out.fill(input[p++], q, Math.min(expected, q + 1 - n));
+      q += 1 - n;
+    }
+  }
+  return out;
+};
+
+const decompressStrip = async (strip: Uint8Array, compression: number, expected: number): Promise<Uint8Array> => {
+  switch (compression) {
+    case COMPRESSION.none: return strip;
+    case COMPRESSION.lzw: return decodeLzw(strip, expected);
+    case COMPRESSION.deflate:
+    case COMPRESSION.adobeDeflate: return zlibDecompress(strip);
+    case COMPRESSION.packBits: return decodePackBits(strip, expected);
+    default: throw new Error(`Unsupported TIFF compression ${compression}`);
+  }
+};
+
+export const decodeTiff = async (bytes: Uint8Array): Promise<ImageData> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const tags = readIfd(view, view.getUint32(4, little), little);
+  const get = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+  const width = get(TAG.width, 0);
+  const height = get(TAG.height, 0);
+  const samples = get(TAG.samplesPerPixel, 1);
+  const bits = get(TAG.bitsPerSample, 1);
+  const photometric = get(TAG.photometric, 1);
+  const compression = get(TAG.compression, COMPRESSION.none);
+  const predictor = get(TAG.predictor, 1);
+  const offsets = tags.get(TAG.stripOffsets);
+  const counts = tags.get(TAG.stripByteCounts);
+
+  if (!width || !height || !offsets || !counts) throw new Error('Incomplete TIFF header');
+  if (tags.has(TAG.tileWidth)) throw new Error('Tiled TIFF files are not supported');
+  if (get(TAG.planarConfig, 1) !== 1) throw new Error('Planar TIFF files are not supported');
+  if (bits !== 8 && bits !== 16) throw new Error(`Unsupported TIFF bit depth ${bits}`);
+
+  const sampleBytes = bits / 8;
+  const rowBytes = width * samples * sampleBytes;
+  const rowsPerStrip = get(TAG.rowsPerStrip, height);
+  const raw = new Uint8Array(rowBytes * height);
+  for (let i = 0; i < offsets.length; i++) {
+    const expected = Math.min(rowsPerStrip, height - i * rowsPerStrip) * rowBytes;
+    if (expected <= 0) break;
+    const strip = await decompressStrip(bytes.subarray(offsets[i], offsets[i] + counts[i]), compression, expected);
+    raw.set(strip.subarray(0, expected), i * rowsPerStrip * rowBytes);
+  }
+
+  const rawView = new DataView(raw.buffer);
+  const sampleAt = (index: number) =>
+    sampleBytes === 1 ? raw[index] : rawView.getUint16(index * 2, little);
+
+  if (predictor === 2) {
+    for (let y = 0; y < height; y++) {
+      for (let i = samples; i < width * samples; i++) {
+        const index = y * width * samples + i;
+        if (sampleBytes === 1) {
+          raw[index] = (raw[index] + raw[index - samples]) & 0xff;
+        } else {
+          rawView.setUint16(index * 2, (sampleAt(index) + sampleAt(index - samples)) & 0xffff, little);
+        }
+      }
+    }
+  }
+
+  // Samples scaled to 8 bits
+  const sample = (index: number) => (sampleBytes === 1 ? raw[index] : sampleAt(index) >> 8);
+  const colorMap = tags.get(TAG.colorMap);
+  const baseSamples = photometric === 2 ? 3 : photometric === 5 ? 4 : 1;
+  const extra = tags.get(TAG.extraSamples)?.[0];
+  const alphaSample = samples > baseSamples && extra !== undefined && extra > 0 ? baseSamples : -1;
+  const premultiplied = extra === 1;
+
+  const image = new ImageData(width, height);
+  const out = image.data;
+  for (let p = 0; p < width * height; p++) {
+    const s = p * samples;
+    const o = p * 4;
+    switch (photometric) {
+      case 0: // WhiteIsZero
+        out[o] = out[o + 1] = out[o + 2] = 255 - sample(s);
+        break;
+      case 1: // BlackIsZero
+        out[o] = out[o + 1] = out[o + 2] = sample(s);
+        break;
+      case 2: // RGB
+        out[o] = sample(s);
+        out[o + 1] = sample(s + 1);
+        out[o + 2] = sample(s + 2);
+        break;
+      case 3: { // Palette: the colour map holds 16-bit R, then G, then B entries
+        if (!colorMap) throw new Error('TIFF palette image without a color map');
+        const index = sampleBytes === 1 ? raw[s] : sampleAt(s);
+        const size = colorMap.length / 3;
+        out[o] = colorMap[index] >> 8;
+        out[o + 1] = colorMap[size + index] >> 8;
+        out[o + 2] = colorMap[size * 2 + index] >> 8;
+        break;
+      }
+      case 5: { // CMYK
+        const k = 255 - sample(s + 3);
+        out[o] = ((255 - sample(s)) * k) / 255;
+        out[o + 1] = ((255 - sample(s + 1)) * k) / 255;
+        out[o + 2] = ((255 - sample(s + 2)) * k) / 255;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported TIFF color space ${photometric}`);
+    }
+    const alpha = alphaSample >= 0 ? sample(s + alphaSample) : 255;
+    out[o + 3] = alpha;
+    if (premultiplied && alpha > 0 && alpha < 255) {
+      for (let c = 0; c < 3; c++) out[o + c] = (out[o + c] * 255) / alpha;
+    }
+  }
+  return image;
+};
+
+export const tiffDecoder: ImageDecoder = {
+  name: 'TIFF',
+  canDecode: (bytes) =>
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42),
+  decode: decodeTiff,
+};
@@ -0,0 +1,27 @@
+import { ImageConfig } from '../../types';
+
+// Contracts for the pluggable codecs in this directory. Encoders cover formats the
+// canvas can't write; decoders cover files createImageBitmap can't read.
+
+// 'fast' is for live previews: same pixels, but a quicker, slightly larger encode
+export type EncodeEffort = 'fast' | 'best';
+
+export interface EncodeOptions {
+  quality: number; // 0.1 to 1.0, ignored by lossless encoders
+  colors: number; // Palette size for indexed output (PNG, GIF); 0 = full colour or the format's maximum
+  dither: boolean; // Error diffusion when reducing to a palette
+  effort: EncodeEffort;
+}
+
+export interface ImageEncoder {
+  format: ImageConfig['format'];
+  lossy: boolean; // Whether quality affects the output (used by the file-size search)
+  fastEffort?: boolean; // Whether 'fast' effort produces a different (larger) file than 'best'
+  encode: (image: ImageData, options: EncodeOptions) => Promise<Blob>;
+}
+
+export interface ImageDecoder {
+  name: string;
+  canDecode: (bytes: Uint8Array) => boolean; // Sniffs the file signature
+  decode: (bytes: Uint8Array) => Promise<ImageData>;
+}
@@ -0,0 +1,12 @@
+import { zlibSync } from 'fflate';
+import { EncodeEffort } from './types';
+
+// zlib-wrapped deflate, as used by PNG and TIFF (compression 8). Compression goes through
+// fflate at its highest level, which beats the browser's fixed default by a few percent
+// (previews use a cheaper level); decompression uses the built-in DecompressionStream.
+
+export const zlibCompress = async (data: Uint8Array, effort: EncodeEffort = 'best'): Promise<Uint8Array> =>
+  effort === 'best' ? zlibSync(data, { level: 9, mem: 12 }) : zlibSync(data, { level: 4 });
+
+export const zlibDecompress = async (data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
@@ -0,0 +1,75 @@
+import { ImageConfig } from '../types';
+
+export type ColorAdjustments = Pick<
+  ImageConfig,
+  'brightness' | 'contrast' | 'saturation' | 'exposure' | 'temperature' | 'tint' | 'gamma'
+>;
+
+export const NEUTRAL_ADJUSTMENTS: ColorAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  temperature: 0,
+  tint: 0,
+  gamma: 1,
+};
+
+export const hasColorAdjustments = (adj: ColorAdjustments): boolean =>
+  (Object.keys(NEUTRAL_ADJUSTMENTS) as (keyof ColorAdjustments)[]).some(
+    key => adj[key] !== NEUTRAL_ADJUSTMENTS[key]
+  );
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+// Per-channel curve for the stages that act on each channel independently:
+// exposure -> white balance gain -> brightness -> contrast. Values stay unclamped
+// so saturation can still work with out-of-range intermediates.
+const buildChannelLUT = (gain: number, adj: ColorAdjustments): Float32Array => {
+  const lut = new Float32Array(256);
+  const exposure = Math.pow(2, adj.exposure);
+  const brightness = adj.brightness / 100 * 0.5;
+  const c = adj.contrast / 100;
+  const contrast = c >= 0 ? 1 + c * 2 : 1 + c; // 0 (flat grey) .. 3
+  for (let i = 0; i < 256; i++) {
+    let v = (i / 255) * exposure * gain;
+    v += brightness;
+    v = (v - 0.5) * contrast + 0.5;
+    lut[i] = v;
+  }
+  return lut;
+};
+
+export const applyColorAdjustments = (imageData: ImageData, adj: ColorAdjustments) => {
+  // White balance: temperature trades red against blue, tint trades green against magenta
+  const temperature = adj.temperature / 100 * 0.3;
+  const tint = adj.tint / 100 * 0.3;
+  const lutR = buildChannelLUT(1 + temperature, adj);
+  const lutG = buildChannelLUT(1 - tint, adj);
+  const lutB = buildChannelLUT(1 - temperature, adj);
+
+  const saturation = 1 + adj.saturation / 100;
+  const gammaLUT = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    gammaLUT[i] = Math.round(Math.pow(i / 255, 1 / adj.gamma) * 255);
+  }
+
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = lutR[data[i]];
+    let g = lutG[data[i + 1]];
+    let b = lutB[data[i + 2]];
+
+    if (saturation !== 1) {
+      // Rec. 709 luma
+      const l = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r = l + (r - l) * saturation;
+      g = l + (g - l) * saturation;
+      b = l + (b - l) * saturation;
+    }
+
+    data[i] = gammaLUT[Math.round(clamp01(r) * 255)];
+    data[i + 1] = gammaLUT[Math.round(clamp01(g) * 255)];
+    data[i + 2] = gammaLUT[Math.round(clamp01(b) * 255)];
+  }
+};
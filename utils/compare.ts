@@ -0,0 +1,54 @@
+import { ImageConfig, ProcessResult } from '../types';
+import { NEUTRAL_ADJUSTMENTS } from './colorUtils';
+import { STRIP_ALL_METADATA } from './metadata';
+import { createCanvas, decodeBitmap, encodeCanvas, getContext2D } from './pipeline';
+
+// Before/after comparison: the original rendered with the export's geometry, so both
+// sides line up pixel for pixel at any zoom, and an amplified difference image.
+
+export type CompareMode = 'split' | 'side' | 'difference';
+
+// Differences of a few levels are what compression artifacts look like; scale them up to be visible
+const DIFFERENCE_GAIN = 8;
+
+// The original with the same rotation, crop and final size as the result, but without tonal
+// adjustments, watermark, annotations or redactions. Encoded as full-colour PNG, the one
+// format every browser writes losslessly, so the difference shows only the export's artifacts.
+export const getCompareConfig = (config: ImageConfig, result: ProcessResult): ImageConfig => ({
+  ...config,
+  ...NEUTRAL_ADJUSTMENTS,
+  targetWidth: result.width,
+  targetHeight: result.height,
+  targetFileSize: 0,
+  format: 'image/png',
+  paletteColors: 0,
+  metadata: STRIP_ALL_METADATA,
+  watermark: { ...config.watermark, type: 'none' },
+  annotations: [],
+  redactions: [],
+});
+
+export const renderDifference = async (before: Blob, after: Blob): Promise<Blob> => {
+  const [a, b] = await Promise.all([decodeBitmap(before), decodeBitmap(after)]);
+  const { width, height } = b;
+  const readPixels = (bitmap: ImageBitmap) => {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas, 'difference');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return { canvas, ctx, pixels: ctx.getImageData(0, 0, width, height) };
+  };
+  const first = readPixels(a);
+  const second = readPixels(b);
+
+  const out = second.pixels.data;
+  const ref = first.pixels.data;
+  for (let i = 0; i < out.length; i += 4) {
+    out[i] = Math.abs(out[i] - ref[i]) * DIFFERENCE_GAIN;
+    out[i + 1] = Math.abs(out[i + 1] - ref[i + 1]) * DIFFERENCE_GAIN;
+    out[i + 2] = Math.abs(out[i + 2] - ref[i + 2]) * DIFFERENCE_GAIN;
+    out[i + 3] = 255;
+  }
+  second.ctx.putImageData(second.pixels, 0, 0);
+  return encodeCanvas(second.canvas, { format: 'image/webp', paletteColors: 0, dither: false }, 1);
+};
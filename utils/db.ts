@@ -0,0 +1,48 @@
+// The app's IndexedDB database, shared by the analysis cache and the watermark logo store.
+// Opened lazily from whichever context needs it: the main thread or the image worker.
+
+const DB_NAME = 'optipic';
+// 1: analyses, 2: logos
+const DB_VERSION = 2;
+
+export const ANALYSES_STORE = 'analyses';
+export const LOGOS_STORE = 'logos';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      if (e.oldVersion < 1) {
+        const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+        store.createIndex('sourceHash', 'sourceHash');
+        store.createIndex('cacheKey', 'cacheKey');
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (e.oldVersion < 2) {
+        db.createObjectStore(LOGOS_STORE);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading: step aside, the next call reopens at the new version
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open (e.g. storage disabled) is retried on the next call
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,76 @@
+import { AIAnalysis, ManifestEntry } from '../types';
+import { getAnalysisTags, getAnalysisText } from './analysisTemplates';
+import { createZip, ZipEntry } from './zip';
+
+export interface ExportItem {
+  filename: string;
+  blob: Blob;
+  analysis?: AIAnalysis | null;
+}
+
+// The full analysis only goes into manifest.json; the CSV has the fields the editor knows
+const MANIFEST_COLUMNS: Exclude<keyof ManifestEntry, 'analysis'>[] = ['filename', 'width', 'height', 'bytes', 'format', 'title', 'altText', 'tags'];
+
+const escapeCSV = (value: string | number) => {
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const buildManifestCSV = (entries: ManifestEntry[]): string => {
+  const rows = entries.map(entry =>
+    MANIFEST_COLUMNS.map(col => {
+      const value = entry[col];
+      return escapeCSV(Array.isArray(value) ? value.join('; ') : value);
+    }).join(',')
+  );
+  return [MANIFEST_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// Make names unique inside the archive: photo.jpg, photo-1.jpg, photo-2.jpg...
+const dedupeFilename = (name: string, used: Set<string>) => {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  for (let i = 1; used.has(candidate); i++) {
+    candidate = `${base}-${i}${ext}`;
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+// `extraFiles` (e.g. markup snippets) are stored as-is next to the images, outside the manifest
+export const createExportZip = async (items: ExportItem[], extraFiles: ZipEntry[] = []): Promise<Blob> => {
+  const used = new Set<string>(['manifest.json', 'manifest.csv', ...extraFiles.map(file => file.name)]);
+  const files: ZipEntry[] = [...extraFiles];
+  const manifest: ManifestEntry[] = [];
+
+  for (const item of items) {
+    const filename = dedupeFilename(item.filename, used);
+    const data = new Uint8Array(await item.blob.arrayBuffer());
+    const bitmap = await createImageBitmap(item.blob);
+    const { width, height } = bitmap;
+    bitmap.close();
+
+    files.push({ name: filename, data });
+    manifest.push({
+      filename,
+      width,
+      height,
+      bytes: data.length,
+      format: item.blob.type,
+      title: getAnalysisText(item.analysis ?? null, 'title'),
+      altText: getAnalysisText(item.analysis ?? null, 'altText'),
+      tags: getAnalysisTags(item.analysis ?? null),
+      analysis: item.analysis?.values || {}
+    });
+  }
+
+  const encoder = new TextEncoder();
+  files.push(
+    { name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { name: 'manifest.csv', data: encoder.encode(buildManifestCSV(manifest)) }
+  );
+
+  return createZip(files);
+};
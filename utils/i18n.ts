@@ -13,26 +13,336 @@ export const translations = {
     rotateR: "Rotate R",
     flipH: "Flip H",
     flipV: "Flip V",
+    straighten: "Straighten",
+    autoCrop: "Auto Crop",
+    fillCorners: "Fill Corners",
+    drawHorizon: "Draw Horizon Line",
+    cancelHorizon: "Cancel",
+    straightenHint: "Draw a line along the horizon",
+    compareModes: {
+      off: "Result",
+      split: "Split",
+      side: "Side by Side",
+      difference: "Difference"
+    },
+    compareOriginal: "Original",
+    compareProcessed: "Processed",
+    differenceHint: "Pixel difference, amplified 8x",
     crop: "Crop",
     resize: "Resize",
+    adjustments: "Adjustments",
+    resetAdjustments: "Reset",
+    adjust: {
+      exposure: "Exposure",
+      brightness: "Brightness",
+      contrast: "Contrast",
+      saturation: "Saturation",
+      temperature: "Temperature",
+      tint: "Tint",
+      gamma: "Gamma"
+    },
     width: "Width (px)",
     height: "Height (px)",
+    resampling: "Resampling",
+    filters: {
+      browser: "Browser default (fast)",
+      lanczos3: "Lanczos3 (sharpest)",
+      bicubic: "Bicubic",
+      bilinear: "Bilinear",
+      stepwise: "Stepwise halving",
+      nearest: "Nearest neighbour (pixel art)"
+    },
     export: "Export Settings",
     format: "Format",
     quality: "Quality",
+    losslessFormat: "This format is lossless; quality has no effect",
+    qualityTitle: "Quality Metrics",
+    qualityHint: "Encoded result compared with the rendered image before encoding. SSIM above 0.98 is usually indistinguishable.",
+    plotCurve: "Plot Size vs. SSIM",
+    curveHint: "Click a point to use its quality.",
+    kneePoint: "Knee",
+    watermarkTitle: "Watermark",
+    watermarkTypes: {
+      none: "None",
+      text: "Text",
+      image: "Logo"
+    },
+    watermarkLayouts: {
+      anchor: "Position",
+      tile: "Tiled"
+    },
+    watermarkTextPlaceholder: "e.g. © Your Brand",
+    watermarkColor: "Text color",
+    watermarkUploadLogo: "Upload Logo",
+    watermarkReplaceLogo: "Replace Logo",
+    watermarkUploadError: "Could not read that image",
+    watermarkSize: "Size",
+    watermarkOpacity: "Opacity",
+    watermarkRotation: "Rotation",
+    watermarkOffsetX: "Horizontal Offset",
+    watermarkOffsetY: "Vertical Offset",
+    watermarkSpacing: "Tile Spacing",
+    watermarkHint: "Sizes are percentages of the image's shorter side, so batch and profile exports are branded alike.",
+    annotateTitle: "Annotations",
+    annotate: "Annotate",
+    annotateDone: "Done",
+    annotateEmpty: "Mark up the image with arrows, shapes, text and numbered steps.",
+    annotationObjects: "object(s) on this image",
+    annotationTools: {
+      select: "Select",
+      arrow: "Arrow",
+      rect: "Box",
+      ellipse: "Ellipse",
+      pen: "Pen",
+      highlighter: "Highlight",
+      text: "Callout",
+      marker: "Step #"
+    },
+    annotationSize: "Line Width",
+    annotationDefaultText: "Note",
+    deleteAnnotation: "Delete",
+    clearAnnotations: "Clear All",
+    annotateHint: "Drag on the image to draw. For callouts, drag from the spot to where the label goes. Select to move or edit; Delete removes.",
+    annotateModeHint: "Annotating: draw on the image",
+    redactTitle: "Redaction",
+    redact: "Redact",
+    redactDone: "Done",
+    redactEmpty: "Hide faces, emails and license plates. Redacted pixels are destroyed in every export.",
+    redactionRegions: "region(s) redacted",
+    redactionStyles: {
+      pixelate: "Pixelate",
+      blur: "Blur",
+      fill: "Fill"
+    },
+    redactionColor: "Fill Color",
+    deleteRedaction: "Delete",
+    clearRedactions: "Clear All",
+    redactHint: "Drag on the image to cover a region. Click a box to select and move it; Delete removes.",
+    redactModeHint: "Redacting: drag boxes over what to hide",
+    autoDetect: "Auto-detect Faces & Text",
+    detecting: "Detecting...",
+    detectError: "Detection failed.",
+    detectNothing: "Nothing to redact was found.",
+    proposalHint: "Proposals aren't applied yet. Untick or click the ones to skip, then confirm.",
+    discardProposals: "Discard",
+    applyProposals: "Redact Selected",
+    smartCropTitle: "Smart Crop",
+    smartCropFind: "Find Subject",
+    smartCropFinding: "Analyzing...",
+    smartCropRefine: "Refine with the AI provider",
+    smartCropHint: "Finds the main subject and keeps it in frame for every crop ratio, including the ratio buttons above.",
+    smartCropByLocal: "Subject found by local edge analysis. Pick a crop to fine-tune it.",
+    smartCropByAI: "Subject found by the AI provider. Pick a crop to fine-tune it.",
+    smartCropRefineFailed: "AI refinement failed, using local analysis.",
+    smartCropError: "Subject detection failed.",
+    aiSettingsTitle: "AI Provider",
+    aiProviders: {
+      gemini: "Gemini",
+      openai: "OpenAI-compatible",
+      mock: "Offline Mock"
+    },
+    aiApiKey: "API Key",
+    aiApiKeyEnvPlaceholder: "Built-in key",
+    aiApiKeyOptional: "Optional",
+    aiModel: "Model",
+    aiBaseUrl: "Base URL",
+    aiOpenAIHint: "Any server with the OpenAI chat completions API and a vision model, e.g. Ollama at http://localhost:11434/v1.",
+    aiMockHint: "Answers from built-in sample data without any network access. Results don't describe your image.",
+    aiKeyStorageHint: "Settings, including API keys, are stored in this browser only.",
+    quantizePalette: "Reduce to a color palette (lossy)",
+    paletteColors: "Colors",
+    dither: "Dithering",
+    pngSavings: "Browser PNG vs optimized",
+    maxQuality: "Max Quality",
+    targetSize: "Target file size",
+    allowDownscale: "Allow downscaling to reach the target",
+    budgetChosen: "Fits",
+    budgetMissed: "Could not reach target",
     aiTitle: "AI Insights",
     analyze: "Analyze Image",
-    analyzing: "Gemini is thinking...",
+    analyzing: "AI is thinking...",
     regenerate: "Regenerate Analysis",
-    suggestedTitle: "Suggested Title",
-    filename: "Filename",
-    altText: "Alt Text",
-    tags: "Tags",
-    aiPrompt: "Generate SEO-optimized titles, tags, and descriptions for your processed image.",
+    forceRefresh: "Force Refresh",
+    analysisFromCache: "Reused the saved analysis from",
+    analysisHistory: "History",
+    deleteAnalysis: "Delete from history",
+    aiPrompt: "Generate SEO-optimized titles, tags, descriptions and any other fields your template asks for.",
+    analysisFieldLabels: {
+      title: "Suggested Title",
+      suggestedFilename: "Filename",
+      description: "Alt Text",
+      tags: "Tags",
+      category: "Product Category",
+      dominantColors: "Dominant Colors",
+      detectedText: "Detected Text",
+      safeForWork: "Safe for Work",
+      safetyFlags: "Content Flags",
+      captionInstagram: "Instagram Caption",
+      captionX: "X Caption",
+      captionShop: "Shop Description"
+    },
+    analysisYes: "Yes",
+    analysisNo: "No",
+    addTag: "Add tag…",
+    copyAsHTML: "Copy <img>",
+    copyAsJSON: "Copy JSON",
+    copyAsMarkdown: "Copy Markdown",
+    templateTitle: "Analysis Template",
+    analysisTemplateNames: {
+      seo: "SEO",
+      product: "Product Listing"
+    },
+    templateNew: "New",
+    templateNewName: "My template",
+    templateUntitled: "(untitled)",
+    templateDuplicate: "Duplicate",
+    templateCopySuffix: "(copy)",
+    templateDelete: "Delete",
+    templateBuiltInHint: "Built-in templates can't be edited. Duplicate one to change its prompt or fields.",
+    templateName: "Name",
+    templatePrompt: "Prompt",
+    templatePromptPlaceholder: "What the model should look at, e.g. \"Describe this product photo for a shop listing.\"",
+    templateFields: "Fields",
+    templateFieldKey: "key",
+    templateFieldLabel: "Label",
+    templateFieldDescription: "Instruction for the model",
+    templateRemoveField: "Remove field",
+    templateAddField: "+ Add Field",
+    templateNoRole: "No role",
+    analysisFieldTypes: {
+      text: "Text",
+      longText: "Paragraph",
+      tags: "List",
+      boolean: "Yes / No",
+      number: "Number"
+    },
+    analysisFieldRoles: {
+      title: "Title",
+      altText: "Alt text",
+      tags: "Tags",
+      filename: "Filename"
+    },
+    templateInvalid: "Every field needs a unique key made of letters, digits and underscores.",
+    templateRoleHint: "Roles tell the editor which field names downloads, fills alt text and the ZIP manifest.",
     apply: "Apply",
     done: "Done",
-    error: "Analysis failed. Please check your API key or try again.",
+    error: "Analysis failed.",
+    aiErrors: {
+      missingKey: "No API key or server URL is set. Add one in the AI Provider panel.",
+      auth: "The API key was rejected. Check it in the AI Provider panel.",
+      quota: "The provider's rate limit or quota is exhausted. Wait a moment and try again.",
+      safety: "The provider refused this image for safety reasons.",
+      malformed: "The model's answer didn't match the template. Try again or simplify the template.",
+      network: "Could not reach the AI provider. Check your connection or the server URL.",
+      timeout: "The AI provider took too long to answer.",
+      server: "The AI provider had an internal error. Try again later.",
+      unknown: "Something went wrong. Please try again."
+    },
+    cancel: "Cancel",
     retry: "Retry",
+    batchTitle: "Batch Queue",
+    batchHint: "The current settings (resize, format, quality, rotation, flip and crop ratio) are applied to every image.",
+    processAll: "Process All",
+    processing: "Processing...",
+    downloadAll: "Download All",
+    clearQueue: "Clear",
+    remove: "Remove",
+    statusQueued: "Queued",
+    statusDone: "Done",
+    statusFailed: "Failed",
+    decodeError: "Could not decode image",
+    downloadZip: "Download ZIP",
+    downloadZipHint: "ZIP archive with a manifest.json / manifest.csv (name, dimensions, size, format, AI title, alt text, tags)",
+    zipping: "Packaging...",
+    profilesTitle: "Export Profiles",
+    profilesHint: "Pick the slots to publish to. Each gets its own crop, size, format and file-size limit; the current edits apply to all of them.",
+    generateProfiles: "Generate",
+    adjustCrop: "Crop",
+    profileCropHint: "Adjust the crop for",
+    profiles: {
+      instagramSquare: "Instagram Square",
+      instagramPortrait: "Instagram Portrait",
+      instagramStory: "Instagram Story",
+      xHeader: "X Header",
+      linkedinBanner: "LinkedIn Banner",
+      youtubeThumbnail: "YouTube Thumbnail",
+      openGraph: "Open Graph",
+      amazonMain: "Amazon Main Image"
+    },
+    responsiveTitle: "Responsive Set",
+    responsiveHint: "Render the current crop at several widths and formats for srcset. Widths larger than the crop are skipped.",
+    responsiveWidths: "Widths (px)",
+    responsiveFormats: "Formats",
+    responsiveSizes: "sizes attribute",
+    generateSet: "Generate Set",
+    responsiveFiles: "files",
+    responsiveSkipped: "Not supported by this browser's encoder:",
+    copySnippet: "Copy",
+    copied: "Copied!",
+    presetsTitle: "Presets",
+    presetsEmpty: "Save the current settings to reuse them with one click.",
+    presetNamePlaceholder: "e.g. Blog hero 1600x900 JPEG",
+    savePreset: "Save",
+    applyPreset: "Apply preset",
+    importPresets: "Import",
+    exportPresets: "Export",
+    presetsImported: "Imported {count} preset(s)",
+    presetsImportError: "Not a valid presets file",
+    metadataTitle: "Metadata",
+    metadataNone: "No EXIF, XMP or IPTC metadata found in this file.",
+    orientationApplied: "EXIF orientation applied",
+    metadataUnsupported: "Metadata is only embedded in JPEG and PNG exports; other formats are always stripped.",
+    gpsPlaceholder: "lat, lon[, altitude]",
+    metadataFields: {
+      camera: "Camera",
+      captureDate: "Capture Date",
+      artist: "Author",
+      copyright: "Copyright",
+      description: "Description",
+      gps: "GPS Location"
+    },
+    metadataModes: {
+      keep: "Keep",
+      strip: "Strip",
+      edit: "Edit"
+    },
+    historyTitle: "History",
+    undo: "Undo",
+    redo: "Redo",
+    historyLabels: {
+      initial: "Original",
+      reset: "Reset All",
+      multiple: "Multiple Changes",
+      crop: "Crop",
+      rotation: "Rotate",
+      flipHorizontal: "Flip H",
+      flipVertical: "Flip V",
+      straighten: "Straighten",
+      straightenFill: "Corner Fill",
+      fillColor: "Fill Color",
+      adjustments: "Adjustments",
+      exposure: "Exposure",
+      brightness: "Brightness",
+      contrast: "Contrast",
+      saturation: "Saturation",
+      temperature: "Temperature",
+      tint: "Tint",
+      gamma: "Gamma",
+      targetWidth: "Resize Width",
+      targetHeight: "Resize Height",
+      resampling: "Resampling",
+      format: "Format",
+      quality: "Quality",
+      paletteColors: "Palette Colors",
+      dither: "Dithering",
+      targetFileSize: "Target Size",
+      allowDownscale: "Allow Downscale",
+      metadata: "Metadata",
+      watermark: "Watermark",
+      annotations: "Annotations",
+      redactions: "Redactions",
+      preset: "Apply Preset"
+    },
     ratios: {
       original: "Reset Crop",
       custom: "Custom / Free",
@@ -55,26 +365,336 @@ export const translations = {
     rotateR: "向右旋转",
     flipH: "水平翻转",
     flipV: "垂直翻转",
+    straighten: "拉直",
+    autoCrop: "自动裁剪",
+    fillCorners: "填充边角",
+    drawHorizon: "绘制水平线",
+    cancelHorizon: "取消",
+    straightenHint: "沿地平线绘制一条直线",
+    compareModes: {
+      off: "结果",
+      split: "滑动对比",
+      side: "并排",
+      difference: "差异"
+    },
+    compareOriginal: "原图",
+    compareProcessed: "处理后",
+    differenceHint: "像素差异，放大 8 倍",
     crop: "裁剪",
     resize: "调整大小",
+    adjustments: "色彩调整",
+    resetAdjustments: "重置",
+    adjust: {
+      exposure: "曝光",
+      brightness: "亮度",
+      contrast: "对比度",
+      saturation: "饱和度",
+      temperature: "色温",
+      tint: "色调",
+      gamma: "伽马"
+    },
     width: "宽度 (px)",
     height: "高度 (px)",
+    resampling: "重采样",
+    filters: {
+      browser: "浏览器默认（快速）",
+      lanczos3: "Lanczos3（最锐利）",
+      bicubic: "双三次",
+      bilinear: "双线性",
+      stepwise: "逐级减半",
+      nearest: "最近邻（像素画）"
+    },
     export: "导出设置",
     format: "格式",
     quality: "质量",
+    losslessFormat: "该格式为无损格式，质量设置无效",
+    qualityTitle: "质量指标",
+    qualityHint: "将编码结果与编码前的渲染图像进行比较。SSIM 高于 0.98 时通常肉眼难以分辨。",
+    plotCurve: "绘制大小与 SSIM 曲线",
+    curveHint: "点击某个点即可使用其质量设置。",
+    kneePoint: "拐点",
+    watermarkTitle: "水印",
+    watermarkTypes: {
+      none: "无",
+      text: "文字",
+      image: "Logo"
+    },
+    watermarkLayouts: {
+      anchor: "定位",
+      tile: "平铺"
+    },
+    watermarkTextPlaceholder: "例如 © 你的品牌",
+    watermarkColor: "文字颜色",
+    watermarkUploadLogo: "上传 Logo",
+    watermarkReplaceLogo: "更换 Logo",
+    watermarkUploadError: "无法读取该图片",
+    watermarkSize: "大小",
+    watermarkOpacity: "不透明度",
+    watermarkRotation: "旋转",
+    watermarkOffsetX: "水平偏移",
+    watermarkOffsetY: "垂直偏移",
+    watermarkSpacing: "平铺间距",
+    watermarkHint: "尺寸以图片短边的百分比计算，因此批量和配置导出的水印效果一致。",
+    annotateTitle: "标注",
+    annotate: "标注",
+    annotateDone: "完成",
+    annotateEmpty: "用箭头、形状、文字和编号步骤标注图片。",
+    annotationObjects: "个标注对象",
+    annotationTools: {
+      select: "选择",
+      arrow: "箭头",
+      rect: "矩形",
+      ellipse: "椭圆",
+      pen: "画笔",
+      highlighter: "荧光笔",
+      text: "标注框",
+      marker: "编号"
+    },
+    annotationSize: "线宽",
+    annotationDefaultText: "备注",
+    deleteAnnotation: "删除",
+    clearAnnotations: "全部清除",
+    annotateHint: "在图片上拖动即可绘制。标注框需从指向位置拖到文字位置。选择后可移动或编辑，按 Delete 删除。",
+    annotateModeHint: "标注模式：在图片上绘制",
+    redactTitle: "隐私遮挡",
+    redact: "遮挡",
+    redactDone: "完成",
+    redactEmpty: "隐藏人脸、邮箱和车牌。被遮挡的像素会在所有导出中被彻底破坏。",
+    redactionRegions: "个区域已遮挡",
+    redactionStyles: {
+      pixelate: "马赛克",
+      blur: "模糊",
+      fill: "填充"
+    },
+    redactionColor: "填充颜色",
+    deleteRedaction: "删除",
+    clearRedactions: "全部清除",
+    redactHint: "在图片上拖动以遮挡区域。点击方框可选中并移动，Delete 键删除。",
+    redactModeHint: "遮挡模式：拖出需要隐藏的区域",
+    autoDetect: "自动检测人脸和文字",
+    detecting: "检测中...",
+    detectError: "检测失败。",
+    detectNothing: "未发现需要遮挡的内容。",
+    proposalHint: "建议区域尚未应用。取消勾选或点击不需要的区域，然后确认。",
+    discardProposals: "放弃",
+    applyProposals: "遮挡所选",
+    smartCropTitle: "智能裁剪",
+    smartCropFind: "识别主体",
+    smartCropFinding: "分析中...",
+    smartCropRefine: "使用 AI 服务优化",
+    smartCropHint: "识别画面主体，并在每种裁剪比例（包括上方的比例按钮）中保留主体。",
+    smartCropByLocal: "主体由本地边缘分析识别。选择一个裁剪方案进行微调。",
+    smartCropByAI: "主体由 AI 服务识别。选择一个裁剪方案进行微调。",
+    smartCropRefineFailed: "AI 优化失败，已使用本地分析结果。",
+    smartCropError: "主体识别失败。",
+    aiSettingsTitle: "AI 服务",
+    aiProviders: {
+      gemini: "Gemini",
+      openai: "OpenAI 兼容",
+      mock: "离线模拟"
+    },
+    aiApiKey: "API 密钥",
+    aiApiKeyEnvPlaceholder: "内置密钥",
+    aiApiKeyOptional: "可选",
+    aiModel: "模型",
+    aiBaseUrl: "基础 URL",
+    aiOpenAIHint: "任何支持 OpenAI 对话补全接口和视觉模型的服务，例如 Ollama：http://localhost:11434/v1。",
+    aiMockHint: "使用内置示例数据回答，不访问网络。结果与您的图片无关。",
+    aiKeyStorageHint: "设置（包括 API 密钥）仅保存在此浏览器中。",
+    quantizePalette: "减少为调色板颜色（有损）",
+    paletteColors: "颜色数",
+    dither: "抖动",
+    pngSavings: "浏览器 PNG 与优化后对比",
+    maxQuality: "最高质量",
+    targetSize: "目标文件大小",
+    allowDownscale: "允许缩小尺寸以达到目标",
+    budgetChosen: "已达标",
+    budgetMissed: "无法达到目标",
     aiTitle: "AI 智能分析",
     analyze: "分析图片",
-    analyzing: "Gemini 正在思考...",
+    analyzing: "AI 正在思考...",
     regenerate: "重新分析",
-    suggestedTitle: "建议标题",
-    filename: "文件名",
-    altText: "替代文本 (Alt)",
-    tags: "标签",
-    aiPrompt: "为您的图片生成 SEO 优化的标题、标签和描述。",
+    forceRefresh: "强制刷新",
+    analysisFromCache: "已复用保存的分析结果，生成于",
+    analysisHistory: "历史记录",
+    deleteAnalysis: "从历史记录中删除",
+    aiPrompt: "为您的图片生成 SEO 优化的标题、标签、描述以及模板要求的其他字段。",
+    analysisFieldLabels: {
+      title: "建议标题",
+      suggestedFilename: "文件名",
+      description: "替代文本 (Alt)",
+      tags: "标签",
+      category: "商品类目",
+      dominantColors: "主要颜色",
+      detectedText: "识别到的文字",
+      safeForWork: "内容安全",
+      safetyFlags: "内容标记",
+      captionInstagram: "Instagram 文案",
+      captionX: "X 文案",
+      captionShop: "商品描述"
+    },
+    analysisYes: "是",
+    analysisNo: "否",
+    addTag: "添加标签…",
+    copyAsHTML: "复制 <img>",
+    copyAsJSON: "复制 JSON",
+    copyAsMarkdown: "复制 Markdown",
+    templateTitle: "分析模板",
+    analysisTemplateNames: {
+      seo: "SEO",
+      product: "商品上架"
+    },
+    templateNew: "新建",
+    templateNewName: "我的模板",
+    templateUntitled: "（未命名）",
+    templateDuplicate: "复制",
+    templateCopySuffix: "（副本）",
+    templateDelete: "删除",
+    templateBuiltInHint: "内置模板不可编辑。复制后即可修改提示词和字段。",
+    templateName: "名称",
+    templatePrompt: "提示词",
+    templatePromptPlaceholder: "告诉模型要关注什么，例如“为商品上架描述这张商品照片。”",
+    templateFields: "字段",
+    templateFieldKey: "键名",
+    templateFieldLabel: "标签",
+    templateFieldDescription: "给模型的说明",
+    templateRemoveField: "删除字段",
+    templateAddField: "+ 添加字段",
+    templateNoRole: "无用途",
+    analysisFieldTypes: {
+      text: "文本",
+      longText: "段落",
+      tags: "列表",
+      boolean: "是 / 否",
+      number: "数字"
+    },
+    analysisFieldRoles: {
+      title: "标题",
+      altText: "替代文本",
+      tags: "标签",
+      filename: "文件名"
+    },
+    templateInvalid: "每个字段都需要唯一的键名，只能包含字母、数字和下划线。",
+    templateRoleHint: "用途决定哪个字段用于下载文件名、替代文本和 ZIP 清单。",
     apply: "应用",
     done: "完成",
-    error: "分析失败。请检查您的 API 密钥或重试。",
+    error: "分析失败。",
+    aiErrors: {
+      missingKey: "未设置 API 密钥或服务器地址。请在 AI 服务面板中填写。",
+      auth: "API 密钥被拒绝。请在 AI 服务面板中检查。",
+      quota: "已达到服务的速率限制或配额。请稍后重试。",
+      safety: "出于安全原因，服务拒绝处理这张图片。",
+      malformed: "模型的回答与模板不符。请重试或简化模板。",
+      network: "无法连接 AI 服务。请检查网络或服务器地址。",
+      timeout: "AI 服务响应超时。",
+      server: "AI 服务内部出错。请稍后重试。",
+      unknown: "出现错误，请重试。"
+    },
+    cancel: "取消",
     retry: "重试",
+    batchTitle: "批量队列",
+    batchHint: "当前设置（尺寸、格式、质量、旋转、翻转和裁剪比例）将应用到每张图片。",
+    processAll: "全部处理",
+    processing: "处理中...",
+    downloadAll: "全部下载",
+    clearQueue: "清空",
+    remove: "移除",
+    statusQueued: "排队中",
+    statusDone: "完成",
+    statusFailed: "失败",
+    decodeError: "无法解码图片",
+    downloadZip: "下载 ZIP",
+    downloadZipHint: "包含 manifest.json / manifest.csv 清单（文件名、尺寸、大小、格式、AI 标题、替代文本、标签）的 ZIP 压缩包",
+    zipping: "打包中...",
+    profilesTitle: "导出配置",
+    profilesHint: "选择要发布的平台。每个平台有独立的裁剪、尺寸、格式和文件大小限制；当前的编辑会应用到所有平台。",
+    generateProfiles: "生成",
+    adjustCrop: "裁剪",
+    profileCropHint: "调整裁剪：",
+    profiles: {
+      instagramSquare: "Instagram 方形",
+      instagramPortrait: "Instagram 竖版",
+      instagramStory: "Instagram 快拍",
+      xHeader: "X 头图",
+      linkedinBanner: "LinkedIn 横幅",
+      youtubeThumbnail: "YouTube 缩略图",
+      openGraph: "Open Graph 分享图",
+      amazonMain: "亚马逊主图"
+    },
+    responsiveTitle: "响应式图片集",
+    responsiveHint: "以多种宽度和格式渲染当前裁剪，用于 srcset。大于裁剪区域的宽度将被跳过。",
+    responsiveWidths: "宽度 (px)",
+    responsiveFormats: "格式",
+    responsiveSizes: "sizes 属性",
+    generateSet: "生成图片集",
+    responsiveFiles: "个文件",
+    responsiveSkipped: "当前浏览器的编码器不支持：",
+    copySnippet: "复制",
+    copied: "已复制！",
+    presetsTitle: "预设",
+    presetsEmpty: "保存当前设置，之后一键复用。",
+    presetNamePlaceholder: "例如：博客头图 1600x900 JPEG",
+    savePreset: "保存",
+    applyPreset: "应用预设",
+    importPresets: "导入",
+    exportPresets: "导出",
+    presetsImported: "已导入 {count} 个预设",
+    presetsImportError: "无效的预设文件",
+    metadataTitle: "元数据",
+    metadataNone: "此文件中未找到 EXIF、XMP 或 IPTC 元数据。",
+    orientationApplied: "已应用 EXIF 方向",
+    metadataUnsupported: "仅在 JPEG 和 PNG 导出中嵌入元数据；其他格式始终会被清除。",
+    gpsPlaceholder: "纬度, 经度[, 海拔]",
+    metadataFields: {
+      camera: "相机",
+      captureDate: "拍摄日期",
+      artist: "作者",
+      copyright: "版权",
+      description: "描述",
+      gps: "GPS 位置"
+    },
+    metadataModes: {
+      keep: "保留",
+      strip: "移除",
+      edit: "编辑"
+    },
+    historyTitle: "历史记录",
+    undo: "撤销",
+    redo: "重做",
+    historyLabels: {
+      initial: "原图",
+      reset: "重置所有",
+      multiple: "多项修改",
+      crop: "裁剪",
+      rotation: "旋转",
+      flipHorizontal: "水平翻转",
+      flipVertical: "垂直翻转",
+      straighten: "拉直",
+      straightenFill: "边角填充",
+      fillColor: "填充颜色",
+      adjustments: "色彩调整",
+      exposure: "曝光",
+      brightness: "亮度",
+      contrast: "对比度",
+      saturation: "饱和度",
+      temperature: "色温",
+      tint: "色调",
+      gamma: "伽马",
+      targetWidth: "调整宽度",
+      targetHeight: "调整高度",
+      resampling: "重采样",
+      format: "格式",
+      quality: "质量",
+      paletteColors: "调色板颜色",
+      dither: "抖动",
+      targetFileSize: "目标大小",
+      allowDownscale: "允许缩小",
+      metadata: "元数据",
+      watermark: "水印",
+      annotations: "标注",
+      redactions: "隐私遮挡",
+      preset: "应用预设"
+    },
     ratios: {
       original: "重置裁剪",
       custom: "自定义 / 自由",
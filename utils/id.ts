@@ -0,0 +1,4 @@
+// Short, collision-resistant ids for client-side lists (batch items, presets, layers).
+// crypto.randomUUID is unavailable on insecure origins (e.g. LAN dev server), so we roll our own.
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -1,6 +1,6 @@
-import { ImageConfig } from '../types';
+import { CropRect, ImageConfig } from '../types';
 
-export const readFileAsDataURL = (file: File): Promise<string> => {
+export const readFileAsDataURL = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
@@ -9,16 +9,6 @@ export const readFileAsDataURL = (file: File): Promise<string> => {
   });
 };
 
-export const loadImage = (src: string): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = src;
-  });
-};
-
 export const getTransformedDimensions = (
   width: number, 
   height: number, 
@@ -31,90 +21,101 @@ export const getTransformedDimensions = (
   };
 };
 
-export const processImage = async (
-  imageSrc: string,
-  config: ImageConfig
-): Promise<string> => {
-  const img = await loadImage(imageSrc);
-  
-  // --- Pass 1: Create the Intermediate Image (Rotated & Flipped) ---
-  // We draw the full rotated/flipped image onto a canvas first. 
-  // This simplifies the coordinate system for the subsequent crop/resize step.
-  
-  const originalWidth = img.naturalWidth;
-  const originalHeight = img.naturalHeight;
-  
-  // Calculate dimensions of the rotated bounding box
-  const { width: intermediateWidth, height: intermediateHeight } = getTransformedDimensions(
-    originalWidth, 
-    originalHeight, 
-    config.rotation
-  );
-
-  const intermediateCanvas = document.createElement('canvas');
-  intermediateCanvas.width = intermediateWidth;
-  intermediateCanvas.height = intermediateHeight;
-  const ictx = intermediateCanvas.getContext('2d');
-  
-  if (!ictx) throw new Error('Could not get intermediate canvas context');
-
-  ictx.save();
-  ictx.translate(intermediateWidth / 2, intermediateHeight / 2);
-  ictx.rotate((config.rotation * Math.PI) / 180);
-  ictx.scale(
-    config.flipHorizontal ? -1 : 1,
-    config.flipVertical ? -1 : 1
-  );
-  // Draw centered
-  ictx.drawImage(img, -originalWidth / 2, -originalHeight / 2);
-  ictx.restore();
-
-  // If we only need the intermediate image (e.g. for previewing crop), 
-  // and no crop/resize is defined (or specific flag?), we could stop here.
-  // However, usually this function is called to get the FINAL output.
-  
-  // --- Pass 2: Crop & Resize ---
-  
-  // Determine Source Rect (Crop) in the Intermediate Coordinate System
-  let sx = 0, sy = 0, sWidth = intermediateWidth, sHeight = intermediateHeight;
-
-  if (config.cropRect) {
-    sx = config.cropRect.x;
-    sy = config.cropRect.y;
-    sWidth = config.cropRect.width;
-    sHeight = config.cropRect.height;
-  } else if (config.cropRatio) {
-    // Fallback: Center Crop if ratio provided but no specific rect (legacy support)
-    const currentRatio = intermediateWidth / intermediateHeight;
-    if (currentRatio > config.cropRatio) {
-      sWidth = intermediateHeight * config.cropRatio;
-      sx = (intermediateWidth - sWidth) / 2;
-    } else {
-      sHeight = intermediateWidth / config.cropRatio;
-      sy = (intermediateHeight - sHeight) / 2;
-    }
+// Largest axis-aligned rectangle that fits inside a w x h rectangle rotated by `angle` radians
+export const getLargestInscribedRect = (w: number, h: number, angle: number) => {
+  if (w <= 0 || h <= 0) return { width: 0, height: 0 };
+  const sin = Math.abs(Math.sin(angle));
+  const cos = Math.abs(Math.cos(angle));
+  if (sin < 1e-10) return { width: w, height: h };
+
+  const widthIsLonger = w >= h;
+  const sideLong = widthIsLonger ? w : h;
+  const sideShort = widthIsLonger ? h : w;
+
+  // Half-constrained case: two corners of the rectangle touch the longer side
+  if (sideShort <= 2 * sin * cos * sideLong || Math.abs(sin - cos) < 1e-10) {
+    const x = 0.5 * sideShort;
+    return widthIsLonger
+      ? { width: x / sin, height: x / cos }
+      : { width: x / cos, height: x / sin };
   }
 
-  // Determine Destination Size (Resize)
-  // If target dimensions are provided, use them.
-  // Otherwise, use the cropped dimensions.
-  let finalWidth = config.targetWidth > 0 ? config.targetWidth : sWidth;
-  let finalHeight = config.targetHeight > 0 ? config.targetHeight : sHeight;
-
-  const finalCanvas = document.createElement('canvas');
-  finalCanvas.width = finalWidth;
-  finalCanvas.height = finalHeight;
-  const fctx = finalCanvas.getContext('2d');
-  if (!fctx) throw new Error('Could not get final canvas context');
-
-  // Draw from Intermediate -> Final
-  fctx.drawImage(
-    intermediateCanvas,
-    sx, sy, sWidth, sHeight, // Source (Cropped)
-    0, 0, finalWidth, finalHeight // Dest (Resized)
-  );
-
-  return finalCanvas.toDataURL(config.format, config.quality);
+  // Fully constrained case: the rectangle touches all four sides
+  const cos2a = cos * cos - sin * sin;
+  return {
+    width: (w * cos - h * sin) / cos2a,
+    height: (h * cos - w * sin) / cos2a
+  };
+};
+
+// Dimensions of the intermediate image (rotated, flipped and straightened) that crop coordinates refer to
+export const getIntermediateDimensions = (
+  width: number,
+  height: number,
+  config: Pick<ImageConfig, 'rotation' | 'straighten' | 'straightenFill'>
+) => {
+  const rotated = getTransformedDimensions(width, height, config.rotation);
+  if (!config.straighten) return rotated;
+
+  const angle = (config.straighten * Math.PI) / 180;
+  if (config.straightenFill === 'crop') {
+    const inner = getLargestInscribedRect(rotated.width, rotated.height, angle);
+    return { width: Math.floor(inner.width), height: Math.floor(inner.height) };
+  }
+
+  // Fill mode: bounding box of the rotated image
+  const sin = Math.abs(Math.sin(angle));
+  const cos = Math.abs(Math.cos(angle));
+  return {
+    width: Math.ceil(rotated.width * cos + rotated.height * sin),
+    height: Math.ceil(rotated.width * sin + rotated.height * cos)
+  };
+};
+
+// Largest rect of the given aspect ratio centered in a width x height image
+export const getCenteredCropRect = (width: number, height: number, ratio: number): CropRect => {
+  let w = width;
+  let h = height;
+  if (width / height > ratio) {
+    w = height * ratio;
+  } else {
+    h = width / ratio;
+  }
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+};
+
+export const getFormatExtension = (format: ImageConfig['format']): string =>
+  format === 'image/x-icon' ? 'ico' : format.split('/')[1];
+
+// Files utils/codecs can decode, which browsers often hand over with an empty MIME type
+const DECODABLE_EXTENSIONS = ['.heic', '.heif', '.tif', '.tiff', '.avif'];
+
+export const IMAGE_FILE_ACCEPT = ['image/*', ...DECODABLE_EXTENSIONS].join(',');
+
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || DECODABLE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+// Strip the original extension and append the one matching the export format
+export const getOutputFilename = (originalName: string, format: ImageConfig['format']): string => {
+  const dot = originalName.lastIndexOf('.');
+  const base = dot > 0 ? originalName.slice(0, dot) : originalName;
+  return `${base}.${getFormatExtension(format)}`;
+};
+
+export const downloadDataURL = (dataUrl: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataURL(url, filename);
+  // Give the browser a tick to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
 
 export const formatFileSize = (bytes: number): string => {
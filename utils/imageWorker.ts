@@ -0,0 +1,103 @@
+import { DecodedSource, decodeSource } from './pipeline';
+import { PipelineJob, PipelineJobResult, runJob } from './jobs';
+
+// Web Worker entry: runs the image pipeline (and quality measurements) on OffscreenCanvas off the main thread.
+// Spawned by services/imageProcessor.ts, which owns job ids and cancellation.
+
+export type WorkerRequest =
+  | { type: 'process'; id: number; sourceId: string; source: Blob; job: PipelineJob }
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: PipelineJobResult }
+  | { type: 'error'; id: number; message: string; cancelled: boolean };
+
+// Decoded sources, most recently used last. The editor hits the same source for every
+// config change, so decoding once saves a full JPEG decode (and metadata parse) per preview.
+const MAX_CACHED_SOURCES = 3;
+
+interface CachedSource {
+  decoded: Promise<DecodedSource>;
+  users: number; // Jobs still drawing from the bitmap
+  evicted: boolean;
+}
+
+const sources = new Map<string, CachedSource>();
+const cancelled = new Set<number>();
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+// Frees the bitmap once it is out of the cache and no job uses it anymore
+const closeIfUnused = (entry: CachedSource) => {
+  if (entry.evicted && entry.users === 0) {
+    entry.decoded.then(decoded => decoded.bitmap.close(), () => {});
+  }
+};
+
+// Every acquireSource must be paired with a releaseSource once the job is done with the bitmap
+const acquireSource = (sourceId: string, source: Blob): CachedSource => {
+  let entry = sources.get(sourceId);
+  if (entry) {
+    sources.delete(sourceId);
+  } else {
+    const created: CachedSource = { decoded: decodeSource(source), users: 0, evicted: false };
+    // Don't keep failed decodes around
+    created.decoded.catch(() => {
+      if (sources.get(sourceId) === created) sources.delete(sourceId);
+    });
+    entry = created;
+  }
+  entry.users++;
+  sources.set(sourceId, entry);
+  while (sources.size > MAX_CACHED_SOURCES) {
+    const oldestId = sources.keys().next().value as string;
+    const oldest = sources.get(oldestId) as CachedSource;
+    sources.delete(oldestId);
+    oldest.evicted = true;
+    closeIfUnused(oldest);
+  }
+  return entry;
+};
+
+const releaseSource = (entry: CachedSource) => {
+  entry.users--;
+  closeIfUnused(entry);
+};
+
+// Rendering is synchronous and a cached source resolves as a microtask, so without a
+// macrotask in between, a cancel queued behind this job would only arrive once it's done
+const yieldToMessages = () => new Promise(resolve => setTimeout(resolve));
+
+scope.onmessage = async (e) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    cancelled.add(msg.id);
+    return;
+  }
+
+  const checkpoint = () => {
+    if (cancelled.has(msg.id)) throw new DOMException('Processing cancelled', 'AbortError');
+  };
+
+  const entry = acquireSource(msg.sourceId, msg.source);
+  try {
+    const decoded = await entry.decoded;
+    await yieldToMessages();
+    checkpoint();
+    const result = await runJob(decoded, msg.job, checkpoint);
+    scope.postMessage({ type: 'result', id: msg.id, result });
+  } catch (err) {
+    scope.postMessage({
+      type: 'error',
+      id: msg.id,
+      message: err instanceof Error ? err.message : String(err),
+      cancelled: err instanceof DOMException && err.name === 'AbortError'
+    });
+  } finally {
+    releaseSource(entry);
+    cancelled.delete(msg.id);
+  }
+};
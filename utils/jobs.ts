@@ -0,0 +1,35 @@
+import { ImageConfig, ProcessResult, QualityMetrics, QualityPoint, SubjectBox } from '../types';
+import { Checkpoint, DecodedSource, runPipeline } from './pipeline';
+import { EncodeEffort } from './codecs';
+import { measureQuality, plotQualityCurve } from './metrics';
+import { detectSubject } from './smartCrop';
+
+// Work that can be run against a decoded source, in the worker or on the main thread
+
+export type PipelineJob =
+  | { kind: 'process'; config: ImageConfig; effort: EncodeEffort }
+  | { kind: 'measure'; config: ImageConfig; encoded: Blob }
+  | { kind: 'curve'; config: ImageConfig }
+  | { kind: 'subject'; config: ImageConfig };
+
+export interface PipelineJobResults {
+  process: ProcessResult;
+  measure: QualityMetrics;
+  curve: QualityPoint[];
+  subject: SubjectBox;
+}
+
+export type PipelineJobResult = PipelineJobResults[PipelineJob['kind']];
+
+export const runJob = (source: DecodedSource, job: PipelineJob, checkpoint: Checkpoint): Promise<PipelineJobResult> => {
+  switch (job.kind) {
+    case 'process':
+      return runPipeline(source, job.config, checkpoint, job.effort);
+    case 'measure':
+      return measureQuality(source, job.config, job.encoded, checkpoint);
+    case 'curve':
+      return plotQualityCurve(source, job.config, checkpoint);
+    case 'subject':
+      return Promise.resolve(detectSubject(source, job.config, checkpoint));
+  }
+};
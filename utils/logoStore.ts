@@ -0,0 +1,25 @@
+import { createId } from './id';
+import { LOGOS_STORE, openDB, promisify } from './db';
+
+// Watermark logos, kept in IndexedDB as PNG blobs. WatermarkConfig only holds the id, so
+// presets in localStorage stay small and jobs don't copy the image to the worker each time:
+// the pipeline reads the logo from here itself, in the worker or on the main thread.
+
+// Throws when the logo can't be stored, since the watermark couldn't be drawn without it
+export const storeLogo = async (logo: Blob, id: string = createId()): Promise<string> => {
+  const db = await openDB();
+  await promisify(db.transaction(LOGOS_STORE, 'readwrite').objectStore(LOGOS_STORE).put(logo, id));
+  return id;
+};
+
+// The logo, or null when this browser doesn't have it (e.g. a preset made on another device)
+export const loadLogo = async (id: string): Promise<Blob | null> => {
+  try {
+    const db = await openDB();
+    const logo = await promisify(db.transaction(LOGOS_STORE).objectStore(LOGOS_STORE).get(id));
+    return logo instanceof Blob ? logo : null;
+  } catch (e) {
+    console.warn("Could not read the watermark logo", e);
+    return null;
+  }
+};
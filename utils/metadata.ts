@@ -0,0 +1,531 @@
+import { GpsCoordinates, ImageMetadata, MetadataField, MetadataPolicy } from '../types';
+import { createChunk } from './codecs/png';
+
+// Reads EXIF / IPTC / XMP from JPEG, PNG and WebP files, and writes a fresh EXIF block
+// (built from the export policy, never copied verbatim) into JPEG and PNG output.
+
+export const METADATA_FIELDS: MetadataField[] = ['camera', 'captureDate', 'artist', 'copyright', 'description', 'gps'];
+
+// GPS is stripped by default for privacy; everything else survives the export
+export const DEFAULT_METADATA_POLICY: MetadataPolicy = {
+  camera: { mode: 'keep', value: '' },
+  captureDate: { mode: 'keep', value: '' },
+  artist: { mode: 'keep', value: '' },
+  copyright: { mode: 'keep', value: '' },
+  description: { mode: 'keep', value: '' },
+  gps: { mode: 'strip', value: '' },
+};
+
+// For copies that leave the device for analysis (AI detection) rather than being exported
+export const STRIP_ALL_METADATA: MetadataPolicy = {
+  camera: { mode: 'strip', value: '' },
+  captureDate: { mode: 'strip', value: '' },
+  artist: { mode: 'strip', value: '' },
+  copyright: { mode: 'strip', value: '' },
+  description: { mode: 'strip', value: '' },
+  gps: { mode: 'strip', value: '' },
+};
+
+export const EMPTY_METADATA: ImageMetadata = {
+  orientation: null,
+  make: null,
+  model: null,
+  captureDate: null,
+  artist: null,
+  copyright: null,
+  description: null,
+  gps: null,
+  sources: [],
+};
+
+// Formats whose encoded output we know how to inject EXIF into
+export const supportsMetadataEmbedding = (format: string) => format === 'image/jpeg' || format === 'image/png';
+
+// --- TIFF / EXIF Reading ---
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG = {
+  imageDescription: 0x010e,
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  gpsVersion: 0x0000,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+};
+
+type TiffValue = string | number[];
+
+// Parse one IFD into tag -> value (ASCII as string, numeric types as arrays; rationals as floats)
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, TiffValue> => {
+  const values = new Map<number, TiffValue>();
+  const base = tiffStart + offset;
+  if (base + 2 > view.byteLength) return values;
+  const count = view.getUint16(base, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const dataOffset = size * n > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (dataOffset + size * n > view.byteLength) continue;
+
+    if (type === 2) {
+      // Nominally 7-bit ASCII, but UTF-8 is what most software actually writes
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + dataOffset, n);
+      const end = bytes.indexOf(0);
+      values.set(tag, new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end)).trim());
+      continue;
+    }
+
+    const nums: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const p = dataOffset + j * size;
+      switch (type) {
+        case 1: case 7: nums.push(view.getUint8(p)); break;
+        case 3: nums.push(view.getUint16(p, little)); break;
+        case 4: nums.push(view.getUint32(p, little)); break;
+        case 9: nums.push(view.getInt32(p, little)); break;
+        case 5: nums.push(view.getUint32(p, little) / (view.getUint32(p + 4, little) || 1)); break;
+        case 10: nums.push(view.getInt32(p, little) / (view.getInt32(p + 4, little) || 1)); break;
+      }
+    }
+    values.set(tag, nums);
+  }
+  return values;
+};
+
+const asText = (value: TiffValue | undefined) => (typeof value === 'string' && value ? value : null);
+const asNumbers = (value: TiffValue | undefined) => (Array.isArray(value) ? value : null);
+
+const toDegrees = (dms: number[] | null, ref: string | null, negativeRef: string) => {
+  if (!dms || dms.length < 3) return null;
+  const deg = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === negativeRef ? -deg : deg;
+};
+
+const parseTiff = (view: DataView, start: number): Partial<ImageMetadata> => {
+  const byteOrder = view.getUint16(start);
+  const little = byteOrder === 0x4949; // "II"
+  if (!little && byteOrder !== 0x4d4d) return {};
+  if (view.getUint16(start + 2, little) !== 42) return {};
+
+  const ifd0 = readIfd(view, start, view.getUint32(start + 4, little), little);
+  const exifOffset = asNumbers(ifd0.get(TAG.exifIfd));
+  const gpsOffset = asNumbers(ifd0.get(TAG.gpsIfd));
+  const exif = exifOffset ? readIfd(view, start, exifOffset[0], little) : new Map<number, TiffValue>();
+  const gpsIfd = gpsOffset ? readIfd(view, start, gpsOffset[0], little) : new Map<number, TiffValue>();
+
+  let gps: GpsCoordinates | null = null;
+  const latitude = toDegrees(asNumbers(gpsIfd.get(TAG.gpsLatitude)), asText(gpsIfd.get(TAG.gpsLatitudeRef)), 'S');
+  const longitude = toDegrees(asNumbers(gpsIfd.get(TAG.gpsLongitude)), asText(gpsIfd.get(TAG.gpsLongitudeRef)), 'W');
+  if (latitude !== null && longitude !== null) {
+    const alt = asNumbers(gpsIfd.get(TAG.gpsAltitude));
+    const altRef = asNumbers(gpsIfd.get(TAG.gpsAltitudeRef));
+    gps = { latitude, longitude, altitude: alt ? (altRef?.[0] === 1 ? -alt[0] : alt[0]) : null };
+  }
+
+  return {
+    orientation: asNumbers(ifd0.get(TAG.orientation))?.[0] ?? null,
+    make: asText(ifd0.get(TAG.make)),
+    model: asText(ifd0.get(TAG.model)),
+    captureDate: asText(exif.get(TAG.dateTimeOriginal)) || asText(ifd0.get(TAG.dateTime)),
+    artist: asText(ifd0.get(TAG.artist)),
+    copyright: asText(ifd0.get(TAG.copyright)),
+    description: asText(ifd0.get(TAG.imageDescription)),
+    gps,
+  };
+};
+
+// --- XMP & IPTC Reading ---
+
+const decodeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// Value of an XMP property written as an attribute, a plain element, or an rdf:Alt/Seq/Bag list
+const readXmpValue = (xml: string, name: string): string | null => {
+  const attr = xml.match(new RegExp(`${name}="([^"]*)"`));
+  if (attr) return decodeXml(attr[1]);
+  const element = xml.match(new RegExp(`<${name}[^>]*>([\\s\\S]*?)</${name}>`));
+  if (!element) return null;
+  const li = element[1].match(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+  const value = (li ? li[1] : element[1]).trim();
+  return value ? decodeXml(value) : null;
+};
+
+const parseXmp = (xml: string): Partial<ImageMetadata> => ({
+  make: readXmpValue(xml, 'tiff:Make'),
+  model: readXmpValue(xml, 'tiff:Model'),
+  captureDate: readXmpValue(xml, 'exif:DateTimeOriginal') || readXmpValue(xml, 'xmp:CreateDate'),
+  artist: readXmpValue(xml, 'dc:creator'),
+  copyright: readXmpValue(xml, 'dc:rights'),
+  description: readXmpValue(xml, 'dc:description'),
+});
+
+// IPTC-IIM datasets inside a Photoshop APP13 segment (resource 0x0404)
+const parseIptc = (bytes: Uint8Array, start: number, end: number): Partial<ImageMetadata> => {
+  const decoder = new TextDecoder();
+  const result: Partial<ImageMetadata> = {};
+  // Locate the 8BIM resource holding IPTC data
+  for (let p = start; p + 12 < end; ) {
+    if (bytes[p] !== 0x38 || bytes[p + 1] !== 0x42 || bytes[p + 2] !== 0x49 || bytes[p + 3] !== 0x4d) break; // "8BIM"
+    const id = (bytes[p + 4] << 8) | bytes[p + 5];
+    const nameLength = bytes[p + 6];
+    let q = p + 6 + 1 + nameLength;
+    if ((1 + nameLength) % 2) q++; // Pascal string padded to even length
+    const size = ((bytes[q] << 24) | (bytes[q + 1] << 16) | (bytes[q + 2] << 8) | bytes[q + 3]) >>> 0;
+    const data = q + 4;
+
+    if (id === 0x0404) {
+      for (let r = data; r + 5 <= data + size && bytes[r] === 0x1c; ) {
+        const record = bytes[r + 1];
+        const dataset = bytes[r + 2];
+        const length = (bytes[r + 3] << 8) | bytes[r + 4];
+        const value = decoder.decode(bytes.subarray(r + 5, r + 5 + length)).trim();
+        if (record === 2 && value) {
+          if (dataset === 80) result.artist = value;
+          if (dataset === 116) result.copyright = value;
+          if (dataset === 120) result.description = value;
+          if (dataset === 55 && /^\d{8}$/.test(value)) {
+            result.captureDate = `${value.slice(0, 4)}:${value.slice(4, 6)}:${value.slice(6, 8)} 00:00:00`;
+          }
+        }
+        r += 5 + length;
+      }
+    }
+    p = data + size + (size % 2);
+  }
+  return result;
+};
+
+// --- Container Walking ---
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+interface RawMetadata {
+  exif?: Partial<ImageMetadata>;
+  xmp?: Partial<ImageMetadata>;
+  iptc?: Partial<ImageMetadata>;
+}
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const readJpeg = (bytes: Uint8Array, view: DataView): RawMetadata => {
+  const raw: RawMetadata = {};
+  let p = 2;
+  while (p + 4 <= bytes.length && bytes[p] === 0xff) {
+    const marker = bytes[p + 1];
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+    const length = view.getUint16(p + 2);
+    const data = p + 4;
+    if (marker === 0xe1 && startsWith(bytes, data, 'Exif\0\0')) {
+      raw.exif = parseTiff(view, data + 6);
+    } else if (marker === 0xe1 && startsWith(bytes, data, XMP_HEADER)) {
+      raw.xmp = parseXmp(new TextDecoder().decode(bytes.subarray(data + XMP_HEADER.length, p + 2 + length)));
+    } else if (marker === 0xed && startsWith(bytes, data, 'Photoshop 3.0\0')) {
+      raw.iptc = parseIptc(bytes, data + 14, p + 2 + length);
+    }
+    p += 2 + length;
+  }
+  return raw;
+};
+
+const readPng = (bytes: Uint8Array, view: DataView): RawMetadata => {
+  const raw: RawMetadata = {};
+  let p = 8;
+  while (p + 12 <= bytes.length) {
+    const length = view.getUint32(p);
+    const type = String.fromCharCode(...bytes.subarray(p + 4, p + 8));
+    const data = p + 8;
+    if (type === 'eXIf') {
+      raw.exif = parseTiff(view, data);
+    } else if (type === 'iTXt' && startsWith(bytes, data, 'XML:com.adobe.xmp\0')) {
+      // keyword\0, compression flag, method, language\0, translated keyword\0, text
+      let q = data + 'XML:com.adobe.xmp\0'.length + 2;
+      while (bytes[q] !== 0 && q < data + length) q++;
+      q++;
+      while (bytes[q] !== 0 && q < data + length) q++;
+      q++;
+      raw.xmp = parseXmp(new TextDecoder().decode(bytes.subarray(q, data + length)));
+    } else if (type === 'IEND') {
+      break;
+    }
+    p += 12 + length;
+  }
+  return raw;
+};
+
+const readWebp = (bytes: Uint8Array, view: DataView): RawMetadata => {
+  const raw: RawMetadata = {};
+  let p = 12;
+  while (p + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(p, p + 4));
+    const length = view.getUint32(p + 4, true);
+    const data = p + 8;
+    if (type === 'EXIF') {
+      raw.exif = parseTiff(view, startsWith(bytes, data, 'Exif\0\0') ? data + 6 : data);
+    } else if (type === 'XMP ') {
+      raw.xmp = parseXmp(new TextDecoder().decode(bytes.subarray(data, data + length)));
+    }
+    p = data + length + (length % 2);
+  }
+  return raw;
+};
+
+// Merge the blocks: EXIF wins, then XMP, then IPTC fill the gaps
+const mergeMetadata = (raw: RawMetadata): ImageMetadata => {
+  const result: ImageMetadata = { ...EMPTY_METADATA, sources: [] };
+  const layers: [ImageMetadata['sources'][number], Partial<ImageMetadata> | undefined][] = [
+    ['EXIF', raw.exif], ['XMP', raw.xmp], ['IPTC', raw.iptc],
+  ];
+  for (const [source, layer] of layers) {
+    if (!layer) continue;
+    result.sources.push(source);
+    (Object.keys(layer) as (keyof ImageMetadata)[]).forEach(key => {
+      if (result[key] === null && layer[key] != null) {
+        (result as unknown as Record<string, unknown>)[key] = layer[key];
+      }
+    });
+  }
+  return result;
+};
+
+// Never throws: unreadable or unsupported files simply yield EMPTY_METADATA
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata> => {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return mergeMetadata(readJpeg(bytes, view));
+    if (startsWith(bytes, 0, '\x89PNG')) return mergeMetadata(readPng(bytes, view));
+    if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) return mergeMetadata(readWebp(bytes, view));
+    // A TIFF file is itself the TIFF structure EXIF borrows
+    if (startsWith(bytes, 0, 'II*\0') || startsWith(bytes, 0, 'MM\0*')) return mergeMetadata({ exif: parseTiff(view, 0) });
+  } catch (e) {
+    console.warn("Could not read image metadata", e);
+  }
+  return { ...EMPTY_METADATA };
+};
+
+// --- Export ---
+
+export interface ResolvedMetadata {
+  make: string | null;
+  model: string | null;
+  captureDate: string | null;
+  artist: string | null;
+  copyright: string | null;
+  description: string | null;
+  gps: GpsCoordinates | null;
+}
+
+// "lat, lon[, alt]" as typed into the GPS edit field
+export const parseGpsInput = (text: string): GpsCoordinates | null => {
+  const parts = text.split(',').map(part => parseFloat(part.trim()));
+  if (parts.length < 2 || parts.slice(0, 2).some(isNaN)) return null;
+  if (Math.abs(parts[0]) > 90 || Math.abs(parts[1]) > 180) return null;
+  return { latitude: parts[0], longitude: parts[1], altitude: isNaN(parts[2]) ? null : parts[2] };
+};
+
+export const formatGps = (gps: GpsCoordinates) =>
+  `${gps.latitude.toFixed(6)}, ${gps.longitude.toFixed(6)}${gps.altitude !== null ? `, ${gps.altitude.toFixed(1)}` : ''}`;
+
+// Display value of a field as read from the source file
+export const getMetadataFieldValue = (meta: ImageMetadata, field: MetadataField): string | null => {
+  switch (field) {
+    case 'camera': return [meta.make, meta.model].filter(Boolean).join(' ') || null;
+    case 'gps': return meta.gps ? formatGps(meta.gps) : null;
+    default: return meta[field];
+  }
+};
+
+// Apply the keep / strip / edit policy to what the source file contained
+export const resolveMetadata = (meta: ImageMetadata, policy: MetadataPolicy): ResolvedMetadata => {
+  const pick = (field: Exclude<MetadataField, 'camera' | 'gps'>) => {
+    const { mode, value } = policy[field];
+    if (mode === 'strip') return null;
+    return mode === 'edit' ? value.trim() || null : meta[field];
+  };
+
+  const camera = policy.camera;
+  const gps = policy.gps;
+  return {
+    make: camera.mode === 'keep' ? meta.make : null,
+    // An edited camera is written as the model only
+    model: camera.mode === 'keep' ? meta.model : camera.mode === 'edit' ? camera.value.trim() || null : null,
+    captureDate: pick('captureDate'),
+    artist: pick('artist'),
+    copyright: pick('copyright'),
+    description: pick('description'),
+    gps: gps.mode === 'keep' ? meta.gps : gps.mode === 'edit' ? parseGpsInput(gps.value) : null,
+  };
+};
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array; // Big-endian encoded value(s)
+}
+
+const asciiEntry = (tag: number, text: string): TiffEntry => {
+  const data = new TextEncoder().encode(`${text}\0`);
+  return { tag, type: 2, count: data.length, data };
+};
+
+const shortEntry = (tag: number, value: number): TiffEntry => ({
+  tag, type: 3, count: 1, data: new Uint8Array([value >> 8, value & 0xff]),
+});
+
+const longEntry = (tag: number, value: number): TiffEntry => {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, value);
+  return { tag, type: 4, count: 1, data };
+};
+
+const rationalEntry = (tag: number, values: number[], denominator: number): TiffEntry => {
+  const data = new Uint8Array(values.length * 8);
+  const view = new DataView(data.buffer);
+  values.forEach((value, i) => {
+    view.setUint32(i * 8, Math.round(value * denominator));
+    view.setUint32(i * 8 + 4, denominator);
+  });
+  return { tag, type: 5, count: values.length, data };
+};
+
+const toDms = (degrees: number) => {
+  const abs = Math.abs(degrees);
+  const d = Math.floor(abs);
+  const m = Math.floor((abs - d) * 60);
+  const s = (abs - d - m / 60) * 3600;
+  return [d, m, s];
+};
+
+const ifdSize = (entries: TiffEntry[]) =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length % 2) : 0), 0);
+
+// Writes an IFD at `offset` with its out-of-line values right behind it
+const writeIfd = (bytes: Uint8Array, view: DataView, offset: number, entries: TiffEntry[]) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, sorted.length);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  sorted.forEach((entry, i) => {
+    const p = offset + 2 + i * 12;
+    view.setUint16(p, entry.tag);
+    view.setUint16(p + 2, entry.type);
+    view.setUint32(p + 4, entry.count);
+    if (entry.data.length <= 4) {
+      bytes.set(entry.data, p + 8);
+    } else {
+      view.setUint32(p + 8, dataOffset);
+      bytes.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0); // No next IFD
+};
+
+// Big-endian TIFF structure holding the resolved fields, or null when nothing is left to write
+export const buildExif = (meta: ResolvedMetadata): Uint8Array | null => {
+  const ifd0: TiffEntry[] = [];
+  const exifIfd: TiffEntry[] = [];
+  const gpsIfd: TiffEntry[] = [];
+
+  if (meta.description) ifd0.push(asciiEntry(TAG.imageDescription, meta.description));
+  if (meta.make) ifd0.push(asciiEntry(TAG.make, meta.make));
+  if (meta.model) ifd0.push(asciiEntry(TAG.model, meta.model));
+  if (meta.artist) ifd0.push(asciiEntry(TAG.artist, meta.artist));
+  if (meta.copyright) ifd0.push(asciiEntry(TAG.copyright, meta.copyright));
+  if (meta.captureDate) exifIfd.push(asciiEntry(TAG.dateTimeOriginal, meta.captureDate));
+  if (meta.gps) {
+    const { latitude, longitude, altitude } = meta.gps;
+    gpsIfd.push(
+      { tag: TAG.gpsVersion, type: 1, count: 4, data: new Uint8Array([2, 3, 0, 0]) },
+      asciiEntry(TAG.gpsLatitudeRef, latitude < 0 ? 'S' : 'N'),
+      rationalEntry(TAG.gpsLatitude, toDms(latitude), 10000),
+      asciiEntry(TAG.gpsLongitudeRef, longitude < 0 ? 'W' : 'E'),
+      rationalEntry(TAG.gpsLongitude, toDms(longitude), 10000),
+    );
+    if (altitude !== null) {
+      gpsIfd.push(
+        { tag: TAG.gpsAltitudeRef, type: 1, count: 1, data: new Uint8Array([altitude < 0 ? 1 : 0]) },
+        rationalEntry(TAG.gpsAltitude, [Math.abs(altitude)], 100),
+      );
+    }
+  }
+  if (ifd0.length === 0 && exifIfd.length === 0 && gpsIfd.length === 0) return null;
+
+  // Pixels are already upright, so the output is always "normal" orientation
+  ifd0.push(shortEntry(TAG.orientation, 1));
+  // Pointer entries are inline LONGs, so adding them doesn't change the layout computed below
+  if (exifIfd.length) ifd0.push(longEntry(TAG.exifIfd, 0));
+  if (gpsIfd.length) ifd0.push(longEntry(TAG.gpsIfd, 0));
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exifIfd.length ? ifdSize(exifIfd) : 0);
+  const total = gpsOffset + (gpsIfd.length ? ifdSize(gpsIfd) : 0);
+
+  ifd0.forEach(entry => {
+    if (entry.tag === TAG.exifIfd) new DataView(entry.data.buffer).setUint32(0, exifOffset);
+    if (entry.tag === TAG.gpsIfd) new DataView(entry.data.buffer).setUint32(0, gpsOffset);
+  });
+
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0x4d4d); // "MM"
+  view.setUint16(2, 42);
+  view.setUint32(4, ifd0Offset);
+  writeIfd(bytes, view, ifd0Offset, ifd0);
+  if (exifIfd.length) writeIfd(bytes, view, exifOffset, exifIfd);
+  if (gpsIfd.length) writeIfd(bytes, view, gpsOffset, gpsIfd);
+  return bytes;
+};
+
+// Bytes embedMetadata will add for this EXIF block (segment / chunk framing included)
+export const getEmbeddedSize = (exif: Uint8Array, format: string) =>
+  format === 'image/jpeg' ? exif.length + 10 : format === 'image/png' ? exif.length + 12 : 0;
+
+// Insert the EXIF block into an encoded JPEG (APP1 after SOI, or after a JFIF APP0) or PNG (eXIf after IHDR).
+// Other formats are returned unchanged.
+export const embedMetadata = async (blob: Blob, exif: Uint8Array | null): Promise<Blob> => {
+  if (!exif || !supportsMetadataEmbedding(blob.type)) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  if (blob.type === 'image/jpeg') {
+    if (exif.length + 8 > 0xffff) return blob; // Doesn't fit in one APP1 segment
+    const segment = new Uint8Array(exif.length + 10);
+    const view = new DataView(segment.buffer);
+    view.setUint16(0, 0xffe1);
+    view.setUint16(2, exif.length + 8);
+    segment.set(new TextEncoder().encode('Exif\0\0'), 4);
+    segment.set(exif, 10);
+    // JFIF requires its APP0 right after SOI, so APP1 goes after it when there is one
+    const hasApp0 = bytes.length >= 6 && bytes[2] === 0xff && bytes[3] === 0xe0;
+    const insertAt = hasApp0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+    return new Blob([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)], { type: blob.type });
+  }
+
+  // PNG: signature (8) + IHDR chunk (25)
+  const ihdrEnd = 8 + 25;
+  return new Blob([bytes.subarray(0, ihdrEnd), createChunk('eXIf', exif), bytes.subarray(ihdrEnd)], { type: blob.type });
+};
@@ -0,0 +1,159 @@
+import { ImageConfig, QualityMetrics, QualityPoint } from '../types';
+import { Checkpoint, DecodedSource, PipelineCanvas, createCanvas, decodeBitmap, encodeCanvas, getContext2D, renderOutput } from './pipeline';
+
+// Objective quality scores. The reference is the rendered image right before encoding
+// (geometry, adjustments and watermark applied), so the scores measure what the encoder lost, not the edits.
+
+// Quality levels sampled for the size-vs-quality curve
+export const QUALITY_CURVE_LEVELS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+// Settings a curve doesn't depend on: it spans every quality and ignores the size budget
+const CURVE_INDEPENDENT_KEYS: (keyof ImageConfig)[] = ['quality', 'targetFileSize', 'allowDownscale'];
+
+// Scores of an encoding that kept every pixel
+export const EXACT_METRICS: QualityMetrics = { psnr: Infinity, ssim: 1 };
+
+// Formats written pixel for pixel (PNG only without palette reduction), so there is nothing to measure
+export const isExactEncoding = (config: Pick<ImageConfig, 'format' | 'paletteColors'>) =>
+  (config.format === 'image/png' && !config.paletteColors) || config.format === 'image/tiff' || config.format === 'image/bmp';
+
+// Whether a curve plotted with `plotted` still describes `config`. Compares by reference, which
+// is cheap enough for every render: edits replace the objects they change and keep the rest.
+export const isCurveCurrent = (plotted: ImageConfig, config: ImageConfig) =>
+  (Object.keys(config) as (keyof ImageConfig)[]).every(key =>
+    CURVE_INDEPENDENT_KEYS.includes(key) || plotted[key] === config[key]
+  );
+
+// SSIM windows: 8x8 pixels, every 4 pixels, with the usual stabilising constants for 8-bit data
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+export const computePsnr = (a: ImageData, b: ImageData): number => {
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = a.data[i + c] - b.data[i + c];
+      sum += diff * diff;
+    }
+  }
+  const mse = sum / ((a.data.length / 4) * 3);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+const toLuma = ({ data, width, height }: ImageData) => {
+  const luma = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return luma;
+};
+
+export const computeSsim = (a: ImageData, b: ImageData): number => {
+  const { width, height } = a;
+  const x = toLuma(a);
+  const y = toLuma(b);
+  // Images smaller than a window are scored as one window
+  const windowWidth = Math.min(SSIM_WINDOW, width);
+  const windowHeight = Math.min(SSIM_WINDOW, height);
+  const count = windowWidth * windowHeight;
+
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top + windowHeight <= height; top += SSIM_STEP) {
+    for (let left = 0; left + windowWidth <= width; left += SSIM_STEP) {
+      let sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+      for (let row = top; row < top + windowHeight; row++) {
+        for (let p = row * width + left, end = p + windowWidth; p < end; p++) {
+          sumX += x[p];
+          sumY += y[p];
+          sumXX += x[p] * x[p];
+          sumYY += y[p] * y[p];
+          sumXY += x[p] * y[p];
+        }
+      }
+      const meanX = sumX / count;
+      const meanY = sumY / count;
+      const varX = sumXX / count - meanX * meanX;
+      const varY = sumYY / count - meanY * meanY;
+      const covariance = sumXY / count - meanX * meanY;
+      total += ((2 * meanX * meanY + C1) * (2 * covariance + C2)) /
+        ((meanX * meanX + meanY * meanY + C1) * (varX + varY + C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+};
+
+const readPixels = (image: CanvasImageSource, width: number, height: number): ImageData => {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas, 'metrics');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// Score an encoding against the canvas it came from. A result that was downscaled to meet
+// a size budget is compared with the reference scaled to the same size.
+const scoreEncoding = async (reference: PipelineCanvas, encoded: Blob): Promise<QualityMetrics> => {
+  const bitmap = await decodeBitmap(encoded);
+  const { width, height } = bitmap;
+  const actual = readPixels(bitmap, width, height);
+  bitmap.close();
+  const expected = readPixels(reference, width, height);
+  return { psnr: computePsnr(expected, actual), ssim: computeSsim(expected, actual) };
+};
+
+export const measureQuality = async (
+  source: DecodedSource,
+  config: ImageConfig,
+  encoded: Blob,
+  checkpoint: Checkpoint = () => {}
+): Promise<QualityMetrics> => {
+  const reference = await renderOutput(source, config, checkpoint);
+  checkpoint();
+  return scoreEncoding(reference, encoded);
+};
+
+// Encode the rendered image at each of QUALITY_CURVE_LEVELS and score every encoding
+export const plotQualityCurve = async (
+  source: DecodedSource,
+  config: ImageConfig,
+  checkpoint: Checkpoint = () => {}
+): Promise<QualityPoint[]> => {
+  const reference = await renderOutput(source, config, checkpoint);
+  const points: QualityPoint[] = [];
+  for (const quality of QUALITY_CURVE_LEVELS) {
+    checkpoint();
+    const blob = await encodeCanvas(reference, config, quality);
+    points.push({ quality, size: blob.size, ...(await scoreEncoding(reference, blob)) });
+  }
+  return points;
+};
+
+export const formatPsnr = (psnr: number) => (Number.isFinite(psnr) ? `${psnr.toFixed(1)} dB` : '∞');
+export const formatSsim = (ssim: number) => ssim.toFixed(4);
+
+// The knee: the point farthest above the straight line from the smallest to the largest
+// encoding, i.e. where extra bytes stop buying much SSIM. Both axes are normalised first.
+export const findKneePoint = (points: QualityPoint[]): QualityPoint | null => {
+  if (points.length < 3) return null;
+  const sorted = [...points].sort((a, b) => a.size - b.size);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const sizeRange = last.size - first.size;
+  const ssimRange = last.ssim - first.ssim;
+  if (sizeRange <= 0 || ssimRange <= 0) return null;
+
+  let knee: QualityPoint | null = null;
+  let bestGap = 0;
+  for (const point of sorted) {
+    const gap = (point.ssim - first.ssim) / ssimRange - (point.size - first.size) / sizeRange;
+    if (gap > bestGap) {
+      bestGap = gap;
+      knee = point;
+    }
+  }
+  return knee;
+};
@@ -0,0 +1,354 @@
+import { ImageConfig, ImageMetadata, ProcessResult } from '../types';
+import { applyColorAdjustments, hasColorAdjustments } from './colorUtils';
+import { getIntermediateDimensions } from './imageUtils';
+import { buildExif, embedMetadata, getEmbeddedSize, readImageMetadata, resolveMetadata } from './metadata';
+import { EncodeEffort, findDecoder, getEncoder, isLossyFormat } from './codecs';
+import { resampleImageData } from './resample';
+import { drawWatermark, hasWatermark, loadWatermarkImage } from './watermark';
+import { drawAnnotations, getSourceTransform } from './annotations';
+import { applyRedactions } from './redaction';
+
+// The image pipeline. It only touches canvas APIs that exist both on the main thread
+// and inside a Web Worker, so the same code runs in utils/imageWorker.ts and as the
+// fallback where OffscreenCanvas is unavailable.
+
+export type PipelineCanvas = HTMLCanvasElement | OffscreenCanvas;
+type PipelineContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Called between stages; throws to abandon a job that has been superseded
+export type Checkpoint = () => void;
+
+export const createCanvas = (width: number, height: number): PipelineCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getContext2D = (canvas: PipelineCanvas, label: string): PipelineContext => {
+  const ctx = canvas.getContext('2d') as PipelineContext | null;
+  if (!ctx) throw new Error(`Could not get ${label} canvas context`);
+  return ctx;
+};
+
+// The browser's own encoder
+const encodeNatively = (canvas: PipelineCanvas, format: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type: format, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))),
+      format,
+      quality
+    );
+  });
+};
+
+// Formats with a registered codec (PNG, AVIF, GIF, BMP, TIFF, ICO) are encoded from the raw
+// pixels; JPEG and WebP go through the canvas
+export const encodeCanvas = (
+  canvas: PipelineCanvas,
+  config: Pick<ImageConfig, 'format' | 'paletteColors' | 'dither'>,
+  quality: number,
+  effort: EncodeEffort = 'best'
+): Promise<Blob> => {
+  const encoder = getEncoder(config.format);
+  if (!encoder) return encodeNatively(canvas, config.format, quality);
+  const pixels = getContext2D(canvas, 'encode').getImageData(0, 0, canvas.width, canvas.height);
+  return encoder.encode(pixels, { quality, colors: config.paletteColors, dither: config.dither, effort });
+};
+
+// A source file decoded once and reused for every job on it
+export interface DecodedSource {
+  bitmap: ImageBitmap; // Already turned upright according to its EXIF orientation
+  metadata: ImageMetadata;
+}
+
+// Browser decoding first; files it can't read (HEIC, TIFF...) go to a registered decoder
+export const decodeBitmap = async (source: Blob): Promise<ImageBitmap> => {
+  try {
+    // Explicit, since older engines default to ignoring the orientation tag
+    return await createImageBitmap(source, { imageOrientation: 'from-image' });
+  } catch (e) {
+    const bytes = new Uint8Array(await source.arrayBuffer());
+    const decoder = findDecoder(bytes);
+    if (!decoder) throw e;
+    return createImageBitmap(await decoder.decode(bytes));
+  }
+};
+
+export const decodeSource = async (source: Blob): Promise<DecodedSource> => {
+  const [bitmap, metadata] = await Promise.all([decodeBitmap(source), readImageMetadata(source)]);
+  return { bitmap, metadata };
+};
+
+// A copy of the source with its redactions applied; the bitmap itself is shared between jobs
+const redactSource = (img: ImageBitmap, config: ImageConfig): PipelineCanvas => {
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = getContext2D(canvas, 'redaction');
+  ctx.drawImage(img, 0, 0);
+  applyRedactions(ctx, img.width, img.height, config.redactions);
+  return canvas;
+};
+
+// Runs the pixel pipeline (redactions, geometry and annotations, then tonal adjustments) and returns the unencoded result
+export const renderImage = (
+  img: ImageBitmap,
+  config: ImageConfig,
+  checkpoint: Checkpoint = () => {}
+): PipelineCanvas => {
+  // --- Pass 1: Create the Intermediate Image (Rotated, Flipped & Straightened) ---
+  // We draw the full rotated/flipped image onto a canvas first. 
+  // This simplifies the coordinate system for the subsequent crop/resize step.
+  
+  const originalWidth = img.width;
+  const originalHeight = img.height;
+  
+  // Calculate dimensions of the rotated bounding box (or the auto-cropped area when straightened)
+  const { width: intermediateWidth, height: intermediateHeight } = getIntermediateDimensions(
+    originalWidth, 
+    originalHeight, 
+    config
+  );
+
+  const intermediateCanvas = createCanvas(intermediateWidth, intermediateHeight);
+  const ictx = getContext2D(intermediateCanvas, 'intermediate');
+
+  if (config.straighten && config.straightenFill === 'color') {
+    ictx.fillStyle = config.fillColor;
+    ictx.fillRect(0, 0, intermediateWidth, intermediateHeight);
+  }
+
+  ictx.save();
+  ictx.translate(intermediateWidth / 2, intermediateHeight / 2);
+  // Straightening happens in the already quarter-turned frame, so the two angles simply add up
+  ictx.rotate(((config.rotation + (config.straighten || 0)) * Math.PI) / 180);
+  ictx.scale(
+    config.flipHorizontal ? -1 : 1,
+    config.flipVertical ? -1 : 1
+  );
+  // Draw centered
+  ictx.drawImage(
+    config.redactions.length > 0 ? redactSource(img, config) : img,
+    -originalWidth / 2,
+    -originalHeight / 2
+  );
+  ictx.restore();
+
+  // Markup goes onto the intermediate image, so crop and resize treat it like the pixels under it
+  if (config.annotations.length > 0) {
+    drawAnnotations(ictx, config.annotations, getSourceTransform(originalWidth, originalHeight, config));
+  }
+
+  // If we only need the intermediate image (e.g. for previewing crop), 
+  // and no crop/resize is defined (or specific flag?), we could stop here.
+  // However, usually this function is called to get the FINAL output.
+  
+  // --- Pass 2: Crop & Resize ---
+  checkpoint();
+  
+  // Determine Source Rect (Crop) in the Intermediate Coordinate System
+  let sx = 0, sy = 0, sWidth = intermediateWidth, sHeight = intermediateHeight;
+
+  if (config.cropRect) {
+    sx = config.cropRect.x;
+    sy = config.cropRect.y;
+    sWidth = config.cropRect.width;
+    sHeight = config.cropRect.height;
+  } else if (config.cropRatio) {
+    // Fallback: Center Crop if ratio provided but no specific rect (legacy support)
+    const currentRatio = intermediateWidth / intermediateHeight;
+    if (currentRatio > config.cropRatio) {
+      sWidth = intermediateHeight * config.cropRatio;
+      sx = (intermediateWidth - sWidth) / 2;
+    } else {
+      sHeight = intermediateWidth / config.cropRatio;
+      sy = (intermediateHeight - sHeight) / 2;
+    }
+  }
+
+  // Determine Destination Size (Resize)
+  // If target dimensions are provided, use them.
+  // Otherwise, use the cropped dimensions.
+  let finalWidth = config.targetWidth > 0 ? config.targetWidth : sWidth;
+  let finalHeight = config.targetHeight > 0 ? config.targetHeight : sHeight;
+
+  // Canvas sizes are integers; fractional crop sizes truncate exactly like assigning canvas.width did
+  const finalCanvas = createCanvas(Math.floor(finalWidth), Math.floor(finalHeight));
+  const fctx = getContext2D(finalCanvas, 'final');
+
+  if (config.resampling === 'browser' || (finalWidth === sWidth && finalHeight === sHeight)) {
+    // Draw from Intermediate -> Final
+    fctx.drawImage(
+      intermediateCanvas,
+      sx, sy, sWidth, sHeight, // Source (Cropped)
+      0, 0, finalWidth, finalHeight // Dest (Resized)
+    );
+  } else {
+    // Resample in TypeScript from the pixel-aligned crop, so every browser produces the same output
+    const cropped = ictx.getImageData(Math.round(sx), Math.round(sy), Math.round(sWidth), Math.round(sHeight));
+    fctx.putImageData(resampleImageData(cropped, finalCanvas.width, finalCanvas.height, config.resampling), 0, 0);
+  }
+
+  // --- Pass 3: Tonal Adjustments ---
+  // Done on the final pixels so the cost scales with the output size, not the source
+  if (hasColorAdjustments(config)) {
+    checkpoint();
+    const imageData = fctx.getImageData(0, 0, finalWidth, finalHeight);
+    applyColorAdjustments(imageData, config);
+    fctx.putImageData(imageData, 0, 0);
+  }
+
+  return finalCanvas;
+};
+
+// renderImage plus the watermark: exactly the pixels that get encoded
+export const renderOutput = async (
+  source: DecodedSource,
+  config: ImageConfig,
+  checkpoint: Checkpoint = () => {}
+): Promise<PipelineCanvas> => {
+  const canvas = renderImage(source.bitmap, config, checkpoint);
+  const { watermark } = config;
+  if (hasWatermark(watermark)) {
+    const logo = watermark.type === 'image' && watermark.logoId ? await loadWatermarkImage(watermark.logoId) : null;
+    checkpoint();
+    drawWatermark(getContext2D(canvas, 'watermark'), canvas.width, canvas.height, watermark, logo);
+  }
+  return canvas;
+};
+
+const MIN_QUALITY = 0.1;
+const QUALITY_SEARCH_STEPS = 7; // Resolution of ~0.01 over the 0.1 - 1.0 range
+const MIN_SCALE = 0.05;
+
+const scaleCanvas = (
+  source: PipelineCanvas,
+  scale: number,
+  resampling: ImageConfig['resampling']
+): PipelineCanvas => {
+  const canvas = createCanvas(
+    Math.max(1, Math.round(source.width * scale)),
+    Math.max(1, Math.round(source.height * scale))
+  );
+  const ctx = getContext2D(canvas, 'scale');
+
+  if (resampling === 'browser') {
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  } else {
+    const sctx = getContext2D(source, 'source');
+    const pixels = sctx.getImageData(0, 0, source.width, source.height);
+    ctx.putImageData(resampleImageData(pixels, canvas.width, canvas.height, resampling), 0, 0);
+  }
+  return canvas;
+};
+
+// Binary-search the highest quality (up to maxQuality) whose encoding fits in maxBytes
+const searchQuality = async (
+  canvas: PipelineCanvas,
+  config: ImageConfig,
+  maxBytes: number,
+  maxQuality: number,
+  checkpoint: Checkpoint
+) => {
+  const best = { blob: await encodeCanvas(canvas, config, maxQuality), quality: maxQuality };
+  if (best.blob.size <= maxBytes) return { ...best, fits: true };
+  // Lossless formats ignore the quality argument, so only downscaling can help
+  if (!isLossyFormat(config.format)) return { ...best, fits: false };
+
+  const lowest = { blob: await encodeCanvas(canvas, config, MIN_QUALITY), quality: MIN_QUALITY };
+  if (lowest.blob.size > maxBytes) return { ...lowest, fits: false };
+
+  let lo = MIN_QUALITY;
+  let hi = maxQuality;
+  let fit = lowest;
+  for (let i = 0; i < QUALITY_SEARCH_STEPS; i++) {
+    checkpoint();
+    const mid = (lo + hi) / 2;
+    const blob = await encodeCanvas(canvas, config, mid);
+    if (blob.size <= maxBytes) {
+      fit = { blob, quality: mid };
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return { ...fit, fits: true };
+};
+
+// Re-encode (and optionally shrink) a rendered canvas until it fits in config.targetFileSize.
+// config.quality is the upper bound of the search.
+export const fitCanvasToFileSize = async (
+  canvas: PipelineCanvas,
+  config: ImageConfig,
+  checkpoint: Checkpoint = () => {}
+): Promise<Omit<ProcessResult, 'sourceWidth' | 'sourceHeight'>> => {
+  const maxBytes = config.targetFileSize;
+  let scale = 1;
+  let current = canvas;
+  for (;;) {
+    const attempt = await searchQuality(current, config, maxBytes, config.quality, checkpoint);
+    if (attempt.fits || !config.allowDownscale || scale <= MIN_SCALE) {
+      return {
+        blob: attempt.blob,
+        width: current.width,
+        height: current.height,
+        quality: Math.round(attempt.quality * 100) / 100,
+        scale,
+        fitsBudget: attempt.fits
+      };
+    }
+    checkpoint();
+    // Encoded size grows roughly with the pixel count, so shrink each side by the square root of the overshoot
+    const overshoot = maxBytes / attempt.blob.size;
+    scale = Math.max(MIN_SCALE, scale * Math.min(0.9, Math.sqrt(overshoot) * 0.95));
+    current = scaleCanvas(canvas, scale, config.resampling);
+  }
+};
+
+// Render and encode one image: the unit of work behind every preview, batch item and export.
+// 'fast' effort is for live previews; it is ignored under a size budget, where the sizes
+// the search settles on have to be those of the exported file.
+export const runPipeline = async (
+  source: DecodedSource,
+  config: ImageConfig,
+  checkpoint: Checkpoint = () => {},
+  effort: EncodeEffort = 'best'
+): Promise<ProcessResult> => {
+  const canvas = await renderOutput(source, config, checkpoint);
+  checkpoint();
+
+  const exif = buildExif(resolveMetadata(source.metadata, config.metadata));
+  const sourceSize = { sourceWidth: source.bitmap.width, sourceHeight: source.bitmap.height };
+
+  if (config.targetFileSize > 0) {
+    // Leave room in the budget for the metadata embedded afterwards
+    const reserved = exif ? getEmbeddedSize(exif, config.format) : 0;
+    const result = await fitCanvasToFileSize(
+      canvas,
+      { ...config, targetFileSize: Math.max(1, config.targetFileSize - reserved) },
+      checkpoint
+    );
+    return { ...result, ...sourceSize, blob: await embedMetadata(result.blob, exif) };
+  }
+
+  const draft = effort === 'fast' && !!getEncoder(config.format)?.fastEffort;
+  const blob = await encodeCanvas(canvas, config, config.quality, effort);
+  // Reference for the live savings readout: what the browser alone would have produced, same
+  // metadata included. One native encode, cheap next to ours even in previews.
+  const nativeSize = config.format === 'image/png'
+    ? (await encodeNatively(canvas, config.format, config.quality)).size + (exif ? getEmbeddedSize(exif, config.format) : 0)
+    : undefined;
+  return {
+    blob: await embedMetadata(blob, exif),
+    nativeSize,
+    draft,
+    width: canvas.width,
+    height: canvas.height,
+    quality: config.quality,
+    scale: 1,
+    fitsBudget: true,
+    ...sourceSize
+  };
+};
@@ -0,0 +1,206 @@
+import { ImageConfig, MetadataField, MetadataPolicy, WatermarkConfig } from '../types';
+import { createId } from './id';
+import { readFileAsDataURL } from './imageUtils';
+import { loadLogo, storeLogo } from './logoStore';
+import { WATERMARK_ANCHORS } from './watermark';
+
+export interface Preset {
+  id: string;
+  name: string;
+  config: PresetConfig;
+  createdAt: number;
+}
+
+// cropRect, annotations and redactions are in pixels of one particular image, so presets only carry the crop ratio
+export type PresetConfig = Omit<ImageConfig, 'cropRect' | 'annotations' | 'redactions'>;
+
+// Watermark logos by id, as data URLs. Preset files carry the ones their presets use,
+// since the logo store stays behind in the browser that made them.
+type PresetLogos = Record<string, string>;
+
+interface PresetFile {
+  version: number;
+  presets: Preset[];
+  logos?: PresetLogos;
+}
+
+const STORAGE_KEY = 'optipic.presets';
+const FILE_VERSION = 2;
+
+export const createPreset = (name: string, config: ImageConfig): Preset => {
+  const { cropRect: _cropRect, annotations: _annotations, redactions: _redactions, ...rest } = config;
+  return { id: createId(), name: name.trim(), config: rest, createdAt: Date.now() };
+};
+
+// Settings a preset produces when applied. Keys the preset doesn't know about
+// (saved before a setting existed) fall back to `defaults`, which also supplies the annotations and redactions.
+export const applyPreset = (defaults: ImageConfig, preset: Preset): ImageConfig => ({
+  ...defaults,
+  ...preset.config,
+  cropRect: null,
+});
+
+// String settings that only accept a fixed set of values
+const ALLOWED_VALUES: Partial<Record<keyof ImageConfig, readonly string[]>> = {
+  format: [
+    'image/jpeg', 'image/png', 'image/webp', 'image/avif',
+    'image/gif', 'image/bmp', 'image/tiff', 'image/x-icon',
+  ],
+  resampling: ['browser', 'nearest', 'bilinear', 'bicubic', 'lanczos3', 'stepwise'],
+  straightenFill: ['crop', 'color'],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sanitizeMetadataPolicy = (raw: unknown, defaults: MetadataPolicy): MetadataPolicy => {
+  const policy = { ...defaults };
+  if (!isRecord(raw)) return policy;
+  (Object.keys(defaults) as MetadataField[]).forEach(field => {
+    const entry = raw[field];
+    if (isRecord(entry) && ['keep', 'strip', 'edit'].includes(entry.mode as string) && typeof entry.value === 'string') {
+      policy[field] = { mode: entry.mode as MetadataPolicy[MetadataField]['mode'], value: entry.value };
+    }
+  });
+  return policy;
+};
+
+const WATERMARK_VALUES: Partial<Record<keyof WatermarkConfig, readonly string[]>> = {
+  type: ['none', 'text', 'image'],
+  layout: ['anchor', 'tile'],
+  anchor: WATERMARK_ANCHORS,
+};
+
+// Only embedded images; a preset must not make the editor fetch arbitrary URLs
+const isLogoDataURL = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:image/');
+
+// Logos of presets saved before the logo store (version 1) are moved into `logos`
+const sanitizeWatermark = (raw: unknown, defaults: WatermarkConfig, logos: PresetLogos): WatermarkConfig => {
+  const watermark = { ...defaults };
+  if (!isRecord(raw)) return watermark;
+  const result = watermark as Record<string, unknown>;
+  (Object.keys(defaults) as (keyof WatermarkConfig)[]).forEach(key => {
+    const value = raw[key];
+    if (key === 'logoId') {
+      if (value === null || (typeof value === 'string' && value)) {
+        result.logoId = value;
+      } else if (isLogoDataURL(raw.image)) {
+        result.logoId = createId();
+        logos[result.logoId as string] = raw.image;
+      }
+    } else if (WATERMARK_VALUES[key]) {
+      if (WATERMARK_VALUES[key].includes(value as string)) result[key] = value;
+    } else if (value !== undefined && typeof value === typeof defaults[key]) {
+      result[key] = value;
+    }
+  });
+  return watermark;
+};
+
+// Keep only known keys whose value has the same type as the default, so a hand-edited or
+// outdated file can't put the editor into a state it doesn't understand
+const sanitizeConfig = (raw: unknown, defaults: ImageConfig, logos: PresetLogos): PresetConfig => {
+  const { cropRect: _cropRect, annotations: _annotations, redactions: _redactions, ...config } = defaults;
+  if (!isRecord(raw)) return config;
+  const result = config as Record<string, unknown>;
+  (Object.keys(config) as (keyof PresetConfig)[]).forEach(key => {
+    const value = raw[key];
+    if (key === 'metadata') {
+      result.metadata = sanitizeMetadataPolicy(value, defaults.metadata);
+    } else if (key === 'watermark') {
+      result.watermark = sanitizeWatermark(value, defaults.watermark, logos);
+    } else if (key === 'cropRatio') {
+      if (value === null || (typeof value === 'number' && value > 0)) result.cropRatio = value;
+    } else if (ALLOWED_VALUES[key]) {
+      if (ALLOWED_VALUES[key].includes(value as string)) result[key] = value;
+    } else if (value !== undefined && typeof value === typeof defaults[key]) {
+      result[key] = value;
+    }
+  });
+  return config;
+};
+
+const sanitizePreset = (raw: unknown, defaults: ImageConfig, logos: PresetLogos): Preset | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createId(),
+    name: raw.name.trim(),
+    config: sanitizeConfig(raw.config, defaults, logos),
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+  };
+};
+
+const serializePresets = (presets: Preset[], logos?: PresetLogos): string =>
+  JSON.stringify({ version: FILE_VERSION, presets, logos } satisfies PresetFile, null, 2);
+
+// A preset file: the presets plus every logo they use
+export const exportPresets = async (presets: Preset[]): Promise<string> => {
+  const logos: PresetLogos = {};
+  const ids = new Set(presets.map(preset => preset.config.watermark.logoId).filter((id): id is string => id !== null));
+  for (const id of ids) {
+    const logo = await loadLogo(id);
+    if (logo) logos[id] = await readFileAsDataURL(logo);
+  }
+  return serializePresets(presets, logos);
+};
+
+// Puts the logos that came with presets into the logo store, under the ids the presets use
+export const importLogos = async (logos: PresetLogos) => {
+  for (const [id, dataURL] of Object.entries(logos)) {
+    try {
+      await storeLogo(await (await fetch(dataURL)).blob(), id);
+    } catch (e) {
+      // The presets still apply, just without their logo
+      console.warn("Could not store a preset logo", e);
+    }
+  }
+};
+
+const readPresetList = (data: unknown, defaults: ImageConfig): { presets: Preset[]; logos: PresetLogos } => {
+  const list = isRecord(data) && Array.isArray(data.presets) ? data.presets : Array.isArray(data) ? data : [data];
+  const logos: PresetLogos = {};
+  const presets = list.map(item => sanitizePreset(item, defaults, logos)).filter((p): p is Preset => p !== null);
+  if (isRecord(data) && isRecord(data.logos)) {
+    Object.entries(data.logos).forEach(([id, dataURL]) => {
+      if (isLogoDataURL(dataURL)) logos[id] = dataURL;
+    });
+  }
+  return { presets, logos };
+};
+
+// Accepts a preset file, a bare array of presets, or a single preset. The logos still
+// have to be stored with importLogos.
+export const parsePresets = (text: string, defaults: ImageConfig): { presets: Preset[]; logos: PresetLogos } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  const parsed = readPresetList(data, defaults);
+  if (parsed.presets.length === 0) throw new Error('No presets found in file');
+  return parsed;
+};
+
+export const loadStoredPresets = (defaults: ImageConfig): Preset[] => {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    if (!text) return [];
+    const { presets, logos } = readPresetList(JSON.parse(text), defaults);
+    // Logos of presets saved before the logo store; the presets are stored again without them
+    importLogos(logos);
+    return presets;
+  } catch (e) {
+    console.warn("Could not load saved presets", e);
+    return [];
+  }
+};
+
+export const storePresets = (presets: Preset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+  } catch (e) {
+    // Private browsing or quota exceeded: presets still work for this session
+    console.warn("Could not save presets", e);
+  }
+};
@@ -0,0 +1,63 @@
+import { CropRect, ImageConfig, ProcessingStatus, ProcessResult } from '../types';
+import { getFormatExtension } from './imageUtils';
+
+// Target specs of common social and marketplace slots. Names live in i18n under `profiles`.
+export interface ExportProfile {
+  id: ProfileId;
+  width: number;
+  height: number;
+  format: ImageConfig['format'];
+  maxBytes: number; // Upload limit of the platform
+}
+
+export type ProfileId =
+  | 'instagramSquare'
+  | 'instagramPortrait'
+  | 'instagramStory'
+  | 'xHeader'
+  | 'linkedinBanner'
+  | 'youtubeThumbnail'
+  | 'openGraph'
+  | 'amazonMain';
+
+// One selected profile in the export list
+export interface ProfileVariant {
+  profileId: ProfileId;
+  cropRect: CropRect | null; // In intermediate image coordinates; null = centered crop
+  status: ProcessingStatus; // IDLE (not generated or outdated), PROCESSING, SUCCESS or ERROR
+  result: ProcessResult | null;
+  error: string | null;
+}
+
+const MB = 1024 * 1024;
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  { id: 'instagramSquare', width: 1080, height: 1080, format: 'image/jpeg', maxBytes: 8 * MB },
+  { id: 'instagramPortrait', width: 1080, height: 1350, format: 'image/jpeg', maxBytes: 8 * MB },
+  { id: 'instagramStory', width: 1080, height: 1920, format: 'image/jpeg', maxBytes: 8 * MB },
+  { id: 'xHeader', width: 1500, height: 500, format: 'image/jpeg', maxBytes: 2 * MB },
+  { id: 'linkedinBanner', width: 1584, height: 396, format: 'image/jpeg', maxBytes: 8 * MB },
+  { id: 'youtubeThumbnail', width: 1280, height: 720, format: 'image/jpeg', maxBytes: 2 * MB },
+  { id: 'openGraph', width: 1200, height: 630, format: 'image/jpeg', maxBytes: 8 * MB },
+  // Zoom on the product page needs 1600px+ on the longest side
+  { id: 'amazonMain', width: 2000, height: 2000, format: 'image/jpeg', maxBytes: 10 * MB },
+];
+
+export const getExportProfile = (id: ProfileId): ExportProfile =>
+  EXPORT_PROFILES.find(profile => profile.id === id) as ExportProfile;
+
+// The editor's settings (rotation, straighten, adjustments, metadata...) with the profile's
+// crop, size, format and byte budget on top
+export const getProfileConfig = (config: ImageConfig, profile: ExportProfile, cropRect: CropRect): ImageConfig => ({
+  ...config,
+  cropRatio: profile.width / profile.height,
+  cropRect,
+  targetWidth: profile.width,
+  targetHeight: profile.height,
+  format: profile.format,
+  targetFileSize: profile.maxBytes,
+  allowDownscale: false,
+});
+
+export const getProfileFilename = (baseName: string, profile: ExportProfile) =>
+  `${baseName}-${profile.id}-${profile.width}x${profile.height}.${getFormatExtension(profile.format)}`;
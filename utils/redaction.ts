@@ -0,0 +1,164 @@
+import { AnnotationPoint, DetectedRegion, ImageConfig, Redaction, RedactionStyle } from '../types';
+import { NEUTRAL_ADJUSTMENTS } from './colorUtils';
+import { STRIP_ALL_METADATA } from './metadata';
+import { SourceTransform } from './annotations';
+
+// Redaction stage: boxes whose pixels are pixelated, blurred or painted over on the source
+// itself, before geometry, annotations and everything else. Nothing after this stage can
+// bring the original pixels back, whatever the crop, resize or export format.
+
+export const REDACTION_STYLES: RedactionStyle[] = ['pixelate', 'blur', 'fill'];
+
+// Auto-detection sees a downscaled copy; boxes come back as fractions, so the size barely matters
+const DETECTION_MAX_SIZE = 1536;
+
+// Coarse enough that faces and text are unrecognisable: ~8 blocks / blur radii across the box
+const REDACTION_DIVISIONS = 8;
+const MIN_BLOCK_SIZE = 4;
+const BLUR_PASSES = 3; // Three box blurs approximate a gaussian
+
+type RedactionContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The source box covering a box drawn on the intermediate image. Under straightening this
+// is the bounding box of the tilted rectangle, so it errs on the side of hiding more.
+export const toSourceBox = (transform: SourceTransform, a: AnnotationPoint, b: AnnotationPoint): Box => {
+  const corners = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }].map(transform.toSource);
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Corners of a source box on the intermediate image, for drawing its outline
+export const toIntermediateCorners = (transform: SourceTransform, box: Box): AnnotationPoint[] =>
+  [
+    { x: box.x, y: box.y },
+    { x: box.x + box.width, y: box.y },
+    { x: box.x + box.width, y: box.y + box.height },
+    { x: box.x, y: box.y + box.height },
+  ].map(transform.toIntermediate);
+
+// Detected fractions -> source pixels
+export const toSourceRegion = (region: DetectedRegion, sourceWidth: number, sourceHeight: number): Box => ({
+  x: region.x * sourceWidth,
+  y: region.y * sourceHeight,
+  width: region.width * sourceWidth,
+  height: region.height * sourceHeight,
+});
+
+// What auto-detection gets to see: the upright source without any edits, downscaled and
+// without metadata (GPS etc. has no business leaving the device for this)
+export const getDetectionConfig = (config: ImageConfig, sourceWidth: number, sourceHeight: number): ImageConfig => {
+  const scale = Math.min(1, DETECTION_MAX_SIZE / Math.max(sourceWidth, sourceHeight));
+  return {
+    ...config,
+    ...NEUTRAL_ADJUSTMENTS,
+    rotation: 0,
+    straighten: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+    cropRatio: null,
+    cropRect: null,
+    targetWidth: Math.max(1, Math.round(sourceWidth * scale)),
+    targetHeight: Math.max(1, Math.round(sourceHeight * scale)),
+    targetFileSize: 0,
+    resampling: 'browser',
+    format: 'image/jpeg',
+    quality: 0.85,
+    metadata: STRIP_ALL_METADATA,
+    watermark: { ...config.watermark, type: 'none' },
+    annotations: [],
+    redactions: [],
+  };
+};
+
+// Replace every block with its average colour
+const pixelate = (pixels: ImageData, blockSize: number) => {
+  const { data, width, height } = pixels;
+  for (let by = 0; by < height; by += blockSize) {
+    for (let bx = 0; bx < width; bx += blockSize) {
+      const maxX = Math.min(bx + blockSize, width);
+      const maxY = Math.min(by + blockSize, height);
+      const sum = [0, 0, 0, 0];
+      for (let y = by; y < maxY; y++) {
+        for (let x = bx; x < maxX; x++) {
+          const i = (y * width + x) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += data[i + c];
+        }
+      }
+      const count = (maxX - bx) * (maxY - by);
+      for (let y = by; y < maxY; y++) {
+        for (let x = bx; x < maxX; x++) {
+          const i = (y * width + x) * 4;
+          for (let c = 0; c < 4; c++) data[i + c] = Math.round(sum[c] / count);
+        }
+      }
+    }
+  }
+};
+
+// One box blur along rows (`horizontal`) or columns, edges clamped to the box
+const boxBlurPass = (data: Uint8ClampedArray, width: number, height: number, radius: number, horizontal: boolean) => {
+  const length = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  const line = new Float32Array(length * 4);
+  const windowSize = radius * 2 + 1;
+  for (let l = 0; l < lines; l++) {
+    const index = (k: number) => (horizontal ? l * width + k : k * width + l) * 4;
+    for (let k = 0; k < length; k++) {
+      const i = index(k);
+      for (let c = 0; c < 4; c++) line[k * 4 + c] = data[i + c];
+    }
+    // Running sum over the window, clamping reads to the ends of the line
+    const sum = [0, 0, 0, 0];
+    for (let k = -radius; k <= radius; k++) {
+      const j = Math.max(0, Math.min(length - 1, k)) * 4;
+      for (let c = 0; c < 4; c++) sum[c] += line[j + c];
+    }
+    for (let k = 0; k < length; k++) {
+      const i = index(k);
+      for (let c = 0; c < 4; c++) data[i + c] = Math.round(sum[c] / windowSize);
+      const out = Math.max(0, k - radius) * 4;
+      const next = Math.min(length - 1, k + radius + 1) * 4;
+      for (let c = 0; c < 4; c++) sum[c] += line[next + c] - line[out + c];
+    }
+  }
+};
+
+const blur = (pixels: ImageData, radius: number) => {
+  for (let pass = 0; pass < BLUR_PASSES; pass++) {
+    boxBlurPass(pixels.data, pixels.width, pixels.height, radius, true);
+    boxBlurPass(pixels.data, pixels.width, pixels.height, radius, false);
+  }
+};
+
+/** Destroy the pixels under each redaction, in place. Boxes are in pixels of the context's canvas. */
+export const applyRedactions = (ctx: RedactionContext, width: number, height: number, redactions: Redaction[]) => {
+  redactions.forEach(redaction => {
+    // Round outwards, so partly covered pixels are redacted too
+    const x = Math.max(0, Math.floor(redaction.x));
+    const y = Math.max(0, Math.floor(redaction.y));
+    const w = Math.min(width, Math.ceil(redaction.x + redaction.width)) - x;
+    const h = Math.min(height, Math.ceil(redaction.y + redaction.height)) - y;
+    if (w <= 0 || h <= 0) return;
+
+    if (redaction.style === 'fill') {
+      ctx.fillStyle = redaction.color;
+      ctx.fillRect(x, y, w, h);
+      return;
+    }
+    const step = Math.max(MIN_BLOCK_SIZE, Math.round(Math.max(w, h) / REDACTION_DIVISIONS));
+    const pixels = ctx.getImageData(x, y, w, h);
+    if (redaction.style === 'pixelate') pixelate(pixels, step);
+    else blur(pixels, step);
+    ctx.putImageData(pixels, x, y);
+  });
+};
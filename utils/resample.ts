@@ -0,0 +1,220 @@
+import { ImageConfig } from '../types';
+
+// Deterministic resampling in plain TypeScript, so output does not depend on the
+// browser's drawImage smoothing. Filtering happens on premultiplied alpha to avoid
+// dark fringes around transparent edges.
+
+export type ResamplingFilter = ImageConfig['resampling'];
+
+interface Kernel {
+  support: number; // Radius in source pixels at 1:1 scale
+  fn: (x: number) => number;
+}
+
+const sinc = (x: number) => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const KERNELS: Record<'bilinear' | 'bicubic' | 'lanczos3', Kernel> = {
+  bilinear: {
+    support: 1,
+    fn: (x) => {
+      x = Math.abs(x);
+      return x < 1 ? 1 - x : 0;
+    }
+  },
+  // Keys cubic convolution with a = -0.5 (Catmull-Rom)
+  bicubic: {
+    support: 2,
+    fn: (x) => {
+      const a = -0.5;
+      x = Math.abs(x);
+      if (x < 1) return (a + 2) * x * x * x - (a + 3) * x * x + 1;
+      if (x < 2) return a * x * x * x - 5 * a * x * x + 8 * a * x - 4 * a;
+      return 0;
+    }
+  },
+  lanczos3: {
+    support: 3,
+    fn: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0)
+  }
+};
+
+interface Contribution {
+  start: number;
+  weights: Float32Array;
+}
+
+// Precompute, for each destination pixel along one axis, which source pixels contribute and by how much
+const computeContributions = (srcSize: number, dstSize: number, kernel: Kernel): Contribution[] => {
+  const scale = dstSize / srcSize;
+  // Widen the kernel when shrinking so it acts as a low-pass filter (this is what removes aliasing)
+  const filterScale = Math.max(1, 1 / scale);
+  const support = kernel.support * filterScale;
+  const contributions: Contribution[] = [];
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / scale;
+    const start = Math.max(0, Math.floor(center - support));
+    const end = Math.min(srcSize, Math.ceil(center + support));
+    const weights = new Float32Array(Math.max(1, end - start));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      const w = kernel.fn((j + 0.5 - center) / filterScale);
+      weights[j - start] = w;
+      sum += w;
+    }
+    if (sum !== 0) {
+      for (let k = 0; k < weights.length; k++) weights[k] /= sum;
+    }
+    contributions.push({ start, weights });
+  }
+  return contributions;
+};
+
+// Source pixels are either the original straight-alpha bytes or an already premultiplied
+// float buffer (after stepwise halving). Premultiplying on the fly avoids a full-size float copy.
+type PixelBuffer = Uint8ClampedArray | Float32Array;
+
+const fromPremultiplied = (src: Float32Array, dst: Uint8ClampedArray) => {
+  for (let i = 0; i < src.length; i += 4) {
+    const a = src[i + 3];
+    if (a <= 0) {
+      dst[i] = dst[i + 1] = dst[i + 2] = dst[i + 3] = 0;
+      continue;
+    }
+    const inv = 255 / a;
+    dst[i] = src[i] * inv;
+    dst[i + 1] = src[i + 1] * inv;
+    dst[i + 2] = src[i + 2] * inv;
+    dst[i + 3] = a;
+  }
+};
+
+// Separable convolution: horizontal pass into a (dstW x srcH) buffer, then vertical pass
+const convolve = (
+  src: PixelBuffer, premultiplied: boolean, srcW: number, srcH: number,
+  dstW: number, dstH: number,
+  kernel: Kernel
+): Float32Array => {
+  const xContrib = computeContributions(srcW, dstW, kernel);
+  const yContrib = computeContributions(srcH, dstH, kernel);
+
+  const tmp = new Float32Array(dstW * srcH * 4);
+  for (let y = 0; y < srcH; y++) {
+    const row = y * srcW * 4;
+    for (let x = 0; x < dstW; x++) {
+      const { start, weights } = xContrib[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = row + (start + k) * 4;
+        const w = weights[k] * (premultiplied ? 1 : src[i + 3] / 255);
+        r += src[i] * w;
+        g += src[i + 1] * w;
+        b += src[i + 2] * w;
+        a += src[i + 3] * weights[k];
+      }
+      const o = (y * dstW + x) * 4;
+      tmp[o] = r; tmp[o + 1] = g; tmp[o + 2] = b; tmp[o + 3] = a;
+    }
+  }
+
+  const out = new Float32Array(dstW * dstH * 4);
+  for (let y = 0; y < dstH; y++) {
+    const { start, weights } = yContrib[y];
+    for (let x = 0; x < dstW; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const w = weights[k];
+        const i = ((start + k) * dstW + x) * 4;
+        r += tmp[i] * w;
+        g += tmp[i + 1] * w;
+        b += tmp[i + 2] * w;
+        a += tmp[i + 3] * w;
+      }
+      const o = (y * dstW + x) * 4;
+      // Negative lobes (bicubic, Lanczos) can overshoot; clamp alpha so unpremultiplying stays sane
+      out[o] = r; out[o + 1] = g; out[o + 2] = b; out[o + 3] = Math.min(255, Math.max(0, a));
+    }
+  }
+  return out;
+};
+
+// 2x box filter along the requested axes, used by the stepwise mode
+const halve = (
+  src: PixelBuffer, premultiplied: boolean, w: number, h: number,
+  halveX: boolean, halveY: boolean
+) => {
+  const nw = halveX ? Math.floor(w / 2) : w;
+  const nh = halveY ? Math.floor(h / 2) : h;
+  const sx = halveX ? 2 : 1;
+  const sy = halveY ? 2 : 1;
+  const norm = 1 / (sx * sy);
+  const out = new Float32Array(nw * nh * 4);
+  for (let y = 0; y < nh; y++) {
+    for (let x = 0; x < nw; x++) {
+      const o = (y * nw + x) * 4;
+      for (let dy = 0; dy < sy; dy++) {
+        for (let dx = 0; dx < sx; dx++) {
+          const i = ((y * sy + dy) * w + (x * sx + dx)) * 4;
+          const m = norm * (premultiplied ? 1 : src[i + 3] / 255);
+          out[o] += src[i] * m;
+          out[o + 1] += src[i + 1] * m;
+          out[o + 2] += src[i + 2] * m;
+          out[o + 3] += src[i + 3] * norm;
+        }
+      }
+    }
+  }
+  return { data: out, width: nw, height: nh };
+};
+
+const resampleNearest = (src: ImageData, dstW: number, dstH: number): ImageData => {
+  const out = new ImageData(dstW, dstH);
+  const xScale = src.width / dstW;
+  const yScale = src.height / dstH;
+  for (let y = 0; y < dstH; y++) {
+    const sy = Math.min(src.height - 1, Math.floor((y + 0.5) * yScale));
+    for (let x = 0; x < dstW; x++) {
+      const sx = Math.min(src.width - 1, Math.floor((x + 0.5) * xScale));
+      const i = (sy * src.width + sx) * 4;
+      const o = (y * dstW + x) * 4;
+      out.data[o] = src.data[i];
+      out.data[o + 1] = src.data[i + 1];
+      out.data[o + 2] = src.data[i + 2];
+      out.data[o + 3] = src.data[i + 3];
+    }
+  }
+  return out;
+};
+
+export const resampleImageData = (
+  src: ImageData,
+  dstW: number,
+  dstH: number,
+  filter: Exclude<ResamplingFilter, 'browser'>
+): ImageData => {
+  dstW = Math.max(1, Math.round(dstW));
+  dstH = Math.max(1, Math.round(dstH));
+  if (filter === 'nearest') return resampleNearest(src, dstW, dstH);
+
+  let data: PixelBuffer = src.data;
+  let premultiplied = false;
+  let width = src.width;
+  let height = src.height;
+  const kernel = KERNELS[filter === 'stepwise' ? 'bilinear' : filter];
+
+  // Stepwise: halve with a box filter while at least 2x too large, then finish with bilinear
+  if (filter === 'stepwise') {
+    while (width >= dstW * 2 || height >= dstH * 2) {
+      ({ data, width, height } = halve(data, premultiplied, width, height, width >= dstW * 2, height >= dstH * 2));
+      premultiplied = true;
+    }
+  }
+
+  const result = new ImageData(dstW, dstH);
+  fromPremultiplied(convolve(data, premultiplied, width, height, dstW, dstH, kernel), result.data);
+  return result;
+};
@@ -0,0 +1,113 @@
+import { CropRect, ImageConfig } from '../types';
+import { getFormatExtension } from './imageUtils';
+
+// Responsive image sets: the current edit rendered at several widths and formats,
+// plus the <picture> markup that serves them.
+
+export const RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+// In <source> order: the browser takes the first type it supports, so the most efficient comes first
+export const RESPONSIVE_FORMATS: ImageConfig['format'][] = ['image/avif', 'image/webp', 'image/jpeg', 'image/png'];
+
+export interface ResponsiveSettings {
+  widths: number[];
+  formats: ImageConfig['format'][];
+  sizes: string; // Value of the sizes attribute, e.g. "(min-width: 1024px) 50vw, 100vw"
+}
+
+export const DEFAULT_RESPONSIVE_SETTINGS: ResponsiveSettings = {
+  widths: RESPONSIVE_WIDTHS,
+  formats: ['image/avif', 'image/webp', 'image/jpeg'],
+  sizes: '100vw',
+};
+
+// One rendered size of the set; named with nameResponsiveFiles once the base name is known
+export interface RenderedSize {
+  blob: Blob;
+  width: number;
+  height: number;
+  format: ImageConfig['format'];
+}
+
+export interface ResponsiveFile extends RenderedSize {
+  filename: string;
+}
+
+// Size of the cropped area the set is rendered from, in intermediate image pixels
+export const getCropSize = (
+  config: Pick<ImageConfig, 'cropRect' | 'cropRatio'>,
+  intermediate: { width: number; height: number }
+): Pick<CropRect, 'width' | 'height'> => {
+  if (config.cropRect) return { width: config.cropRect.width, height: config.cropRect.height };
+  if (config.cropRatio) {
+    const { width, height } = intermediate;
+    return width / height > config.cropRatio
+      ? { width: height * config.cropRatio, height }
+      : { width, height: width / config.cropRatio };
+  }
+  return intermediate;
+};
+
+// Requested widths that don't upscale the crop; the crop's own width when all of them would
+export const getResponsiveWidths = (widths: number[], sourceWidth: number) => {
+  const fitting = [...new Set(widths)].filter(w => w > 0 && w <= sourceWidth).sort((a, b) => a - b);
+  return fitting.length > 0 ? fitting : [Math.floor(sourceWidth)];
+};
+
+// The editor's settings rendered at one size and format of the set
+export const getResponsiveConfig = (
+  config: ImageConfig,
+  format: ImageConfig['format'],
+  width: number,
+  crop: Pick<CropRect, 'width' | 'height'>
+): ImageConfig => ({
+  ...config,
+  format,
+  targetWidth: width,
+  targetHeight: Math.max(1, Math.round((width * crop.height) / crop.width)),
+  // A single byte budget doesn't make sense across widths
+  targetFileSize: 0,
+});
+
+export const nameResponsiveFiles = (sizes: RenderedSize[], baseName: string): ResponsiveFile[] =>
+  sizes.map(size => ({ ...size, filename: `${baseName}-${size.width}w.${getFormatExtension(size.format)}` }));
+
+export const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const buildSrcset = (files: ResponsiveFile[]) =>
+  files.map(file => `${file.filename} ${file.width}w`).join(', ');
+
+/**
+ * Ready-to-paste <picture> element. Every format but the last becomes a <source>;
+ * the last (usually JPEG) is the <img> fallback, sized from its largest file.
+ */
+export const buildPictureMarkup = (
+  files: ResponsiveFile[],
+  options: { alt: string; sizes: string }
+): string => {
+  const formats = RESPONSIVE_FORMATS.filter(format => files.some(file => file.format === format));
+  if (formats.length === 0) return '';
+
+  const byFormat = (format: ImageConfig['format']) =>
+    files.filter(file => file.format === format).sort((a, b) => a.width - b.width);
+
+  const fallbackFormat = formats[formats.length - 1];
+  const fallback = byFormat(fallbackFormat);
+  const largest = fallback[fallback.length - 1];
+  const sizes = escapeAttribute(options.sizes);
+
+  const lines = ['<picture>'];
+  formats.slice(0, -1).forEach(format => {
+    lines.push(`  <source type="${format}" srcset="${escapeAttribute(buildSrcset(byFormat(format)))}" sizes="${sizes}">`);
+  });
+  lines.push(
+    `  <img src="${escapeAttribute(largest.filename)}"`,
+    `       srcset="${escapeAttribute(buildSrcset(fallback))}"`,
+    `       sizes="${sizes}"`,
+    `       width="${largest.width}" height="${largest.height}"`,
+    `       alt="${escapeAttribute(options.alt)}" loading="lazy" decoding="async">`,
+    '</picture>'
+  );
+  return lines.join('\n');
+};
@@ -0,0 +1,132 @@
+import { CropRect, ImageConfig, SubjectBox } from '../types';
+import { NEUTRAL_ADJUSTMENTS } from './colorUtils';
+import { getCenteredCropRect, getIntermediateDimensions } from './imageUtils';
+import { STRIP_ALL_METADATA } from './metadata';
+import { Checkpoint, DecodedSource, getContext2D, renderImage } from './pipeline';
+
+// Smart crop: find the main subject of the intermediate image (rotated, flipped, straightened)
+// and place crops of each ratio around it instead of in the centre.
+
+// The crop ratios offered as candidates, keyed like the ratio labels in i18n
+export const SMART_CROP_RATIOS: { key: 'square' | 'landscape' | 'portrait' | 'standard'; value: number }[] = [
+  { key: 'square', value: 1 },
+  { key: 'landscape', value: 16 / 9 },
+  { key: 'portrait', value: 9 / 16 },
+  { key: 'standard', value: 4 / 3 },
+];
+
+// The saliency heuristic works on a thumbnail; subjects are big compared to its pixels
+const SALIENCY_SIZE = 256;
+
+// How far around the weighted centre (in standard deviations) the subject box reaches
+const SUBJECT_SPREAD = 1.5;
+const MIN_SUBJECT_SIZE = 0.1;
+
+// Mild preference for the middle: photographers rarely put the subject in a corner
+const CENTER_PRIOR_SIGMA = 0.35;
+
+// Fallback when the image has no structure at all
+const CENTER_SUBJECT: SubjectBox = { x: 0.25, y: 0.25, width: 0.5, height: 0.5 };
+
+/**
+ * The intermediate image as analysis input: geometry kept (crop rects refer to it), no crop,
+ * adjustments, markup or metadata, at most `maxSize` on its longer side.
+ */
+export const getSubjectConfig = (
+  config: ImageConfig,
+  intermediateWidth: number,
+  intermediateHeight: number,
+  maxSize: number
+): ImageConfig => {
+  const scale = Math.min(1, maxSize / Math.max(intermediateWidth, intermediateHeight));
+  return {
+    ...config,
+    ...NEUTRAL_ADJUSTMENTS,
+    cropRatio: null,
+    cropRect: null,
+    targetWidth: Math.max(1, Math.round(intermediateWidth * scale)),
+    targetHeight: Math.max(1, Math.round(intermediateHeight * scale)),
+    targetFileSize: 0,
+    resampling: 'browser',
+    format: 'image/jpeg',
+    quality: 0.85,
+    metadata: STRIP_ALL_METADATA,
+    watermark: { ...config.watermark, type: 'none' },
+    annotations: [],
+  };
+};
+
+/**
+ * Locate the main subject by edge energy and colourfulness: busy, saturated areas are
+ * what the eye goes to, flat sky, walls and backgrounds are not. Returns the box around
+ * the energy-weighted centre, in fractions of the image.
+ */
+export const findSubject = (pixels: ImageData): SubjectBox => {
+  const { data, width, height } = pixels;
+  if (width < 3 || height < 3) return CENTER_SUBJECT;
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  let total = 0, sumX = 0, sumY = 0, sumXX = 0, sumYY = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gradient = (Math.abs(luma[i + 1] - luma[i - 1]) + Math.abs(luma[i + width] - luma[i - width])) / 510;
+      const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+      const saturation = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+      const nx = x / width - 0.5;
+      const ny = y / height - 0.5;
+      const prior = Math.exp(-(nx * nx + ny * ny) / (2 * CENTER_PRIOR_SIGMA * CENTER_PRIOR_SIGMA));
+      // Squared, so a few strong edges outweigh wide areas of faint texture or noise
+      const energy = gradient + 0.3 * saturation;
+      const weight = energy * energy * prior;
+      total += weight;
+      sumX += weight * x;
+      sumY += weight * y;
+      sumXX += weight * x * x;
+      sumYY += weight * y * y;
+    }
+  }
+  if (total <= 0) return CENTER_SUBJECT;
+
+  const cx = sumX / total;
+  const cy = sumY / total;
+  const spreadX = Math.sqrt(Math.max(0, sumXX / total - cx * cx)) * SUBJECT_SPREAD;
+  const spreadY = Math.sqrt(Math.max(0, sumYY / total - cy * cy)) * SUBJECT_SPREAD;
+  const halfWidth = Math.max(MIN_SUBJECT_SIZE / 2, spreadX / width);
+  const halfHeight = Math.max(MIN_SUBJECT_SIZE / 2, spreadY / height);
+  const left = Math.max(0, cx / width - halfWidth);
+  const top = Math.max(0, cy / height - halfHeight);
+  return {
+    x: left,
+    y: top,
+    width: Math.min(1, cx / width + halfWidth) - left,
+    height: Math.min(1, cy / height + halfHeight) - top,
+  };
+};
+
+// Worker job: render the intermediate thumbnail and run the heuristic on it
+export const detectSubject = (source: DecodedSource, config: ImageConfig, checkpoint: Checkpoint): SubjectBox => {
+  const { width, height } = getIntermediateDimensions(source.bitmap.width, source.bitmap.height, config);
+  const canvas = renderImage(source.bitmap, getSubjectConfig(config, width, height, SALIENCY_SIZE), checkpoint);
+  checkpoint();
+  return findSubject(getContext2D(canvas, 'subject').getImageData(0, 0, canvas.width, canvas.height));
+};
+
+/**
+ * The largest crop of `ratio` (same size as the centred one), moved to be centred on
+ * the subject as far as the image edges allow.
+ */
+export const getSmartCropRect = (width: number, height: number, ratio: number, subject: SubjectBox): CropRect => {
+  const rect = getCenteredCropRect(width, height, ratio);
+  const cx = (subject.x + subject.width / 2) * width;
+  const cy = (subject.y + subject.height / 2) * height;
+  return {
+    ...rect,
+    x: Math.max(0, Math.min(width - rect.width, cx - rect.width / 2)),
+    y: Math.max(0, Math.min(height - rect.height, cy - rect.height / 2)),
+  };
+};
@@ -0,0 +1,152 @@
+import { WatermarkAnchor, WatermarkConfig } from '../types';
+import { loadLogo } from './logoStore';
+
+// Watermark stage: a text or logo mark drawn onto the final pixels, either at one of nine
+// anchors or tiled over the whole image. Runs inside the pipeline, so the worker, batch,
+// profile and responsive exports all brand their output the same way.
+
+type WatermarkContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const DEFAULT_WATERMARK: WatermarkConfig = {
+  type: 'none',
+  text: '',
+  font: 'sans-serif',
+  color: '#ffffff',
+  size: 5,
+  logoId: null,
+  opacity: 0.5,
+  rotation: 0,
+  layout: 'anchor',
+  anchor: 'bottom-right',
+  offsetX: 3,
+  offsetY: 3,
+  spacing: 10,
+};
+
+// Row by row, as laid out in the anchor picker
+export const WATERMARK_ANCHORS: WatermarkAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+// Generic families and fonts that ship with practically every OS, since the worker can't load web fonts
+export const WATERMARK_FONTS = ['sans-serif', 'serif', 'monospace', 'Arial', 'Georgia', 'Impact', 'Courier New'];
+
+// Logos are stored downscaled to this size; larger would only cost memory in every job
+const MAX_LOGO_SIZE = 1024;
+
+export const hasWatermark = (watermark: WatermarkConfig) =>
+  (watermark.type === 'text' && watermark.text.trim() !== '') ||
+  (watermark.type === 'image' && watermark.logoId !== null);
+
+// The last decoded logo; the same one is drawn for every preview and batch item
+let cachedLogo: { id: string; bitmap: Promise<ImageBitmap | null> } | null = null;
+
+// The decoded logo, or null when the logo store doesn't have it
+export const loadWatermarkImage = (logoId: string): Promise<ImageBitmap | null> => {
+  if (cachedLogo?.id !== logoId) {
+    const bitmap = loadLogo(logoId).then(blob => (blob ? createImageBitmap(blob) : null));
+    // Don't keep a failed decode or a missing logo around, it may be stored later (preset import)
+    const forget = () => { if (cachedLogo?.id === logoId) cachedLogo = null; };
+    bitmap.then(logo => { if (!logo) forget(); }, forget);
+    cachedLogo = { id: logoId, bitmap };
+  }
+  return cachedLogo.bitmap;
+};
+
+/**
+ * Draw `watermark` onto a `width` x `height` image. `logo` is the decoded
+ * logo (see loadWatermarkImage) and is only used for image marks.
+ */
+export const drawWatermark = (
+  ctx: WatermarkContext,
+  width: number,
+  height: number,
+  watermark: WatermarkConfig,
+  logo: ImageBitmap | null
+) => {
+  if (!hasWatermark(watermark) || (watermark.type === 'image' && !logo)) return;
+  const unit = Math.min(width, height) / 100;
+  const markHeight = Math.max(1, watermark.size * unit);
+  const angle = (watermark.rotation * Math.PI) / 180;
+
+  ctx.save();
+  ctx.globalAlpha = Math.max(0, Math.min(1, watermark.opacity));
+  let markWidth: number;
+  if (watermark.type === 'text') {
+    ctx.font = `${markHeight}px ${watermark.font}`;
+    ctx.fillStyle = watermark.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    markWidth = ctx.measureText(watermark.text).width;
+  } else {
+    markWidth = (markHeight * logo!.width) / logo!.height;
+  }
+
+  const drawMark = (x: number, y: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    if (watermark.type === 'text') {
+      ctx.fillText(watermark.text, 0, 0);
+    } else {
+      ctx.drawImage(logo!, -markWidth / 2, -markHeight / 2, markWidth, markHeight);
+    }
+    ctx.restore();
+  };
+
+  if (watermark.layout === 'tile') {
+    // Every other row is shifted by half a step, which lines the marks up diagonally
+    const gap = Math.max(0, watermark.spacing) * unit;
+    const stepX = Math.max(1, markWidth + gap);
+    const stepY = markHeight + gap;
+    for (let row = 0, y = stepY / 2; y - stepY / 2 < height; row++, y += stepY) {
+      for (let x = row % 2 === 0 ? stepX / 2 : 0; x - stepX / 2 < width; x += stepX) {
+        drawMark(x, y);
+      }
+    }
+  } else {
+    // Place by the rotated bounding box, so a tilted mark stays off the edges too
+    const boxWidth = Math.abs(markWidth * Math.cos(angle)) + Math.abs(markHeight * Math.sin(angle));
+    const boxHeight = Math.abs(markWidth * Math.sin(angle)) + Math.abs(markHeight * Math.cos(angle));
+    const offsetX = watermark.offsetX * unit;
+    const offsetY = watermark.offsetY * unit;
+    const { anchor } = watermark;
+    const x = anchor.endsWith('left')
+      ? offsetX + boxWidth / 2
+      : anchor.endsWith('right') ? width - offsetX - boxWidth / 2 : width / 2 + offsetX;
+    const y = anchor.startsWith('top')
+      ? offsetY + boxHeight / 2
+      : anchor.startsWith('bottom') ? height - offsetY - boxHeight / 2 : height / 2 + offsetY;
+    drawMark(x, y);
+  }
+  ctx.restore();
+};
+
+// Read an uploaded logo into the PNG kept in the logo store. Main thread only:
+// goes through <img>, which also accepts SVG logos.
+export const readWatermarkImage = (file: Blob): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get watermark canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the watermark image'))), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the watermark image'));
+    };
+    img.src = url;
+  });
@@ -0,0 +1,14 @@
+import { zipSync } from 'fflate';
+
+// ZIP archives for exports, written by fflate with the STORE method (no compression).
+// Exported images are already compressed, so deflating them again gains almost nothing.
+
+export interface ZipEntry {
+  name: string; // Unique within the archive
+  data: Uint8Array;
+}
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const files = Object.fromEntries(entries.map(entry => [entry.name, entry.data]));
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+};
@@ -10,6 +10,14 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // The image worker lazy-loads the WASM codecs, which needs code-splitting
+      worker: {
+        format: 'es',
+      },
+      // Pre-bundling would separate the Emscripten glue from its .wasm files
+      optimizeDeps: {
+        exclude: ['@jsquash/avif'],
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)